@@ -1,32 +1,322 @@
 import React, { useState, useRef, useEffect, useCallback, useMemo } from 'react';
 import { 
   Menu, Trash2, MessageSquare, X, Database, Search, 
-  Loader2, AlertCircle, CheckCircle2, Eraser, ArrowRight, 
-  Sparkles
+  Loader2, AlertCircle, CheckCircle2, ArrowRight, 
+  Sparkles, Square, MessageSquarePlus, SlidersHorizontal, BookOpen,
+  Pause, Play, RotateCcw, History, ArchiveRestore, ChevronDown, Tag, AtSign, Table2, ListChecks, GitCompare
 } from 'lucide-react';
-import { FileDocument, ChatMessage, MessageRole } from './types';
+import { 
+  FileDocument, ChatMessage, ChatThread, MessageRole, Workspace, SourceReference, GenerationSettings,
+  PromptTemplate, PromptSelection, GroundingMetadata, MetadataTag, Extraction, ExtractionRow, ExtractedValue,
+  BatchRun, BatchCell, Comparison
+} from './types';
 import { FileUploader } from './components/FileUploader';
 import { FileIcon } from './components/FileIcon';
 import { ChatMessageBubble } from './components/ChatMessageBubble';
-import { initializeChatSession, sendMessageStream, uploadFileToGemini, deleteFileFromGemini } from './services/geminiService';
+import { WorkspaceSwitcher } from './components/WorkspaceSwitcher';
+import { DocumentPreview } from './components/DocumentPreview';
+import { ThreadList } from './components/ThreadList';
+import { SettingsPanel } from './components/SettingsPanel';
+import { PromptLibrary, PromptScope } from './components/PromptLibrary';
+import { UploadProgress, isInUploadQueue } from './components/UploadProgress';
+import { DuplicateFilesDialog } from './components/DuplicateFilesDialog';
+import { VersionDiff } from './components/VersionDiff';
+import { VersionHistory } from './components/VersionHistory';
+import { FolderTree } from './components/FolderTree';
+import { SearchPanel } from './components/SearchPanel';
+import { MetadataEditor } from './components/MetadataEditor';
+import { MetadataFilterBar } from './components/MetadataFilterBar';
+import { FileScopeBar } from './components/FileScopeBar';
+import { MentionMenu } from './components/MentionMenu';
+import { ExportMenu } from './components/ExportMenu';
+import { BundleExportDialog } from './components/BundleExportDialog';
+import { BundleImportDialog, BundleImportState } from './components/BundleImportDialog';
+import { ExtractionPanel } from './components/ExtractionPanel';
+import { BatchPanel, BatchTarget } from './components/BatchPanel';
+import { ComparisonPanel } from './components/ComparisonPanel';
+import { 
+  initializeChatSession, resetChatSession, sendMessageStream, isAbortError, uploadFileToGemini, deleteFileFromGemini,
+  waitForDocumentIndexed, deleteRemoteFile, askAboutFile, generateFromFiles, answerFromStore, withRetry,
+  reconcileWorkspace, buildChatHistory, createFileSearchStore, deleteFileSearchStore, generateThreadTitle
+} from './services/geminiService';
+import { 
+  listWorkspaces, saveWorkspace, deleteWorkspace, createWorkspace, createThread, fallbackThreadTitle,
+  loadActiveWorkspaceId, saveActiveWorkspaceId, loadGlobalSettings, saveGlobalSettings, resolveSettings,
+  listPrompts, savePrompt, deletePrompt
+} from './services/storageService';
+import { AVAILABLE_MODELS, DEFAULT_GENERATION_SETTINGS, CONVERTED_EXTENSIONS } from './constants';
+import { getPathTo, getBranchInfo, findLatestLeaf } from './services/messageTree';
+import { findFileByName } from './services/citationService';
+import { mergePromptLibrary, resolvePrompt } from './services/promptService';
+import { DuplicateMatch, DuplicateResolution, hashFile, findDuplicates, applyDuplicateResolutions } from './services/dedupService';
+import { VersionGroup, groupVersions, assignVersions, documentIdOf, versionOf } from './services/versionService';
+import { baseName } from './services/folderTree';
+import { FileIndex, SearchHit, buildFileIndex } from './services/searchIndexService';
+import { isTextMimeType, readFileText } from './services/fileContentService';
+import { collectTagKeys, combineFilters, fileScopeFilter, formatTag, sameTags } from './services/metadataService';
+import { Mention, activeMention, matchMentionFiles, removeMention } from './services/mentionService';
+import { ExportFormat, exportThread } from './services/exportService';
+import { createBundle, readBundle } from './services/bundleService';
+import { downloadBlob, safeFileName } from './services/downloadService';
+import {
+  ExtractionExportFormat, buildExtractionRequest, createExtraction, exportExtraction, parseExtractionResult
+} from './services/extractionService';
+import { BatchColumn, applyQuestions, createBatch, exportBatchCsv, runWithConcurrency } from './services/batchService';
+import { buildComparisonRequest, canDiff, parseComparisonReport } from './services/comparisonService';
+
+/** What a question is asked against, beyond the workspace's search store. */
+type TurnScope = Pick<ChatMessage, 'versionFileId' | 'metadataFilter' | 'scopeFileIds'>;
+
+const PERSIST_DEBOUNCE_MS = 400;
+const MAX_CONCURRENT_UPLOADS = 3;
+const MAX_CONCURRENT_EXTRACTIONS = 3;
+const DEFAULT_WORKSPACE_NAME = 'My Workspace';
+
+// Documents are placed in the sidebar tree by the relative path in their name
+const groupPath = (group: VersionGroup) => group.current.name;
+const groupKey = (group: VersionGroup) => group.documentId;
 
 const App: React.FC = () => {
-  const [files, setFiles] = useState<FileDocument[]>([]);
-  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [workspaces, setWorkspaces] = useState<Workspace[]>([]);
+  const [activeWorkspaceId, setActiveWorkspaceId] = useState<string | null>(null);
   const [inputValue, setInputValue] = useState('');
   const [isSidebarOpen, setIsSidebarOpen] = useState(true);
   const [isProcessing, setIsProcessing] = useState(false);
   const [activeFileId, setActiveFileId] = useState<string | null>(null);
+  const [previewHighlight, setPreviewHighlight] = useState<SourceReference | null>(null);
   const [confirmDeleteId, setConfirmDeleteId] = useState<string | null>(null);
+  const [isRestoring, setIsRestoring] = useState(true);
+  const [globalSettings, setGlobalSettings] = useState<GenerationSettings>(DEFAULT_GENERATION_SETTINGS);
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [customPrompts, setCustomPrompts] = useState<PromptTemplate[]>([]);
+  const [isPromptLibraryOpen, setIsPromptLibraryOpen] = useState(false);
+  const [isSelectingFiles, setIsSelectingFiles] = useState(false);
+  const [selectedFileIds, setSelectedFileIds] = useState<string[]>([]);
+  // An upload batch waiting for the user to decide what to do with its duplicates
+  const [duplicateReview, setDuplicateReview] = useState<{
+    workspaceId: string;
+    files: FileDocument[];
+    matches: DuplicateMatch[];
+  } | null>(null);
+  const [expandedDocumentIds, setExpandedDocumentIds] = useState<string[]>([]);
+  // A specific file version the next question is asked against, bypassing the search store
+  const [versionTargetId, setVersionTargetId] = useState<string | null>(null);
+  // Two versions shown side by side in the preview pane
+  const [diffPair, setDiffPair] = useState<{ leftId: string; rightId: string } | null>(null);
+  const [diffTexts, setDiffTexts] = useState<{ before?: string; after?: string; error?: string }>({});
+  // Local full-text index by file id, kept across workspace switches
+  const [fileIndexes, setFileIndexes] = useState<Map<string, FileIndex>>(new Map());
+  const [indexingCount, setIndexingCount] = useState(0);
+  const [editingTagsId, setEditingTagsId] = useState<string | null>(null);
+  // Metadata filter for the next question only; the conversation-wide one lives on the thread
+  const [questionFilter, setQuestionFilter] = useState<string | undefined>();
+  // Files the next question is limited to, picked with checkboxes or @-mentions
+  const [scopeFileIds, setScopeFileIds] = useState<string[]>([]);
+  const [mention, setMention] = useState<Mention | null>(null);
+  const [mentionIndex, setMentionIndex] = useState(0);
+  const [bundleExportId, setBundleExportId] = useState<string | null>(null);
+  const [bundleImport, setBundleImport] = useState<BundleImportState | null>(null);
+  const [mainView, setMainView] = useState<'chat' | 'extraction' | 'batch' | 'comparison'>('chat');
+  // Workspaces with an extraction or batch run in progress
+  const [extractingIds, setExtractingIds] = useState<string[]>([]);
+  const [batchRunningIds, setBatchRunningIds] = useState<string[]>([]);
   
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const workspacesRef = useRef<Workspace[]>([]);
+  const savedSnapshots = useRef(new Map<string, Workspace>());
+  const pendingStores = useRef(new Map<string, Promise<string>>());
+  const abortControllerRef = useRef<AbortController | null>(null);
+  // In-flight uploads by file id; its size is the number of busy queue slots
+  const uploadControllers = useRef(new Map<string, AbortController>());
+  const extractionControllers = useRef(new Map<string, AbortController>()); // By workspace id
+  const batchControllers = useRef(new Map<string, AbortController>()); // By workspace id
+  const comparisonControllers = useRef(new Map<string, AbortController>()); // By workspace id
+  const fileIndexesRef = useRef(fileIndexes);
+  // Files being indexed, and files that could not be (not retried until reload)
+  const indexingIds = useRef(new Set<string>());
+  const unindexableIds = useRef(new Set<string>());
 
-  const { activeCount, isSyncing, activeFile } = useMemo(() => ({
+  workspacesRef.current = workspaces;
+  fileIndexesRef.current = fileIndexes;
+
+  const activeWorkspace = useMemo(
+    () => workspaces.find(ws => ws.id === activeWorkspaceId),
+    [workspaces, activeWorkspaceId]
+  );
+  const files = useMemo(() => activeWorkspace?.files ?? [], [activeWorkspace]);
+  const activeThread = useMemo(
+    () => activeWorkspace?.threads.find(t => t.id === activeWorkspace.activeThreadId),
+    [activeWorkspace]
+  );
+  const activeThreadId = activeThread?.id ?? null;
+  const allMessages = useMemo(() => activeThread?.messages ?? [], [activeThread]);
+  // The branch currently shown, root first
+  const messages = useMemo(
+    () => getPathTo(allMessages, activeThread?.activeLeafId ?? null),
+    [allMessages, activeThread?.activeLeafId]
+  );
+  const branchInfo = useMemo(() => getBranchInfo(allMessages, messages), [allMessages, messages]);
+  const activeStoreName = activeWorkspace?.storeName ?? null;
+  const effectiveSettings = useMemo(
+    () => resolveSettings(globalSettings, activeWorkspace?.settingsOverride),
+    [globalSettings, activeWorkspace?.settingsOverride]
+  );
+  const settingsKey = JSON.stringify(effectiveSettings);
+  const promptLibrary = useMemo(() => mergePromptLibrary(customPrompts), [customPrompts]);
+  // A conversation's own prompt wins over the workspace prompt
+  const { prompt: activePrompt, systemInstruction } = useMemo(
+    () => resolvePrompt(promptLibrary, activeThread?.promptSelection ?? activeWorkspace?.promptSelection),
+    [promptLibrary, activeThread?.promptSelection, activeWorkspace?.promptSelection]
+  );
+
+  const { activeCount, isSyncing, activeFile, queuedCount, pausedCount, erroredCount } = useMemo(() => ({
     activeCount: files.filter(f => f.status === 'active').length,
-    isSyncing: files.some(f => f.status === 'uploading' || f.status === 'processing' || f.status === 'pending'),
-    activeFile: files.find(f => f.id === activeFileId)
+    isSyncing: files.some(f => isInUploadQueue(f.status)),
+    activeFile: files.find(f => f.id === activeFileId),
+    queuedCount: files.filter(f => isInUploadQueue(f.status)).length,
+    pausedCount: files.filter(f => f.status === 'paused').length,
+    erroredCount: files.filter(f => f.status === 'error').length
   }), [files, activeFileId]);
+  const versionGroups = useMemo(() => groupVersions(files), [files]);
+  const currentDocuments = useMemo(() => versionGroups.map(g => g.current), [versionGroups]);
+  const batchColumns = useMemo((): BatchColumn[] => activeWorkspace?.batch?.mode === 'per-file'
+    ? currentDocuments.filter(f => f.status === 'active').map(f => ({ fileId: f.id, name: f.name }))
+    : [{ fileId: null, name: 'Whole workspace' }],
+    [activeWorkspace?.batch?.mode, currentDocuments]);
+  const workspaceIndexes = useMemo(
+    () => files.map(f => fileIndexes.get(f.id)).filter((index): index is FileIndex => !!index),
+    [files, fileIndexes]
+  );
+  const versionTarget = files.find(f => f.id === versionTargetId);
+  const tagKeys = useMemo(() => collectTagKeys(files), [files]);
+  const scopeFiles = files.filter(f => scopeFileIds.includes(f.id));
+  const mentionSuggestions = mention ? matchMentionFiles(files, mention.query, scopeFileIds) : [];
+  const diffFiles = diffPair && {
+    left: files.find(f => f.id === diffPair.leftId),
+    right: files.find(f => f.id === diffPair.rightId)
+  };
+  const comparison = activeWorkspace?.comparison;
+
+  /** Apply an update to one workspace. Async flows pass the id they started in. */
+  const updateWorkspace = useCallback((id: string, update: (ws: Workspace) => Workspace) => {
+    setWorkspaces(prev => prev.map(ws => ws.id === id ? update(ws) : ws));
+  }, []);
+
+  const updateFiles = useCallback((id: string, update: (files: FileDocument[]) => FileDocument[]) => {
+    updateWorkspace(id, ws => ({ ...ws, files: update(ws.files) }));
+  }, [updateWorkspace]);
+
+  const updateThread = useCallback((workspaceId: string, threadId: string, update: (thread: ChatThread) => ChatThread) => {
+    updateWorkspace(workspaceId, ws => ({ ...ws, threads: ws.threads.map(t => t.id === threadId ? update(t) : t) }));
+  }, [updateWorkspace]);
+
+  const updateExtraction = useCallback((workspaceId: string, update: (extraction: Extraction) => Extraction) => {
+    updateWorkspace(workspaceId, ws => ({ ...ws, extraction: { ...update(ws.extraction ?? createExtraction()), updatedAt: Date.now() } }));
+  }, [updateWorkspace]);
+
+  const updateExtractionRow = useCallback((workspaceId: string, fileId: string, update: (row: ExtractionRow) => ExtractionRow) => {
+    updateExtraction(workspaceId, ext => ext.rows.some(r => r.fileId === fileId)
+      ? { ...ext, rows: ext.rows.map(r => r.fileId === fileId ? update(r) : r) }
+      : { ...ext, rows: [...ext.rows, update({ fileId, status: 'pending', cells: {} })] });
+  }, [updateExtraction]);
+
+  const updateBatch = useCallback((workspaceId: string, update: (batch: BatchRun) => BatchRun) => {
+    updateWorkspace(workspaceId, ws => ({ ...ws, batch: { ...update(ws.batch ?? createBatch()), updatedAt: Date.now() } }));
+  }, [updateWorkspace]);
+
+  const updateBatchCell = useCallback((workspaceId: string, target: BatchTarget, update: (cell: BatchCell) => BatchCell) => {
+    const matches = (c: BatchCell) => c.questionId === target.questionId && c.fileId === target.fileId;
+    updateBatch(workspaceId, batch => batch.cells.some(matches)
+      ? { ...batch, cells: batch.cells.map(c => matches(c) ? update(c) : c) }
+      : { ...batch, cells: [...batch.cells, update({ ...target, status: 'pending' })] });
+  }, [updateBatch]);
+
+  const updateMessages = useCallback((
+    workspaceId: string, 
+    threadId: string, 
+    update: (messages: ChatMessage[]) => ChatMessage[]
+  ) => {
+    updateThread(workspaceId, threadId, t => ({ ...t, messages: update(t.messages), updatedAt: Date.now() }));
+  }, [updateThread]);
+
+  // Rehydrate persisted workspaces and verify them against the API
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      try {
+        const saved = await listWorkspaces();
+        const reconciled = await Promise.all(saved.map(async ws => {
+          try {
+            return await reconcileWorkspace(ws);
+          } catch (e) {
+            console.warn(`Reconciliation skipped for workspace "${ws.name}":`, e);
+            return ws;
+          }
+        }));
+        const lastActiveId = await loadActiveWorkspaceId();
+        const savedSettings = await loadGlobalSettings();
+        const savedPrompts = await listPrompts().catch(e => {
+          console.warn("Failed to load custom prompts:", e);
+          return [] as PromptTemplate[];
+        });
+        if (cancelled) return;
+
+        const restored: Workspace[] = reconciled.map(ws => ({
+          ...ws,
+          threads: ws.threads.map(t => ({ ...t, messages: t.messages.map(m => ({ ...m, isStreaming: false })) }))
+        }));
+        if (restored.length === 0) restored.push(createWorkspace(DEFAULT_WORKSPACE_NAME));
+
+        setGlobalSettings(savedSettings);
+        setCustomPrompts(savedPrompts);
+        setWorkspaces(restored);
+        setActiveWorkspaceId(restored.some(ws => ws.id === lastActiveId) ? lastActiveId : restored[0].id);
+      } catch (e) {
+        console.error("Failed to restore workspaces:", e);
+        if (!cancelled) {
+          const fresh = createWorkspace(DEFAULT_WORKSPACE_NAME);
+          setWorkspaces([fresh]);
+          setActiveWorkspaceId(fresh.id);
+        }
+      } finally {
+        if (!cancelled) setIsRestoring(false);
+      }
+    })();
+    return () => { cancelled = true; };
+  }, []);
+
+  // Persist changed workspaces (debounced so streaming chunks don't hammer IndexedDB)
+  useEffect(() => {
+    if (isRestoring) return;
+    const timer = setTimeout(() => {
+      for (const ws of workspaces) {
+        if (savedSnapshots.current.get(ws.id) === ws) continue;
+        savedSnapshots.current.set(ws.id, ws);
+        saveWorkspace(ws).catch(e => console.error(`Failed to persist workspace "${ws.name}":`, e));
+      }
+    }, PERSIST_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [workspaces, isRestoring]);
+
+  useEffect(() => {
+    if (isRestoring || !activeWorkspaceId) return;
+    saveActiveWorkspaceId(activeWorkspaceId).catch(e => console.error("Failed to persist active workspace:", e));
+  }, [activeWorkspaceId, isRestoring]);
+
+  // Bind the chat session to the selected workspace's store and thread, restoring its history
+  useEffect(() => {
+    if (!activeStoreName) {
+      resetChatSession();
+      return;
+    }
+    const thread = workspacesRef.current
+      .find(ws => ws.id === activeWorkspaceId)?.threads
+      .find(t => t.id === activeThreadId);
+    const branch = thread ? getPathTo(thread.messages, thread.activeLeafId) : [];
+    initializeChatSession(activeStoreName, JSON.parse(settingsKey), buildChatHistory(branch), systemInstruction)
+      .catch(e => console.error("Failed to bind chat session to workspace:", e));
+  }, [activeWorkspaceId, activeThreadId, activeStoreName, settingsKey, systemInstruction]);
 
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
@@ -34,25 +324,78 @@ const App: React.FC = () => {
 
   // Handle local file preview (Client side only)
   useEffect(() => {
-    if (activeFile && !activeFile.content && activeFile.fileHandle) {
-      const mime = activeFile.mimeType;
-      const isText = mime.startsWith('text/') || mime === 'application/json' || mime.includes('sql') || mime.includes('xml') || mime === 'text/markdown';
-      
-      if (isText) {
+    if (activeWorkspaceId && activeFile && !activeFile.content && activeFile.fileHandle) {
+      if (isTextMimeType(activeFile.mimeType)) {
         const reader = new FileReader();
         reader.onload = (e) => {
           const text = e.target?.result as string;
-          setFiles(prev => prev.map(f => f.id === activeFile.id ? { ...f, content: text } : f));
+          updateFiles(activeWorkspaceId, prev => prev.map(f => f.id === activeFile.id ? { ...f, content: text } : f));
         };
         reader.readAsText(activeFile.fileHandle);
-      } else {
-        setFiles(prev => prev.map(f => f.id === activeFile.id ? { ...f, content: `[Preview not available for ${activeFile.type.toUpperCase()} files. They have been indexed for RAG analysis.]` } : f));
+      } else if (activeFile.mimeType !== 'application/pdf') { // PDFs are rendered from the file itself
+        updateFiles(activeWorkspaceId, prev => prev.map(f => f.id === activeFile.id ? { ...f, content: `[Preview not available for ${activeFile.type.toUpperCase()} files. They have been indexed for RAG analysis.]` } : f));
       }
     }
-  }, [activeFileId, activeFile]);
+  }, [activeWorkspaceId, activeFileId, activeFile, updateFiles]);
+
+  // Index the text of the active workspace's files for local search, one file at a time
+  useEffect(() => {
+    const existingIds = new Set(workspacesRef.current.flatMap(ws => ws.files.map(f => f.id)));
+    setFileIndexes(prev => {
+      const removed = Array.from(prev.keys()).filter(id => !existingIds.has(id));
+      if (removed.length === 0) return prev;
+      const next = new Map(prev);
+      removed.forEach(id => next.delete(id));
+      return next;
+    });
+
+    const missing = files.filter(f =>
+      f.fileHandle && !fileIndexesRef.current.has(f.id) && !indexingIds.current.has(f.id) && !unindexableIds.current.has(f.id));
+    if (missing.length === 0) return;
+    missing.forEach(f => indexingIds.current.add(f.id));
+    setIndexingCount(indexingIds.current.size);
+
+    (async () => {
+      for (const file of missing) {
+        try {
+          const index = await buildFileIndex(file);
+          const stillExists = workspacesRef.current.some(ws => ws.files.some(f => f.id === file.id));
+          if (stillExists) setFileIndexes(prev => new Map(prev).set(file.id, index));
+        } catch (e) {
+          console.warn(`Could not index "${file.name}" for search:`, e);
+          unindexableIds.current.add(file.id);
+        } finally {
+          indexingIds.current.delete(file.id);
+          setIndexingCount(indexingIds.current.size);
+        }
+      }
+    })();
+  }, [files]);
 
   const handleInput = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
     setInputValue(e.target.value);
+    updateMention(e.target);
+  };
+
+  /** Track the `@` mention around the caret, if one is being typed. */
+  const updateMention = (textarea: HTMLTextAreaElement) => {
+    const next = activeMention(textarea.value, textarea.selectionStart);
+    setMention(prev => prev?.start === next?.start && prev?.query === next?.query ? prev : next);
+    if (next?.start !== mention?.start || next?.query !== mention?.query) setMentionIndex(0);
+  };
+
+  /** Replace the mention being typed with a scope chip for the picked file. */
+  const pickMention = (file: FileDocument) => {
+    const textarea = textareaRef.current;
+    if (!mention || !textarea) return;
+    const { text, caret } = removeMention(inputValue, mention, textarea.selectionStart);
+    setInputValue(text);
+    setMention(null);
+    addToScope([file.id]);
+    requestAnimationFrame(() => {
+      textarea.focus();
+      textarea.setSelectionRange(caret, caret);
+    });
   };
 
   useEffect(() => {
@@ -66,109 +409,929 @@ const App: React.FC = () => {
     return () => cancelAnimationFrame(rafId);
   }, [inputValue]);
 
-  const handleAddFiles = useCallback(async (newFiles: FileDocument[]) => {
-    const uploadingFiles = newFiles.map(f => ({ ...f, status: 'uploading' as const }));
-    setFiles(prev => [...prev, ...uploadingFiles]);
-    
-    // Upload sequentially to ensure stable store creation
-    for (const fileDoc of newFiles) {
-      try {
-        const result = await uploadFileToGemini(fileDoc);
-        setFiles(prev => prev.map(f => f.id === fileDoc.id ? result : f));
-      } catch (e: any) {
-        setFiles(prev => prev.map(f => f.id === fileDoc.id ? { 
-          ...f, 
-          status: 'error', 
-          error: e.message || 'System failed to index this document.' 
-        } : f));
+  /** Open a file in the preview pane, optionally highlighting a cited passage. */
+  const selectFile = useCallback((id: string | null, highlight: SourceReference | null = null) => {
+    setActiveFileId(id);
+    setPreviewHighlight(highlight);
+    setDiffPair(null);
+  }, []);
+
+  // Load both sides of a version comparison
+  useEffect(() => {
+    if (!diffPair) return;
+    const ws = workspacesRef.current.find(w => w.id === activeWorkspaceId);
+    const left = ws?.files.find(f => f.id === diffPair.leftId);
+    const right = ws?.files.find(f => f.id === diffPair.rightId);
+    if (!left || !right) return;
+
+    let cancelled = false;
+    setDiffTexts({});
+    Promise.all([readFileText(left), readFileText(right)])
+      .then(([before, after]) => { if (!cancelled) setDiffTexts({ before, after }); })
+      .catch(e => { if (!cancelled) setDiffTexts({ error: e.message || 'Could not read these versions.' }); });
+    return () => { cancelled = true; };
+  }, [diffPair, activeWorkspaceId]);
+
+  const handleOpenSource = useCallback((source: SourceReference) => {
+    const file = findFileByName(files, source.documentName);
+    if (!file) {
+      alert(`"${source.documentName}" is no longer part of this workspace.`);
+      return;
+    }
+    selectFile(file.id, source);
+  }, [files, selectFile]);
+
+  /** Return the workspace's store, creating it once even if several uploads race. */
+  const ensureWorkspaceStore = useCallback(async (ws: Workspace): Promise<string> => {
+    if (ws.storeName) return ws.storeName;
+
+    let pending = pendingStores.current.get(ws.id);
+    if (!pending) {
+      pending = createFileSearchStore(ws.name);
+      pendingStores.current.set(ws.id, pending);
+    }
+    try {
+      const storeName = await pending;
+      updateWorkspace(ws.id, current => ({ ...current, storeName }));
+      return storeName;
+    } finally {
+      pendingStores.current.delete(ws.id);
+    }
+  }, [updateWorkspace]);
+
+  /**
+   * Take the other versions of a freshly indexed document out of the search store, so answers
+   * only draw on one version. They stay in the workspace as archived versions.
+   */
+  const archiveOtherVersions = useCallback(async (workspaceId: string, indexed: FileDocument) => {
+    const ws = workspacesRef.current.find(w => w.id === workspaceId);
+    if (!ws) return;
+    const others = ws.files.filter(f =>
+      f.id !== indexed.id && documentIdOf(f) === documentIdOf(indexed) && f.status === 'active'
+    );
+    await Promise.all(others.map(async file => {
+      const { indexError } = await deleteRemoteFile(file, ws.storeName);
+      if (indexError) {
+        // Leave it indexed rather than claim it was archived
+        console.warn(`Could not archive "${file.name}" v${versionOf(file)}:`, indexError);
+        return;
       }
+      updateFiles(workspaceId, prev => prev.map(f => f.id === file.id ? { 
+        ...f, 
+        status: 'archived', 
+        uploadUri: undefined, 
+        storeDocumentName: undefined, 
+        stale: undefined 
+      } : f));
+    }));
+  }, [updateFiles]);
+
+  /** Take one queued file through upload, processing and import. */
+  const startUpload = useCallback(async (workspaceId: string, storeName: string, fileDoc: FileDocument) => {
+    const controller = new AbortController();
+    uploadControllers.current.set(fileDoc.id, controller);
+    const setStatus = (patch: Partial<FileDocument>) =>
+      updateFiles(workspaceId, prev => prev.map(f => f.id === fileDoc.id ? { ...f, ...patch } : f));
+    setStatus({ status: 'uploading', error: undefined });
+
+    let result: FileDocument;
+    try {
+      result = await uploadFileToGemini(fileDoc, storeName, {
+        signal: controller.signal,
+        onPhase: phase => { if (!controller.signal.aborted) setStatus({ status: phase }); },
+        onStoreDocument: storeDocumentName => { if (!controller.signal.aborted) setStatus({ storeDocumentName, scopable: true }); }
+      });
+    } catch (e: any) {
+      result = { ...fileDoc, status: 'error', error: e.message || 'System failed to index this document.' };
     }
 
+    // Whoever paused or cancelled the upload has already released its slot and updated the file
+    if (uploadControllers.current.get(fileDoc.id) !== controller) return;
+    uploadControllers.current.delete(fileDoc.id);
+    updateFiles(workspaceId, prev => prev.map(f => f.id === fileDoc.id ? { ...result, content: f.content } : f));
+    if (result.status === 'active') archiveOtherVersions(workspaceId, result);
+  }, [updateFiles, archiveOtherVersions]);
+
+  /** Follow an import that was still being indexed when the page was last closed. */
+  const trackImport = useCallback(async (workspaceId: string, fileId: string, documentName: string) => {
+    const controller = new AbortController();
+    uploadControllers.current.set(fileId, controller);
+
+    let patch: Partial<FileDocument>;
     try {
-      await initializeChatSession();
+      await waitForDocumentIndexed(documentName, controller.signal);
+      patch = { status: 'active', error: undefined };
     } catch (e: any) {
-       console.error("Session refresh failed after upload:", e);
+      patch = { status: 'error', error: e.message || 'The search store failed to index this document.' };
     }
+
+    if (uploadControllers.current.get(fileId) !== controller) return;
+    uploadControllers.current.delete(fileId);
+    updateFiles(workspaceId, prev => prev.map(f => f.id === fileId ? { ...f, ...patch } : f));
+  }, [updateFiles]);
+
+  /** Abort an in-flight upload and free its slot. */
+  const abortUpload = useCallback((fileId: string) => {
+    const controller = uploadControllers.current.get(fileId);
+    if (!controller) return;
+    uploadControllers.current.delete(fileId);
+    controller.abort();
   }, []);
 
-  const clearChat = () => {
-    if (window.confirm("Clear all messages in this conversation?")) {
-      setMessages([]);
-      initializeChatSession().catch(console.error);
+  // Start queued files whenever a slot is free. Uploads keep running across workspace switches.
+  useEffect(() => {
+    if (isRestoring) return;
+    let freeSlots = MAX_CONCURRENT_UPLOADS - uploadControllers.current.size;
+    for (const ws of workspaces) {
+      if (!ws.storeName) continue; // Still being created; queued files wait for it
+      for (const file of ws.files) {
+        if (freeSlots <= 0) return;
+        if (uploadControllers.current.has(file.id)) continue;
+        if (file.status === 'pending') {
+          startUpload(ws.id, ws.storeName, file);
+        } else if (file.status === 'importing' && file.storeDocumentName) {
+          trackImport(ws.id, file.id, file.storeDocumentName);
+        } else {
+          continue;
+        }
+        freeSlots--;
+      }
+    }
+  }, [workspaces, isRestoring, startUpload, trackImport]);
+
+  /** Put files back in the queue, creating the workspace store first if it is missing. */
+  const enqueueUploads = useCallback(async (ws: Workspace, ids: Set<string>) => {
+    updateFiles(ws.id, prev => prev.map(f => ids.has(f.id) ? { ...f, status: 'pending', error: undefined, stale: undefined } : f));
+    try {
+      await ensureWorkspaceStore(ws);
+    } catch (e: any) {
+      updateFiles(ws.id, prev => prev.map(f => ids.has(f.id) ? { 
+        ...f, 
+        status: 'error', 
+        error: `Could not create a search store: ${e.message || 'unknown error'}` 
+      } : f));
+    }
+  }, [ensureWorkspaceStore, updateFiles]);
+
+  const addFilesToWorkspace = useCallback(async (ws: Workspace, newFiles: FileDocument[]) => {
+    if (newFiles.length === 0) return;
+    // A file named like an existing document becomes its next version
+    const versioned = assignVersions(ws.files, newFiles);
+    const newDocumentIds = versioned.filter(f => f.documentId).map(f => f.documentId!);
+    updateFiles(ws.id, prev => [...prev, ...versioned]);
+    setExpandedDocumentIds(prev => Array.from(new Set([...prev, ...newDocumentIds])));
+    await enqueueUploads(ws, new Set(versioned.map(f => f.id)));
+  }, [enqueueUploads, updateFiles]);
+
+  const handleAddFiles = useCallback(async (newFiles: FileDocument[]) => {
+    if (!activeWorkspace) return;
+    const workspaceId = activeWorkspace.id;
+
+    // Files saved before hashing existed get their hash the first time they are compared
+    const unhashed = activeWorkspace.files.filter(f => !f.contentHash && f.fileHandle);
+    const hashes = new Map(await Promise.all(unhashed.map(async f => [f.id, await hashFile(f.fileHandle!)] as const)));
+    if (hashes.size > 0) {
+      updateFiles(workspaceId, prev => prev.map(f => hashes.has(f.id) ? { ...f, contentHash: hashes.get(f.id) } : f));
+    }
+
+    // Files may have been added, removed or versioned while hashing; compare against the latest list
+    const ws = workspacesRef.current.find(w => w.id === workspaceId);
+    if (!ws) return;
+    const existing = ws.files.map(f => hashes.has(f.id) ? { ...f, contentHash: hashes.get(f.id) } : f);
+    const matches = findDuplicates(existing, newFiles);
+    if (matches.length > 0) {
+      setDuplicateReview({ workspaceId, files: newFiles, matches });
+      return;
+    }
+    await addFilesToWorkspace(ws, newFiles);
+  }, [activeWorkspace, addFilesToWorkspace, updateFiles]);
+
+  const handleResolveDuplicates = async (resolutions: Record<string, DuplicateResolution>) => {
+    if (!duplicateReview) return;
+    setDuplicateReview(null);
+    const { toAdd, toReplace } = applyDuplicateResolutions(duplicateReview.files, duplicateReview.matches, resolutions);
+    // Old copies go first, so a replacement never sits next to the file it replaces
+    if (toReplace.length > 0) await removeFiles(duplicateReview.workspaceId, toReplace);
+    const ws = workspacesRef.current.find(w => w.id === duplicateReview.workspaceId);
+    if (ws) await addFilesToWorkspace(ws, toAdd);
+  };
+
+  const handleRetryFiles = (ids: string[]) => {
+    if (activeWorkspace) enqueueUploads(activeWorkspace, new Set(ids));
+  };
+
+  const handlePauseFiles = (ids: string[]) => {
+    if (!activeWorkspaceId) return;
+    const targets = new Set(ids);
+    ids.forEach(abortUpload);
+    updateFiles(activeWorkspaceId, prev => prev.map(f => targets.has(f.id) && isInUploadQueue(f.status) ? { ...f, status: 'paused' } : f));
+  };
+
+  const handleResumeFiles = (ids: string[]) => {
+    if (!activeWorkspace) return;
+    const targets = new Set(ids);
+    enqueueUploads(activeWorkspace, new Set(files.filter(f => targets.has(f.id) && f.status === 'paused').map(f => f.id)));
+  };
+
+  /** Drop files that never finished uploading; anything already sent is cleaned up by the aborted upload. */
+  const handleCancelUploads = (ids: string[]) => {
+    if (!activeWorkspaceId) return;
+    const targets = new Set(ids);
+    ids.forEach(abortUpload);
+    updateFiles(activeWorkspaceId, prev => prev.filter(f => !targets.has(f.id)));
+    if (activeFileId && targets.has(activeFileId)) selectFile(null);
+  };
+
+  const handleNewThread = () => {
+    if (!activeWorkspaceId) return;
+    // Reuse the current thread if nothing has been asked in it yet
+    if (activeThread && activeThread.messages.length === 0) return;
+    const thread = createThread();
+    updateWorkspace(activeWorkspaceId, ws => ({ ...ws, threads: [...ws.threads, thread], activeThreadId: thread.id }));
+  };
+
+  const handleSelectThread = (threadId: string) => {
+    if (!activeWorkspaceId) return;
+    updateWorkspace(activeWorkspaceId, ws => ({ ...ws, activeThreadId: threadId }));
+  };
+
+  const handleRenameThread = (threadId: string, title: string) => {
+    if (!activeWorkspaceId) return;
+    updateThread(activeWorkspaceId, threadId, t => ({ ...t, title, isTitleCustom: true }));
+  };
+
+  const handleDeleteThread = (threadId: string) => {
+    if (!activeWorkspaceId) return;
+    updateWorkspace(activeWorkspaceId, ws => {
+      const threads = ws.threads.filter(t => t.id !== threadId);
+      if (threads.length === 0) threads.push(createThread());
+      const activeId = ws.activeThreadId === threadId
+        ? [...threads].sort((a, b) => b.updatedAt - a.updatedAt)[0].id
+        : ws.activeThreadId;
+      return { ...ws, threads, activeThreadId: activeId };
+    });
+  };
+
+  /** Replace the placeholder title of a fresh thread with a generated one. */
+  const autoTitleThread = async (workspaceId: string, threadId: string, question: string, answer: string) => {
+    try {
+      const title = await generateThreadTitle(question, answer);
+      if (title) updateThread(workspaceId, threadId, t => t.isTitleCustom ? t : { ...t, title });
+    } catch (e) {
+      console.warn("Failed to generate conversation title:", e);
     }
   };
 
-  const removeFile = useCallback(async (id: string) => {
-    const fileToRemove = files.find(f => f.id === id);
-    if (!fileToRemove) return;
+  /**
+   * Remove files from the workspace and from the search store.
+   * Files whose store document survives stay listed as errors so the user knows they can still be cited.
+   */
+  const removeFiles = useCallback(async (workspaceId: string, ids: string[]) => {
+    const ws = workspacesRef.current.find(w => w.id === workspaceId);
+    if (!ws) return;
+    const storeName = ws.storeName;
+    const targets = ws.files.filter(f => ids.includes(f.id));
+    if (targets.length === 0) return;
 
-    setFiles(prev => prev.filter(f => f.id !== id));
-    if (activeFileId === id) setActiveFileId(null);
+    const targetIds = new Set(targets.map(f => f.id));
+    targets.forEach(f => abortUpload(f.id));
+    updateFiles(workspaceId, prev => prev.filter(f => !targetIds.has(f.id)));
+    if (activeFileId && targetIds.has(activeFileId)) selectFile(null);
     setConfirmDeleteId(null);
+    setSelectedFileIds(prev => prev.filter(id => !targetIds.has(id)));
 
-    if (fileToRemove.uploadUri) {
-      try {
-        await deleteFileFromGemini(fileToRemove.uploadUri);
-        // Refresh session to clear context of deleted file
-        await initializeChatSession();
-      } catch (e) {
-        console.error("Failed to clean up remote file", e);
-      }
+    const results = await Promise.all(targets.map(async file => ({ file, ...await deleteRemoteFile(file, storeName) })));
+    const stillIndexed = results.filter(r => r.indexError);
+    const uploadLeftovers = results.filter(r => r.uploadError && !r.indexError);
+
+    if (stillIndexed.length > 0) {
+      updateFiles(workspaceId, prev => [...prev, ...stillIndexed.map(r => ({
+        ...r.file,
+        status: 'error' as const,
+        error: `Could not remove this file from the search index (${r.indexError}). It may still be cited; delete it again to retry.`
+      }))]);
+    }
+    if (stillIndexed.length > 0 || uploadLeftovers.length > 0) {
+      const lines = [
+        ...stillIndexed.map(r => `• ${r.file.name}: still in the search index (${r.indexError})`),
+        ...uploadLeftovers.map(r => `• ${r.file.name}: raw upload not deleted, it expires within 48 hours (${r.uploadError})`)
+      ];
+      alert(`Removed ${targets.length - stillIndexed.length} of ${targets.length} file(s). Some remote data could not be deleted:\n\n${lines.join('\n')}`);
     }
-  }, [files, activeFileId]);
 
-  const handleSendMessage = async () => {
-    const trimmedInput = inputValue.trim();
-    if (!trimmedInput || isProcessing) return;
+    // Refresh session to clear context of deleted files
+    if (storeName && workspaceId === activeWorkspaceId) {
+      initializeChatSession(storeName, effectiveSettings, buildChatHistory(messages), systemInstruction)
+        .catch(e => console.error("Failed to refresh chat session:", e));
+    }
+  }, [activeWorkspaceId, messages, activeFileId, effectiveSettings, systemInstruction, abortUpload, updateFiles, selectFile]);
 
-    if (activeCount === 0) {
-      alert("Please ensure at least one document is successfully indexed (marked with green check).");
+  const handleRemoveFiles = (ids: string[]) => {
+    if (activeWorkspaceId) removeFiles(activeWorkspaceId, ids);
+  };
+
+  const handleDeleteSelected = () => {
+    if (selectedFileIds.length === 0) return;
+    if (!window.confirm(`Delete ${selectedFileIds.length} selected file(s) from this workspace and its search index?`)) return;
+    handleRemoveFiles(selectedFileIds);
+    setIsSelectingFiles(false);
+  };
+
+  const handleRemoveErrored = () => {
+    const errored = files.filter(f => f.status === 'error');
+    if (errored.length === 0) return;
+    if (!window.confirm(`Remove ${errored.length} file(s) that failed to index?`)) return;
+    handleRemoveFiles(errored.map(f => f.id));
+  };
+
+  const toggleDocumentExpanded = (documentId: string) => {
+    setExpandedDocumentIds(prev => prev.includes(documentId) ? prev.filter(id => id !== documentId) : [...prev, documentId]);
+  };
+
+  const handleAskVersion = (fileId: string) => {
+    setVersionTargetId(fileId);
+    setScopeFileIds([]);
+    textareaRef.current?.focus();
+  };
+
+  /** Show two versions, or any two text files, side by side in the preview pane. */
+  const handleCompareVersions = (leftId: string, rightId: string) => {
+    setActiveFileId(leftId);
+    setPreviewHighlight(null);
+    setDiffPair({ leftId, rightId });
+  };
+
+  /**
+   * Change a file's tags. The store cannot update a document's metadata in place, so an indexed
+   * file is removed from the store and imported again with its new tags.
+   */
+  const handleSaveMetadata = async (fileId: string, tags: MetadataTag[]) => {
+    setEditingTagsId(null);
+    if (!activeWorkspace) return;
+    const ws = activeWorkspace;
+    const file = ws.files.find(f => f.id === fileId);
+    if (!file || sameTags(file.metadata, tags)) return;
+    const metadata = tags.length > 0 ? tags : undefined;
+
+    if (file.status !== 'active') {
+      // Not in the store, so the next upload picks up the new tags
+      updateFiles(ws.id, prev => prev.map(f => f.id === fileId ? { ...f, metadata } : f));
       return;
     }
+    if (!file.fileHandle) {
+      alert(`The content of "${file.name}" is no longer stored locally, so it cannot be re-indexed with new tags.`);
+      return;
+    }
+    const [failure] = await reimportFiles(ws, [file], { metadata });
+    if (failure) alert(`Could not update the tags of "${file.name}": ${failure.indexError}`);
+  };
 
-    const userMsg: ChatMessage = {
-      id: crypto.randomUUID(),
-      role: MessageRole.USER,
-      text: trimmedInput,
-      timestamp: Date.now()
-    };
+  /**
+   * Replace indexed files' store documents with fresh imports, applying `patch` to the files that
+   * could be removed from the store. Returns the ones that could not.
+   */
+  const reimportFiles = async (ws: Workspace, targets: FileDocument[], patch: Partial<FileDocument> = {}) => {
+    const results = await Promise.all(targets.map(async file => ({ file, ...await deleteRemoteFile(file, ws.storeName) })));
+    const removed = new Set(results.filter(r => !r.indexError).map(r => r.file.id));
+    if (removed.size > 0) {
+      updateFiles(ws.id, prev => prev.map(f => removed.has(f.id) ? { ...f, ...patch, uploadUri: undefined, storeDocumentName: undefined } : f));
+      await enqueueUploads(ws, removed);
+    }
+    return results.filter(r => r.indexError);
+  };
 
-    setMessages(prev => [...prev, userMsg]);
-    setInputValue('');
+  const handleThreadFilterChange = (metadataFilter: string | undefined) => {
+    if (activeWorkspaceId && activeThreadId) {
+      updateThread(activeWorkspaceId, activeThreadId, t => ({ ...t, metadataFilter, updatedAt: Date.now() }));
+    }
+  };
+
+  const toggleFileSelection = (id: string) => {
+    setSelectedFileIds(prev => prev.includes(id) ? prev.filter(x => x !== id) : [...prev, id]);
+  };
+
+  const handleOpenSearchHit = (hit: SearchHit) => {
+    const file = files.find(f => f.id === hit.fileId);
+    if (!file) return;
+    selectFile(file.id, {
+      documentName: file.name,
+      passage: hit.line.text.trim(),
+      pageNumber: hit.line.page,
+      lineNumber: hit.line.line
+    });
+  };
+
+  /** Limit the next question to these files instead of a single version. */
+  const addToScope = (ids: string[]) => {
+    setScopeFileIds(prev => Array.from(new Set([...prev, ...ids])));
+    setVersionTargetId(null);
+  };
+
+  const handleAskSelected = () => {
+    const indexed = files.filter(f => selectedFileIds.includes(f.id) && f.status === 'active');
+    if (indexed.length === 0) return;
+    addToScope(indexed.map(f => f.id));
+    setIsSelectingFiles(false);
+    setSelectedFileIds([]);
+    textareaRef.current?.focus();
+  };
+
+  const handleCompareSelected = () => {
+    if (selectedFileIds.length !== 2) return;
+    const [leftId, rightId] = selectedFileIds; // A is the file selected first
+    setIsSelectingFiles(false);
+    setSelectedFileIds([]);
+    handleCompareFiles(leftId, rightId);
+  };
+
+  const handleSelectWorkspace = (id: string) => {
+    setActiveWorkspaceId(id);
+    selectFile(null);
+    setConfirmDeleteId(null);
+    setIsSelectingFiles(false);
+    setSelectedFileIds([]);
+    setVersionTargetId(null);
+    setEditingTagsId(null);
+    setQuestionFilter(undefined);
+    setScopeFileIds([]);
+    setMainView('chat');
+  };
+
+  const handleCreateWorkspace = (name: string) => {
+    const ws = createWorkspace(name);
+    setWorkspaces(prev => [...prev, ws]);
+    handleSelectWorkspace(ws.id);
+  };
+
+  const handleRenameWorkspace = (id: string, name: string) => {
+    updateWorkspace(id, ws => ({ ...ws, name }));
+  };
+
+  const handleExportBundle = async (includeFiles: boolean) => {
+    const ws = workspaces.find(w => w.id === bundleExportId);
+    if (!ws) return;
+    downloadBlob(await createBundle(ws, customPrompts, includeFiles), `${safeFileName(ws.name, 'workspace')}.workspace.zip`);
+  };
+
+  /** Rebuild an exported workspace as a new one, re-uploading its files into a fresh store. */
+  const handleImportBundle = async (bundle: File) => {
+    setBundleImport({ phase: 'reading', read: { done: 0, total: 0 }, uploadIds: [], conflicts: [] });
+    try {
+      const result = await readBundle(bundle, workspacesRef.current, customPrompts, (done, total) =>
+        setBundleImport(prev => prev && { ...prev, read: { done, total } }));
+      result.prompts.forEach(handleSavePrompt);
+      setWorkspaces(prev => [...prev, result.workspace]);
+      handleSelectWorkspace(result.workspace.id);
+      setBundleImport(prev => prev && {
+        ...prev,
+        phase: 'indexing',
+        workspaceId: result.workspace.id,
+        uploadIds: result.uploadIds,
+        conflicts: result.conflicts
+      });
+      if (result.uploadIds.length > 0) await enqueueUploads(result.workspace, new Set(result.uploadIds));
+    } catch (e: any) {
+      setBundleImport(prev => prev && { ...prev, phase: 'failed', error: e.message || 'The bundle could not be imported.' });
+    }
+  };
+
+  const handleDeleteWorkspace = async (id: string) => {
+    const ws = workspaces.find(w => w.id === id);
+    if (!ws) return;
+
+    const remaining = workspaces.filter(w => w.id !== id);
+    if (remaining.length === 0) remaining.push(createWorkspace(DEFAULT_WORKSPACE_NAME));
+    ws.files.forEach(f => abortUpload(f.id));
+    extractionControllers.current.get(id)?.abort();
+    batchControllers.current.get(id)?.abort();
+    comparisonControllers.current.get(id)?.abort();
+    setWorkspaces(remaining);
+    if (activeWorkspaceId === id) handleSelectWorkspace(remaining[0].id);
+    savedSnapshots.current.delete(id);
+
+    try {
+      await deleteWorkspace(id);
+    } catch (e) {
+      console.error(`Failed to remove workspace "${ws.name}" from storage:`, e);
+    }
+
+    if (ws.storeName) {
+      try {
+        await deleteFileSearchStore(ws.storeName);
+      } catch (e: any) {
+        alert(`Workspace "${ws.name}" was removed, but its search store could not be deleted: ${e.message || 'unknown error'}`);
+      }
+    }
+    // Raw uploads expire on their own, so leftovers are not worth interrupting the user for
+    await Promise.all(ws.files.filter(f => f.uploadUri).map(f => deleteFileFromGemini(f.uploadUri!).catch(e => {
+      console.warn(`Failed to delete upload of "${f.name}":`, e);
+    })));
+  };
+
+  /**
+   * Stream a model answer to `userMsg`, rebuilding the session history from the branch above it.
+   * `history` must contain the ancestors of `userMsg`.
+   */
+  const streamAnswer = async (
+    workspaceId: string, 
+    threadId: string, 
+    storeName: string | null, 
+    userMsg: ChatMessage, 
+    history: ChatMessage[]
+  ) => {
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
     setIsProcessing(true);
 
     const modelMsgId = crypto.randomUUID();
-    setMessages(prev => [...prev, {
-      id: modelMsgId,
-      role: MessageRole.MODEL,
-      text: '', 
-      timestamp: Date.now(),
-      isStreaming: true
-    }]);
+    const settings = effectiveSettings;
+    updateThread(workspaceId, threadId, t => ({
+      ...t,
+      messages: [...t.messages, {
+        id: modelMsgId,
+        parentId: userMsg.id,
+        role: MessageRole.MODEL,
+        text: '', 
+        timestamp: Date.now(),
+        isStreaming: true,
+        generation: settings
+      }],
+      activeLeafId: modelMsgId,
+      updatedAt: Date.now()
+    }));
+
+    const onChunk = (chunk: string, metadata?: GroundingMetadata) => {
+      updateMessages(workspaceId, threadId, prev => prev.map(msg => 
+        msg.id === modelMsgId 
+          ? { ...msg, text: msg.text + chunk, groundingMetadata: metadata || msg.groundingMetadata } 
+          : msg
+      ));
+    };
 
     try {
-      await sendMessageStream(userMsg.text, (chunk, metadata) => {
-        setMessages(prev => prev.map(msg => 
-          msg.id === modelMsgId 
-            ? { ...msg, text: msg.text + chunk, groundingMetadata: metadata || msg.groundingMetadata } 
-            : msg
-        ));
-      });
+      const branch = getPathTo(history, userMsg.parentId ?? null);
+      let answer: string;
+      if (userMsg.versionFileId) {
+        // Older versions are not in the store, so the model reads the file itself
+        const file = workspacesRef.current.find(ws => ws.id === workspaceId)?.files.find(f => f.id === userMsg.versionFileId);
+        if (!file) throw new Error("The document version this question was asked about has been deleted.");
+        answer = await askAboutFile(
+          file, userMsg.text, buildChatHistory(branch), settings, systemInstruction, onChunk, controller.signal
+        );
+      } else {
+        if (!storeName) throw new Error("Upload documents to this workspace first.");
+        const thread = workspacesRef.current.find(ws => ws.id === workspaceId)?.threads.find(t => t.id === threadId);
+        const metadataFilter = combineFilters(
+          thread?.metadataFilter,
+          userMsg.metadataFilter,
+          userMsg.scopeFileIds?.length ? fileScopeFilter(userMsg.scopeFileIds) : undefined
+        );
+        await initializeChatSession(storeName, settings, buildChatHistory(branch), systemInstruction, metadataFilter);
+        answer = await sendMessageStream(userMsg.text, onChunk, controller.signal);
+      }
+
+      if (!userMsg.parentId && answer) autoTitleThread(workspaceId, threadId, userMsg.text, answer);
     } catch (error: any) {
-      setMessages(prev => prev.map(msg => 
+      if (controller.signal.aborted || isAbortError(error)) {
+        // Keep whatever arrived; the service has already aligned the session history with it
+        updateMessages(workspaceId, threadId, prev => prev.map(msg => 
+          msg.id === modelMsgId ? { ...msg, isStreaming: false, isStopped: true } : msg
+        ));
+        return;
+      }
+      updateMessages(workspaceId, threadId, prev => prev.map(msg => 
         msg.id === modelMsgId ? { 
           ...msg, 
           text: `Error: ${error.message || "An unexpected error occurred during RAG analysis. Please try again."}`,
-          isStreaming: false 
+          isStreaming: false,
+          isError: true
         } : msg
       ));
     } finally {
+      abortControllerRef.current = null;
       setIsProcessing(false);
-      setMessages(prev => prev.map(msg => msg.id === modelMsgId ? { ...msg, isStreaming: false } : msg));
+      updateMessages(workspaceId, threadId, prev => prev.map(msg => msg.id === modelMsgId ? { ...msg, isStreaming: false } : msg));
+    }
+  };
+
+  /**
+   * Add a user turn under `parentId` (a new message, or an edited sibling) and answer it.
+   * `scope` narrows what the question is asked against and is kept on the message for re-runs.
+   */
+  const submitUserTurn = async (text: string, parentId: string | null, scope: TurnScope = {}) => {
+    if (!activeWorkspace || !activeThread || isProcessing) return;
+
+    if (!scope.versionFileId && (!activeStoreName || activeCount === 0)) {
+      alert("Please ensure at least one document is successfully indexed (marked with green check).");
+      return;
+    }
+
+    const workspaceId = activeWorkspace.id;
+    const threadId = activeThread.id;
+    const history = activeThread.messages;
+    const userMsg: ChatMessage = {
+      id: crypto.randomUUID(),
+      parentId,
+      role: MessageRole.USER,
+      text,
+      timestamp: Date.now(),
+      ...scope
+    };
+    updateThread(workspaceId, threadId, t => ({
+      ...t,
+      title: t.messages.length === 0 && !t.isTitleCustom ? fallbackThreadTitle([userMsg]) : t.title,
+      messages: [...t.messages, userMsg],
+      activeLeafId: userMsg.id,
+      updatedAt: Date.now()
+    }));
+    await streamAnswer(workspaceId, threadId, activeStoreName, userMsg, history);
+  };
+
+  const handleSendMessage = async () => {
+    const trimmedInput = inputValue.trim();
+    if (!trimmedInput || isProcessing || !activeThread) return;
+
+    // Files indexed before imports carried their id cannot be singled out by retrieval
+    const unscopable = scopeFiles.filter(f => f.status === 'active' && !f.scopable);
+    if (unscopable.length > 0 && activeWorkspace) {
+      const names = unscopable.map(f => f.name).join(', ');
+      if (window.confirm(`${names} must be re-indexed before questions can be limited to ${unscopable.length === 1 ? 'it' : 'them'}. Re-index now? Ask again once indexing finishes.`)) {
+        const failures = await reimportFiles(activeWorkspace, unscopable.filter(f => f.fileHandle));
+        if (failures.length > 0) alert(`Could not re-index: ${failures.map(r => `${r.file.name} (${r.indexError})`).join(', ')}`);
+      }
+      return;
+    }
+    const notIndexed = scopeFiles.filter(f => f.status !== 'active');
+    if (notIndexed.length > 0) {
+      alert(`Not indexed yet: ${notIndexed.map(f => f.name).join(', ')}. Remove ${notIndexed.length === 1 ? 'it' : 'them'} from the question's files or wait for indexing.`);
+      return;
+    }
+
+    setInputValue('');
+    setQuestionFilter(undefined);
+    setScopeFileIds([]);
+    await submitUserTurn(trimmedInput, activeThread.activeLeafId, {
+      versionFileId: versionTarget?.id,
+      metadataFilter: questionFilter,
+      scopeFileIds: scopeFiles.length > 0 ? scopeFiles.map(f => f.id) : undefined
+    });
+  };
+
+  const handleEditMessage = async (messageId: string, text: string) => {
+    const original = allMessages.find(m => m.id === messageId);
+    if (original) {
+      await submitUserTurn(text, original.parentId ?? null, {
+        versionFileId: original.versionFileId,
+        metadataFilter: original.metadataFilter,
+        scopeFileIds: original.scopeFileIds
+      });
+    }
+  };
+
+  const handleRegenerate = async (messageId: string) => {
+    if (!activeWorkspace || !activeThread || isProcessing) return;
+    const original = allMessages.find(m => m.id === messageId);
+    const userMsg = allMessages.find(m => m.id === original?.parentId);
+    if (!userMsg) return;
+    await streamAnswer(activeWorkspace.id, activeThread.id, activeStoreName, userMsg, allMessages);
+  };
+
+  const handleSwitchBranch = (messageId: string, direction: -1 | 1) => {
+    const info = branchInfo.get(messageId);
+    if (!info || !activeWorkspaceId || !activeThreadId) return;
+    const targetId = info.siblingIds[info.index + direction];
+    if (!targetId) return;
+    updateThread(activeWorkspaceId, activeThreadId, t => ({ ...t, activeLeafId: findLatestLeaf(t.messages, targetId) }));
+  };
+
+  const handleSaveSettings = (global: GenerationSettings, override: Partial<GenerationSettings>) => {
+    setGlobalSettings(global);
+    saveGlobalSettings(global).catch(e => console.error("Failed to persist settings:", e));
+
+    const cleanOverride = Object.fromEntries(
+      Object.entries(override).filter(([, value]) => value !== undefined)
+    ) as Partial<GenerationSettings>;
+    if (activeWorkspaceId) {
+      updateWorkspace(activeWorkspaceId, ws => ({
+        ...ws,
+        settingsOverride: Object.keys(cleanOverride).length > 0 ? cleanOverride : undefined
+      }));
     }
+    setIsSettingsOpen(false);
+  };
+
+  const handleSavePrompt = (prompt: PromptTemplate) => {
+    setCustomPrompts(prev => [prompt, ...prev.filter(p => p.id !== prompt.id)]);
+    savePrompt(prompt).catch(e => console.error("Failed to persist prompt:", e));
+  };
+
+  const handleDeletePrompt = (id: string) => {
+    setCustomPrompts(prev => prev.filter(p => p.id !== id));
+    deletePrompt(id).catch(e => console.error("Failed to delete prompt:", e));
+  };
+
+  const handleApplyPrompt = (scope: PromptScope, selection: PromptSelection | undefined) => {
+    if (!activeWorkspaceId) return;
+    if (scope === 'workspace') {
+      updateWorkspace(activeWorkspaceId, ws => ({ ...ws, promptSelection: selection }));
+    } else if (activeThreadId) {
+      updateThread(activeWorkspaceId, activeThreadId, t => ({ ...t, promptSelection: selection }));
+    }
+    setIsPromptLibraryOpen(false);
+  };
+
+  const handleExportThread = (format: ExportFormat) => {
+    if (activeWorkspace && activeThread) exportThread(activeWorkspace, activeThread, format);
+  };
+
+  /** Open the extraction table, batch grid or comparison in place of the chat, or go back to the chat. */
+  const handleToggleView = (view: 'extraction' | 'batch' | 'comparison') => {
+    if (!activeWorkspace) return;
+    if (mainView === view) {
+      setMainView('chat');
+      return;
+    }
+    if (view === 'extraction' && !activeWorkspace.extraction) updateExtraction(activeWorkspace.id, ext => ext);
+    if (view === 'batch' && !activeWorkspace.batch) updateBatch(activeWorkspace.id, batch => batch);
+    setMainView(view);
+  };
+
+  /** Read each file against the extraction schema, a few at a time. Runs on after switching views. */
+  const handleRunExtraction = async (fileIds: string[]) => {
+    const ws = activeWorkspace;
+    if (!ws?.extraction || fileIds.length === 0 || extractionControllers.current.has(ws.id)) return;
+    const workspaceId = ws.id;
+    const { fields } = ws.extraction;
+    const { prompt, responseSchema } = buildExtractionRequest(fields);
+    const settings = effectiveSettings;
+    const controller = new AbortController();
+    extractionControllers.current.set(workspaceId, controller);
+    setExtractingIds(prev => [...prev, workspaceId]);
+    fileIds.forEach(id => updateExtractionRow(workspaceId, id, row => ({ ...row, status: 'pending', error: undefined })));
+
+    await runWithConcurrency(fileIds, MAX_CONCURRENT_EXTRACTIONS, async fileId => {
+      updateExtractionRow(workspaceId, fileId, row => ({ ...row, status: 'running' }));
+      try {
+        const file = workspacesRef.current.find(w => w.id === workspaceId)?.files.find(f => f.id === fileId);
+        if (!file) throw new Error('This document is no longer part of the workspace.');
+        const result = await generateFromFiles([file], prompt, responseSchema, settings, controller.signal);
+        const cells = parseExtractionResult(fields, result);
+        updateExtractionRow(workspaceId, fileId, () => ({ fileId, status: 'done', cells, extractedAt: Date.now() }));
+      } catch (e: any) {
+        if (!isAbortError(e)) {
+          updateExtractionRow(workspaceId, fileId, row => ({ ...row, status: 'error', error: e.message || 'Extraction failed.' }));
+        }
+      }
+    }, controller.signal);
+
+    if (controller.signal.aborted) {
+      const ids = new Set(fileIds);
+      updateExtraction(workspaceId, ext => ({
+        ...ext,
+        rows: ext.rows.map(r => ids.has(r.fileId) && (r.status === 'pending' || r.status === 'running')
+          ? { ...r, status: 'error', error: 'Stopped before this document was extracted.' }
+          : r)
+      }));
+    }
+    extractionControllers.current.delete(workspaceId);
+    setExtractingIds(prev => prev.filter(id => id !== workspaceId));
+  };
+
+  const handleEditExtractionCell = (fileId: string, fieldId: string, value: ExtractedValue) => {
+    if (!activeWorkspace) return;
+    updateExtractionRow(activeWorkspace.id, fileId, row => ({
+      ...row,
+      cells: { ...row.cells, [fieldId]: { ...row.cells[fieldId], value, isEdited: true } }
+    }));
+  };
+
+  const handleExportExtraction = (format: ExtractionExportFormat) => {
+    if (!activeWorkspace?.extraction) return;
+    exportExtraction(activeWorkspace.extraction, currentDocuments, format, `${activeWorkspace.name} extraction`);
+  };
+
+  /**
+   * Compare document A with document B in one request that reads both files. Text files also get
+   * a local line diff in the preview pane. Starting another comparison abandons the running one.
+   */
+  const handleCompareFiles = async (leftId: string, rightId: string) => {
+    const ws = activeWorkspace;
+    const left = ws?.files.find(f => f.id === leftId);
+    const right = ws?.files.find(f => f.id === rightId);
+    if (!ws || !left || !right) return;
+    const workspaceId = ws.id;
+    const settings = effectiveSettings;
+    const { prompt, responseSchema } = buildComparisonRequest(left, right);
+    comparisonControllers.current.get(workspaceId)?.abort();
+    const controller = new AbortController();
+    comparisonControllers.current.set(workspaceId, controller);
+    const settle = (update: Partial<Comparison>) => {
+      if (comparisonControllers.current.get(workspaceId) !== controller) return;
+      comparisonControllers.current.delete(workspaceId);
+      updateWorkspace(workspaceId, w => w.comparison ? { ...w, comparison: { ...w.comparison, ...update } } : w);
+    };
+
+    updateWorkspace(workspaceId, w => ({
+      ...w,
+      comparison: { leftId, rightId, status: 'running', generation: settings, createdAt: Date.now() }
+    }));
+    setMainView('comparison');
+    if (canDiff(left, right)) handleCompareVersions(leftId, rightId);
+
+    try {
+      const result = await generateFromFiles([left, right], prompt, responseSchema, settings, controller.signal);
+      settle({ status: 'done', report: parseComparisonReport(result) });
+    } catch (e: any) {
+      settle({
+        status: 'error',
+        error: isAbortError(e) ? 'The comparison was stopped.' : e.message || 'The comparison failed.'
+      });
+    }
+  };
+
+  /**
+   * Answer checklist questions, each in its own request, with the batch's concurrency limit.
+   * Transient failures are retried; per-file questions are limited to their file by its id.
+   */
+  const handleRunBatch = async (targets: BatchTarget[]) => {
+    const ws = activeWorkspace;
+    if (!ws?.batch || !ws.storeName || targets.length === 0 || batchControllers.current.has(ws.id)) return;
+    const workspaceId = ws.id;
+    const storeName = ws.storeName;
+    const { questions, concurrency } = ws.batch;
+    const settings = effectiveSettings;
+    // Conversation prompts don't apply; the checklist runs with the workspace prompt
+    const { systemInstruction: instruction } = resolvePrompt(promptLibrary, ws.promptSelection);
+    const controller = new AbortController();
+    batchControllers.current.set(workspaceId, controller);
+    setBatchRunningIds(prev => [...prev, workspaceId]);
+    targets.forEach(t => updateBatchCell(workspaceId, t, cell => ({ ...cell, status: 'pending', error: undefined })));
+
+    await runWithConcurrency(targets, concurrency, async target => {
+      updateBatchCell(workspaceId, target, cell => ({ ...cell, status: 'running' }));
+      try {
+        const question = questions.find(q => q.id === target.questionId);
+        if (!question) throw new Error('This question was removed from the checklist.');
+        if (target.fileId) {
+          const file = workspacesRef.current.find(w => w.id === workspaceId)?.files.find(f => f.id === target.fileId);
+          if (file?.status !== 'active') throw new Error('This file is not indexed.');
+          if (!file.scopable) throw new Error('This file was indexed before files could be asked on their own. Re-index it to include it.');
+        }
+        const metadataFilter = target.fileId ? fileScopeFilter([target.fileId]) : undefined;
+        const { text, groundingMetadata } = await withRetry(
+          () => answerFromStore(storeName, question.text, settings, instruction, metadataFilter, controller.signal),
+          undefined,
+          controller.signal
+        );
+        updateBatchCell(workspaceId, target, () => ({
+          ...target,
+          status: 'done',
+          answer: text,
+          generation: settings,
+          groundingMetadata,
+          answeredAt: Date.now()
+        }));
+      } catch (e: any) {
+        if (!isAbortError(e)) {
+          updateBatchCell(workspaceId, target, cell => ({ ...cell, status: 'error', error: e.message || 'The question could not be answered.' }));
+        }
+      }
+    }, controller.signal);
+
+    if (controller.signal.aborted) {
+      updateBatch(workspaceId, batch => ({
+        ...batch,
+        cells: batch.cells.map(c => c.status === 'pending' || c.status === 'running'
+          ? { ...c, status: 'error', error: 'Stopped before it was answered.' }
+          : c)
+      }));
+    }
+    batchControllers.current.delete(workspaceId);
+    setBatchRunningIds(prev => prev.filter(id => id !== workspaceId));
+  };
+
+  const handleStopGeneration = () => {
+    abortControllerRef.current?.abort();
   };
 
   const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (mention && mentionSuggestions.length > 0) {
+      if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault();
+        const step = e.key === 'ArrowDown' ? 1 : -1;
+        setMentionIndex(i => (i + step + mentionSuggestions.length) % mentionSuggestions.length);
+        return;
+      }
+      if (e.key === 'Enter' || e.key === 'Tab') {
+        e.preventDefault();
+        pickMention(mentionSuggestions[Math.min(mentionIndex, mentionSuggestions.length - 1)]);
+        return;
+      }
+    }
+    if (mention && e.key === 'Escape') {
+      setMention(null);
+      return;
+    }
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
       handleSendMessage();
@@ -197,6 +1360,38 @@ const App: React.FC = () => {
         </div>
 
         <div className="flex-1 overflow-y-auto px-5 py-6">
+          <section className="mb-8">
+            <h2 className="text-[11px] font-bold text-slate-400 uppercase tracking-widest mb-4 px-1">
+              Workspace
+            </h2>
+            <WorkspaceSwitcher
+              workspaces={workspaces}
+              activeWorkspaceId={activeWorkspaceId}
+              disabled={isRestoring || isProcessing}
+              onSelect={handleSelectWorkspace}
+              onCreate={handleCreateWorkspace}
+              onRename={handleRenameWorkspace}
+              onDelete={handleDeleteWorkspace}
+              onExport={setBundleExportId}
+              onImport={handleImportBundle}
+            />
+          </section>
+
+          <section className="mb-8">
+            <h2 className="text-[11px] font-bold text-slate-400 uppercase tracking-widest mb-4 px-1">
+              Conversations
+            </h2>
+            <ThreadList
+              threads={activeWorkspace?.threads ?? []}
+              activeThreadId={activeThreadId}
+              disabled={isRestoring || isProcessing}
+              onSelect={handleSelectThread}
+              onCreate={handleNewThread}
+              onRename={handleRenameThread}
+              onDelete={handleDeleteThread}
+            />
+          </section>
+
           <section className="mb-8">
             <h2 className="text-[11px] font-bold text-slate-400 uppercase tracking-widest mb-4 flex items-center gap-2">
               <Sparkles className="w-3 h-3 text-indigo-500" />
@@ -205,18 +1400,126 @@ const App: React.FC = () => {
             <FileUploader onFilesAdded={handleAddFiles} />
           </section>
 
+          {files.length > 0 && (
+            <section className="mb-8">
+              <h2 className="text-[11px] font-bold text-slate-400 uppercase tracking-widest mb-4 flex items-center gap-2">
+                <Search className="w-3 h-3 text-indigo-500" />
+                Search Text
+              </h2>
+              <SearchPanel files={files} indexes={workspaceIndexes} indexingCount={indexingCount} onOpenHit={handleOpenSearchHit} />
+            </section>
+          )}
+
           <nav className="space-y-3">
-            <h2 className="text-[11px] font-bold text-slate-400 uppercase tracking-widest mb-3 px-1">
-              Indexed Knowledge
-            </h2>
+            <div className="flex items-center justify-between mb-3 px-1">
+              <h2 className="text-[11px] font-bold text-slate-400 uppercase tracking-widest">
+                Indexed Knowledge
+              </h2>
+              {files.length > 0 && (
+                <button
+                  onClick={() => {
+                    setIsSelectingFiles(!isSelectingFiles);
+                    setSelectedFileIds([]);
+                  }}
+                  className="text-[10px] font-bold text-indigo-600 hover:text-indigo-800 uppercase tracking-wider"
+                >
+                  {isSelectingFiles ? 'Done' : 'Select'}
+                </button>
+              )}
+            </div>
+             {isSelectingFiles && (
+               <div className="flex items-center justify-between gap-2 px-3 py-2 rounded-xl bg-slate-50 border border-slate-200 text-[10px] font-semibold text-slate-600">
+                 <label className="flex items-center gap-2 cursor-pointer">
+                   <input
+                     type="checkbox"
+                     checked={currentDocuments.length > 0 && currentDocuments.every(f => selectedFileIds.includes(f.id))}
+                     onChange={e => setSelectedFileIds(e.target.checked ? currentDocuments.map(f => f.id) : [])}
+                     className="rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
+                   />
+                   {selectedFileIds.length} selected
+                 </label>
+                 <button
+                   onClick={handleAskSelected}
+                   disabled={!files.some(f => selectedFileIds.includes(f.id) && f.status === 'active')}
+                   className="ml-auto flex items-center gap-1 px-2 py-1 rounded-lg text-indigo-600 hover:bg-indigo-50 transition-colors disabled:opacity-40 disabled:hover:bg-transparent"
+                   title="Answer the next question only from the selected indexed files"
+                 >
+                   <AtSign className="w-3 h-3" />
+                   Ask
+                 </button>
+                 <button
+                   onClick={handleCompareSelected}
+                   disabled={selectedFileIds.length !== 2}
+                   className="flex items-center gap-1 px-2 py-1 rounded-lg text-indigo-600 hover:bg-indigo-50 transition-colors disabled:opacity-40 disabled:hover:bg-transparent"
+                   title="Compare the two selected files; the first one selected is A"
+                 >
+                   <GitCompare className="w-3 h-3" />
+                   Compare
+                 </button>
+                 <button
+                   onClick={handleDeleteSelected}
+                   disabled={selectedFileIds.length === 0}
+                   className="flex items-center gap-1 px-2 py-1 rounded-lg text-red-600 hover:bg-red-50 transition-colors disabled:opacity-40 disabled:hover:bg-transparent"
+                 >
+                   <Trash2 className="w-3 h-3" />
+                   Delete
+                 </button>
+               </div>
+             )}
+             {erroredCount > 0 && !isSelectingFiles && (
+               <button
+                 onClick={handleRemoveErrored}
+                 className="w-full flex items-center justify-center gap-1.5 px-3 py-2 rounded-xl border border-red-100 bg-red-50/40 text-[10px] font-bold text-red-600 hover:bg-red-50 transition-colors"
+               >
+                 <Trash2 className="w-3 h-3" />
+                 Remove {erroredCount} errored file{erroredCount === 1 ? '' : 's'}
+               </button>
+             )}
+             {(queuedCount > 0 || pausedCount > 0) && (
+               <div className="flex items-center justify-between gap-2 px-3 py-2 rounded-xl bg-indigo-50/50 border border-indigo-100 text-[10px] font-semibold text-indigo-700">
+                 <span className="truncate">
+                   {queuedCount > 0 && `${queuedCount} uploading`}
+                   {queuedCount > 0 && pausedCount > 0 && ' · '}
+                   {pausedCount > 0 && `${pausedCount} paused`}
+                 </span>
+                 <div className="flex gap-1 shrink-0">
+                   {queuedCount > 0 ? (
+                     <button
+                       onClick={() => handlePauseFiles(files.filter(f => isInUploadQueue(f.status)).map(f => f.id))}
+                       className="px-2 py-1 rounded-lg hover:bg-white transition-colors"
+                     >
+                       Pause all
+                     </button>
+                   ) : (
+                     <button
+                       onClick={() => handleResumeFiles(files.map(f => f.id))}
+                       className="px-2 py-1 rounded-lg hover:bg-white transition-colors"
+                     >
+                       Resume all
+                     </button>
+                   )}
+                   <button
+                     onClick={() => handleCancelUploads(files.filter(f => isInUploadQueue(f.status) || f.status === 'paused').map(f => f.id))}
+                     className="px-2 py-1 rounded-lg hover:bg-white hover:text-red-600 transition-colors"
+                   >
+                     Cancel all
+                   </button>
+                 </div>
+               </div>
+             )}
              {files.length === 0 && (
                <div className="text-center py-8 px-4 rounded-2xl bg-slate-50 border border-dashed border-slate-200">
                  <p className="text-xs text-slate-500 font-medium">No documents yet</p>
                  <p className="text-[10px] text-slate-400 mt-1">Upload to start analysis</p>
                </div>
              )}
-             {files.map(file => (
-               <div key={file.id} className="group relative">
+             <FolderTree
+               items={versionGroups}
+               pathOf={groupPath}
+               keyOf={groupKey}
+               renderItem={({ documentId, current: file, versions }) => (
+               <div>
+               <div className="group relative">
                  <div 
                     className={`w-full flex items-start gap-3 p-3.5 rounded-2xl border text-left transition-all duration-200 ${
                       activeFileId === file.id 
@@ -224,29 +1527,64 @@ const App: React.FC = () => {
                         : 'bg-white border-slate-100 hover:border-indigo-200 hover:shadow-sm'
                     } ${file.status === 'error' ? 'border-red-100 bg-red-50/20' : ''}`}
                  >
+                   {isSelectingFiles && (
+                     <input
+                       type="checkbox"
+                       checked={selectedFileIds.includes(file.id)}
+                       onChange={() => toggleFileSelection(file.id)}
+                       className="mt-3 shrink-0 rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
+                       aria-label={`Select ${file.name}`}
+                     />
+                   )}
                    <button 
-                      onClick={() => setActiveFileId(file.id === activeFileId ? null : file.id)}
+                      onClick={() => selectFile(file.id === activeFileId ? null : file.id)}
                       className="relative shrink-0 mt-0.5 focus:outline-none"
                     >
                       <FileIcon fileName={file.name} className="w-9 h-9" />
                       <div className="absolute -bottom-1 -right-1 bg-white rounded-full p-0.5 shadow-sm">
                         {file.status === 'active' && <CheckCircle2 className="w-3.5 h-3.5 text-emerald-500 fill-white" />}
-                        {(file.status === 'uploading' || file.status === 'processing' || file.status === 'pending') && <Loader2 className="w-3.5 h-3.5 text-indigo-500 animate-spin" />}
+                        {isInUploadQueue(file.status) && <Loader2 className="w-3.5 h-3.5 text-indigo-500 animate-spin" />}
+                        {file.status === 'paused' && <Pause className="w-3.5 h-3.5 text-amber-500" />}
                         {file.status === 'error' && <AlertCircle className="w-3.5 h-3.5 text-red-500" />}
                       </div>
                    </button>
                    
                    <div className="flex flex-col min-w-0 flex-1 gap-0.5">
                       <button 
-                        onClick={() => setActiveFileId(file.id === activeFileId ? null : file.id)}
+                        onClick={() => selectFile(file.id === activeFileId ? null : file.id)}
                         className={`text-sm font-semibold truncate text-left focus:outline-none transition-colors ${
                           activeFileId === file.id ? 'text-indigo-900' : 'text-slate-700 hover:text-indigo-700'
                         }`}
+                        title={file.name}
                       >
-                        {file.name}
+                        {baseName(file.name)}
                       </button>
                       <div className="flex items-center gap-2">
-                        <span className="text-[10px] text-slate-400 font-medium">{(file.size / 1024).toFixed(1)} KB</span>
+                        <span className="text-[10px] text-slate-400 font-medium shrink-0">{(file.size / 1024).toFixed(1)} KB</span>
+                        {versions.length > 1 && (
+                          <button
+                            onClick={() => toggleDocumentExpanded(documentId)}
+                            className="flex items-center gap-0.5 text-[10px] font-bold text-indigo-500 hover:text-indigo-700 shrink-0"
+                            title="Show version history"
+                          >
+                            v{versionOf(file)} of {versions.length}
+                            <ChevronDown className={`w-3 h-3 transition-transform ${expandedDocumentIds.includes(documentId) ? 'rotate-180' : ''}`} />
+                          </button>
+                        )}
+                        {file.status === 'archived' && (
+                          <span className="text-[9px] text-slate-400 font-bold uppercase" title="No version of this document is indexed">
+                            Archived
+                          </span>
+                        )}
+                        <UploadProgress status={file.status} />
+                        {file.stale && file.status === 'active' && (
+                          <span 
+                            className="text-[9px] text-amber-600 font-bold uppercase cursor-help"
+                            title="The original upload has expired. The indexed copy is still searchable."
+                          >
+                            Stale
+                          </span>
+                        )}
                         {file.status === 'error' && (
                           <span className="text-[9px] text-red-600 font-bold uppercase flex items-center gap-1 group/err relative cursor-help">
                             Error
@@ -256,12 +1594,21 @@ const App: React.FC = () => {
                           </span>
                         )}
                       </div>
+                      {file.metadata && file.metadata.length > 0 && (
+                        <div className="flex flex-wrap gap-1 mt-0.5">
+                          {file.metadata.map(tag => (
+                            <span key={tag.key} className="px-1.5 py-0.5 rounded bg-slate-100 text-[9px] font-mono text-slate-500 truncate max-w-[140px]" title={formatTag(tag)}>
+                              {formatTag(tag)}
+                            </span>
+                          ))}
+                        </div>
+                      )}
                    </div>
 
                    {confirmDeleteId === file.id ? (
                      <div className="absolute inset-0 z-10 bg-white/95 backdrop-blur-sm rounded-2xl flex items-center justify-center p-2 border border-red-100 shadow-sm animate-fadeIn">
                         <button 
-                          onClick={() => removeFile(file.id)}
+                          onClick={() => handleRemoveFiles([file.id])}
                           className="text-[10px] font-bold text-white bg-red-500 px-3 py-1.5 hover:bg-red-600 rounded-lg shadow-sm transition-colors"
                         >
                           Delete
@@ -273,25 +1620,104 @@ const App: React.FC = () => {
                           Cancel
                         </button>
                      </div>
+                   ) : isInUploadQueue(file.status) || file.status === 'paused' ? (
+                     <div className="flex shrink-0 opacity-0 group-hover:opacity-100 transition-all focus-within:opacity-100">
+                       {file.status === 'paused' ? (
+                         <button
+                           onClick={() => handleResumeFiles([file.id])}
+                           className="p-1.5 text-slate-300 hover:text-indigo-600 hover:bg-indigo-50 rounded-lg"
+                           title="Resume upload"
+                         >
+                           <Play className="w-4 h-4" />
+                         </button>
+                       ) : (
+                         <button
+                           onClick={() => handlePauseFiles([file.id])}
+                           className="p-1.5 text-slate-300 hover:text-amber-600 hover:bg-amber-50 rounded-lg"
+                           title="Pause upload"
+                         >
+                           <Pause className="w-4 h-4" />
+                         </button>
+                       )}
+                       <button
+                         onClick={() => handleCancelUploads([file.id])}
+                         className="p-1.5 text-slate-300 hover:text-red-500 hover:bg-red-50 rounded-lg"
+                         title="Cancel upload"
+                       >
+                         <X className="w-4 h-4" />
+                       </button>
+                     </div>
                    ) : (
-                     <button 
-                        onClick={() => setConfirmDeleteId(file.id)}
-                        className="p-1.5 text-slate-300 hover:text-red-500 hover:bg-red-50 rounded-lg opacity-0 group-hover:opacity-100 transition-all focus:opacity-100"
-                        title="Remove file"
-                      >
-                       <Trash2 className="w-4 h-4" />
-                     </button>
+                     <div className="flex shrink-0 opacity-0 group-hover:opacity-100 transition-all focus-within:opacity-100">
+                       {file.status === 'error' && file.fileHandle && (
+                         <button
+                           onClick={() => handleRetryFiles([file.id])}
+                           className="p-1.5 text-slate-300 hover:text-indigo-600 hover:bg-indigo-50 rounded-lg"
+                           title="Retry upload"
+                         >
+                           <RotateCcw className="w-4 h-4" />
+                         </button>
+                       )}
+                       {file.status === 'archived' && file.fileHandle && (
+                         <button
+                           onClick={() => handleRetryFiles([file.id])}
+                           className="p-1.5 text-slate-300 hover:text-emerald-600 hover:bg-emerald-50 rounded-lg"
+                           title="Index this version"
+                         >
+                           <ArchiveRestore className="w-4 h-4" />
+                         </button>
+                       )}
+                       {(file.status !== 'active' || file.fileHandle) && (
+                         <button
+                           onClick={() => setEditingTagsId(editingTagsId === file.id ? null : file.id)}
+                           className="p-1.5 text-slate-300 hover:text-indigo-600 hover:bg-indigo-50 rounded-lg"
+                           title="Edit tags"
+                         >
+                           <Tag className="w-4 h-4" />
+                         </button>
+                       )}
+                       <button 
+                          onClick={() => setConfirmDeleteId(file.id)}
+                          className="p-1.5 text-slate-300 hover:text-red-500 hover:bg-red-50 rounded-lg"
+                          title="Remove file"
+                        >
+                         <Trash2 className="w-4 h-4" />
+                       </button>
+                     </div>
                    )}
                  </div>
                </div>
-             ))}
+               {editingTagsId === file.id && (
+                 <MetadataEditor
+                   tags={file.metadata}
+                   note={file.status === 'active' ? 'Saving re-indexes this file so the search store gets the new tags.' : undefined}
+                   onSave={tags => handleSaveMetadata(file.id, tags)}
+                   onCancel={() => setEditingTagsId(null)}
+                 />
+               )}
+               {versions.length > 1 && expandedDocumentIds.includes(documentId) && (
+                 <VersionHistory
+                   versions={versions}
+                   current={file}
+                   activeFileId={activeFileId}
+                   versionTargetId={versionTargetId}
+                   disabled={isProcessing}
+                   onPreview={id => selectFile(id === activeFileId ? null : id)}
+                   onAsk={handleAskVersion}
+                   onCompare={handleCompareVersions}
+                   onMakeCurrent={id => handleRetryFiles([id])}
+                   onDelete={id => handleRemoveFiles([id])}
+                 />
+               )}
+               </div>
+             )} />
           </nav>
         </div>
         
         <div className="p-4 border-t border-slate-100 bg-slate-50/30 backdrop-blur-sm">
            <div className="flex items-center gap-2 justify-center text-[10px] font-bold text-slate-400 uppercase tracking-widest">
-             <div className="w-2 h-2 rounded-full bg-emerald-400 animate-pulse"></div>
-             <span>System Online</span>
+             <div className={`w-2 h-2 rounded-full animate-pulse ${isRestoring ? 'bg-amber-400' : 'bg-emerald-400'}`}></div>
+             <span>{isRestoring ? 'Restoring Workspace' : 'System Online'}</span>
            </div>
         </div>
       </aside>
@@ -317,6 +1743,21 @@ const App: React.FC = () => {
                   <span className="text-slate-300">|</span>
                   <span className="text-indigo-600 truncate max-w-[200px]">{activeFile.name}</span>
                 </div>
+              ) : mainView === 'comparison' ? (
+                <div className="flex items-center gap-2">
+                  <GitCompare className="w-4 h-4 text-indigo-500" />
+                  <span className="bg-clip-text text-transparent bg-gradient-to-r from-slate-800 to-slate-600">Document Comparison</span>
+                </div>
+              ) : mainView === 'batch' ? (
+                <div className="flex items-center gap-2">
+                  <ListChecks className="w-4 h-4 text-indigo-500" />
+                  <span className="bg-clip-text text-transparent bg-gradient-to-r from-slate-800 to-slate-600">Batch Questions</span>
+                </div>
+              ) : mainView === 'extraction' ? (
+                <div className="flex items-center gap-2">
+                  <Table2 className="w-4 h-4 text-indigo-500" />
+                  <span className="bg-clip-text text-transparent bg-gradient-to-r from-slate-800 to-slate-600">Structured Extraction</span>
+                </div>
               ) : (
                 <div className="flex items-center gap-2">
                   <MessageSquare className="w-4 h-4 text-indigo-500" />
@@ -328,12 +1769,66 @@ const App: React.FC = () => {
           
           <div className="flex items-center gap-3 shrink-0">
               <button 
-                onClick={clearChat}
-                className="p-2 text-slate-400 hover:text-slate-600 hover:bg-white rounded-lg transition-all border border-transparent hover:border-slate-200 hover:shadow-sm"
-                title="Clear Chat History"
+                onClick={() => handleToggleView('comparison')}
+                disabled={isRestoring || !activeWorkspace}
+                className={`p-2 rounded-lg transition-all border hover:shadow-sm disabled:opacity-50 ${
+                  mainView === 'comparison'
+                    ? 'text-indigo-600 bg-indigo-50 border-indigo-100'
+                    : 'text-slate-400 hover:text-slate-600 hover:bg-white border-transparent hover:border-slate-200'
+                }`}
+                title={mainView === 'comparison' ? 'Back to Conversation' : 'Document Comparison'}
+              >
+                <GitCompare className="w-4 h-4" />
+              </button>
+              <button 
+                onClick={() => handleToggleView('batch')}
+                disabled={isRestoring || !activeWorkspace}
+                className={`p-2 rounded-lg transition-all border hover:shadow-sm disabled:opacity-50 ${
+                  mainView === 'batch'
+                    ? 'text-indigo-600 bg-indigo-50 border-indigo-100'
+                    : 'text-slate-400 hover:text-slate-600 hover:bg-white border-transparent hover:border-slate-200'
+                }`}
+                title={mainView === 'batch' ? 'Back to Conversation' : 'Batch Questions'}
+              >
+                <ListChecks className="w-4 h-4" />
+              </button>
+              <button 
+                onClick={() => handleToggleView('extraction')}
+                disabled={isRestoring || !activeWorkspace}
+                className={`p-2 rounded-lg transition-all border hover:shadow-sm disabled:opacity-50 ${
+                  mainView === 'extraction'
+                    ? 'text-indigo-600 bg-indigo-50 border-indigo-100'
+                    : 'text-slate-400 hover:text-slate-600 hover:bg-white border-transparent hover:border-slate-200'
+                }`}
+                title={mainView === 'extraction' ? 'Back to Conversation' : 'Structured Extraction'}
+              >
+                <Table2 className="w-4 h-4" />
+              </button>
+              <button 
+                onClick={() => setIsPromptLibraryOpen(true)}
+                disabled={isRestoring || isProcessing}
+                className="p-2 text-slate-400 hover:text-slate-600 hover:bg-white rounded-lg transition-all border border-transparent hover:border-slate-200 hover:shadow-sm disabled:opacity-50"
+                title="Prompt Library"
+              >
+                <BookOpen className="w-4 h-4" />
+              </button>
+              <button 
+                onClick={() => setIsSettingsOpen(true)}
+                disabled={isRestoring}
+                className="p-2 text-slate-400 hover:text-slate-600 hover:bg-white rounded-lg transition-all border border-transparent hover:border-slate-200 hover:shadow-sm disabled:opacity-50"
+                title="Model Settings"
               >
-                <Eraser className="w-4 h-4" />
+                <SlidersHorizontal className="w-4 h-4" />
               </button>
+              <button 
+                onClick={handleNewThread}
+                disabled={isProcessing}
+                className="p-2 text-slate-400 hover:text-slate-600 hover:bg-white rounded-lg transition-all border border-transparent hover:border-slate-200 hover:shadow-sm disabled:opacity-50"
+                title="New Conversation"
+              >
+                <MessageSquarePlus className="w-4 h-4" />
+              </button>
+              <ExportMenu disabled={isProcessing || messages.length === 0} onExport={handleExportThread} />
               <div className={`flex items-center gap-2 px-3 py-1.5 rounded-full border text-[10px] font-bold uppercase tracking-widest transition-all ${
                 isSyncing 
                   ? 'bg-indigo-50 text-indigo-700 border-indigo-100' 
@@ -363,30 +1858,89 @@ const App: React.FC = () => {
                 className="flex-1 bg-white overflow-hidden border-r border-slate-200/60 max-w-2xl hidden lg:flex flex-col animate-slideInRight shadow-[inset_-10px_0_20px_-10px_rgba(0,0,0,0.02)]"
               >
                  <div className="p-4 bg-slate-50/50 border-b border-slate-100 flex justify-between items-center">
-                    <span className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">Source Content</span>
+                    <span className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">
+                      {diffFiles?.left && diffFiles.right
+                        ? documentIdOf(diffFiles.left) === documentIdOf(diffFiles.right) ? 'Version Comparison' : 'Line Comparison'
+                        : CONVERTED_EXTENSIONS.includes(activeFile.type)
+                          ? `Extracted Text · ${activeFile.type.slice(1).toUpperCase()}`
+                          : 'Source Content'}
+                    </span>
                     <button 
-                      onClick={() => setActiveFileId(null)}
+                      onClick={() => selectFile(null)}
                       className="p-1 hover:bg-slate-200 rounded text-slate-400"
                     >
                       <X className="w-4 h-4" />
                     </button>
                  </div>
                  <div className="flex-1 overflow-auto p-6 custom-scrollbar">
-                    {activeFile.content ? (
-                      <pre className="text-xs font-mono leading-relaxed text-slate-600 whitespace-pre-wrap">
-                        {activeFile.content}
-                      </pre>
+                    {diffFiles?.left && diffFiles.right ? (
+                      <VersionDiff
+                        leftLabel={`v${versionOf(diffFiles.left)} · ${diffFiles.left.name}`}
+                        rightLabel={`v${versionOf(diffFiles.right)} · ${diffFiles.right.name}`}
+                        before={diffTexts.before}
+                        after={diffTexts.after}
+                        error={diffTexts.error}
+                      />
                     ) : (
-                      <div className="flex flex-col items-center justify-center h-full text-slate-400">
-                        <Loader2 className="w-8 h-8 animate-spin mb-3 text-indigo-200" />
-                        <span className="text-xs font-medium uppercase tracking-widest">Loading Preview...</span>
-                      </div>
+                      <DocumentPreview
+                        file={activeFile}
+                        content={activeFile.content}
+                        highlight={previewHighlight?.passage}
+                        pageNumber={previewHighlight?.pageNumber}
+                        lineNumber={previewHighlight?.lineNumber}
+                      />
                     )}
                  </div>
               </section>
            )}
 
-           {/* Chat Area */}
+           {/* Comparison, Batch Grid, Extraction Table or Chat Area */}
+           {mainView === 'comparison' && activeWorkspace ? (
+             <section className={`flex-1 flex flex-col min-w-0 transition-all duration-300 ${activeFile ? 'lg:max-w-[50%]' : ''}`}>
+               <ComparisonPanel
+                 comparison={comparison}
+                 left={comparison && files.find(f => f.id === comparison.leftId)}
+                 right={comparison && files.find(f => f.id === comparison.rightId)}
+                 isRunning={comparison?.status === 'running'}
+                 onRun={() => comparison && handleCompareFiles(comparison.leftId, comparison.rightId)}
+                 onStop={() => comparisonControllers.current.get(activeWorkspace.id)?.abort()}
+                 onShowDiff={() => comparison && handleCompareVersions(comparison.leftId, comparison.rightId)}
+                 onOpenSource={handleOpenSource}
+               />
+             </section>
+           ) : mainView === 'batch' && activeWorkspace?.batch ? (
+             <section className={`flex-1 flex flex-col min-w-0 transition-all duration-300 ${activeFile ? 'lg:max-w-[50%]' : ''}`}>
+               <BatchPanel
+                 key={activeWorkspace.id}
+                 batch={activeWorkspace.batch}
+                 columns={batchColumns}
+                 files={files}
+                 isRunning={batchRunningIds.includes(activeWorkspace.id)}
+                 runBlocker={activeCount === 0 ? 'Nothing is indexed yet; questions can run once documents are active.' : undefined}
+                 onQuestionsChange={texts => updateBatch(activeWorkspace.id, batch => applyQuestions(batch, texts))}
+                 onModeChange={mode => updateBatch(activeWorkspace.id, batch => ({ ...batch, mode }))}
+                 onConcurrencyChange={concurrency => updateBatch(activeWorkspace.id, batch => ({ ...batch, concurrency }))}
+                 onRun={handleRunBatch}
+                 onStop={() => batchControllers.current.get(activeWorkspace.id)?.abort()}
+                 onExport={() => exportBatchCsv(activeWorkspace.batch!, batchColumns, `${activeWorkspace.name} questions`)}
+                 onOpenSource={handleOpenSource}
+               />
+             </section>
+           ) : mainView === 'extraction' && activeWorkspace?.extraction ? (
+             <section className={`flex-1 flex flex-col min-w-0 transition-all duration-300 ${activeFile ? 'lg:max-w-[50%]' : ''}`}>
+               <ExtractionPanel
+                 extraction={activeWorkspace.extraction}
+                 documents={currentDocuments}
+                 isRunning={extractingIds.includes(activeWorkspace.id)}
+                 onFieldsChange={fields => updateExtraction(activeWorkspace.id, ext => ({ ...ext, fields }))}
+                 onRun={handleRunExtraction}
+                 onStop={() => extractionControllers.current.get(activeWorkspace.id)?.abort()}
+                 onEditCell={handleEditExtractionCell}
+                 onOpenSource={handleOpenSource}
+                 onExport={handleExportExtraction}
+               />
+             </section>
+           ) : (
            <section 
              className={`flex-1 flex flex-col relative transition-all duration-300 ${activeFile ? 'lg:max-w-[50%]' : ''}`}
            >
@@ -416,7 +1970,19 @@ const App: React.FC = () => {
                   </div>
                 ) : (
                   <div className="max-w-3xl mx-auto w-full space-y-8 pb-4">
-                    {messages.map(msg => <ChatMessageBubble key={msg.id} message={msg} />)}
+                    {messages.map(msg => (
+                      <ChatMessageBubble 
+                        key={msg.id} 
+                        message={msg} 
+                        files={files} 
+                        branch={branchInfo.get(msg.id)}
+                        isBusy={isProcessing}
+                        onOpenSource={handleOpenSource}
+                        onSwitchBranch={direction => handleSwitchBranch(msg.id, direction)}
+                        onEdit={text => handleEditMessage(msg.id, text)}
+                        onRegenerate={() => handleRegenerate(msg.id)}
+                      />
+                    ))}
                     {isProcessing && (
                       <div className="flex justify-start animate-fadeIn">
                         <div className="bg-white border border-slate-100 px-4 py-3 rounded-2xl rounded-tl-sm shadow-sm flex items-center gap-3">
@@ -437,44 +2003,141 @@ const App: React.FC = () => {
              {/* Input Area - Floating */}
              <div className="p-4 md:p-6 sticky bottom-0 z-20 pointer-events-none">
                <div className="max-w-3xl mx-auto w-full pointer-events-auto">
+                 {!versionTarget && (
+                   <MetadataFilterBar
+                     threadFilter={activeThread?.metadataFilter}
+                     questionFilter={questionFilter}
+                     tagKeys={tagKeys}
+                     disabled={isProcessing}
+                     onThreadFilterChange={handleThreadFilterChange}
+                     onQuestionFilterChange={setQuestionFilter}
+                   />
+                 )}
+                 <FileScopeBar
+                   files={scopeFiles}
+                   disabled={isProcessing}
+                   onRemove={id => setScopeFileIds(prev => prev.filter(x => x !== id))}
+                   onClear={() => setScopeFileIds([])}
+                 />
+                 {versionTarget && (
+                   <div className="mb-2 flex items-center gap-2 w-fit max-w-full px-3 py-1.5 rounded-xl bg-violet-50 border border-violet-100 text-[11px] font-semibold text-violet-700 shadow-sm">
+                     <History className="w-3.5 h-3.5 shrink-0" />
+                     <span className="truncate">
+                       Asking {versionTarget.name} · v{versionOf(versionTarget)}
+                       {versionTarget.status !== 'active' && ' (not indexed; read directly)'}
+                     </span>
+                     <button onClick={() => setVersionTargetId(null)} className="p-0.5 hover:bg-violet-100 rounded" title="Ask the whole workspace again">
+                       <X className="w-3 h-3" />
+                     </button>
+                   </div>
+                 )}
                  <div className="relative group bg-white rounded-[24px] shadow-2xl shadow-indigo-900/5 border border-slate-200 focus-within:border-indigo-500/50 focus-within:ring-4 focus-within:ring-indigo-500/10 transition-all duration-300">
+                   {mention && (
+                     <MentionMenu
+                       files={mentionSuggestions}
+                       activeIndex={mentionIndex}
+                       onPick={pickMention}
+                       onHover={setMentionIndex}
+                     />
+                   )}
                    <textarea
                       ref={textareaRef}
                       value={inputValue}
                       onChange={handleInput}
                       onKeyDown={handleKeyDown}
-                      placeholder={files.length === 0 ? "Waiting for documents..." : "Ask a question about your files..."}
+                      onSelect={e => updateMention(e.currentTarget)}
+                      onBlur={() => setMention(null)}
+                      placeholder={files.length === 0 ? "Waiting for documents..." : "Ask a question about your files... (@ to pick files)"}
                       className="w-full pl-6 pr-16 py-4 bg-transparent border-none focus:ring-0 focus:outline-none resize-none text-sm md:text-base font-medium text-slate-700 placeholder:text-slate-400 max-h-[200px] overflow-y-auto"
                       rows={1}
-                      disabled={isProcessing || isSyncing}
+                      disabled={isProcessing}
                       style={{ minHeight: '60px' }}
                    />
                    
                    <div className="absolute right-2 bottom-2">
-                     <button 
-                       onClick={handleSendMessage}
-                       disabled={!inputValue.trim() || isProcessing || isSyncing || activeCount === 0}
-                       className={`p-2.5 rounded-xl transition-all duration-200 flex items-center justify-center ${
-                         !inputValue.trim() || isProcessing || isSyncing || activeCount === 0
-                            ? 'bg-slate-100 text-slate-300 cursor-not-allowed' 
-                            : 'bg-indigo-600 text-white shadow-lg shadow-indigo-500/30 hover:bg-indigo-700 hover:scale-105 active:scale-95'
-                       }`}
-                     >
-                       {isProcessing ? <Loader2 className="w-5 h-5 animate-spin" /> : <ArrowRight className="w-5 h-5" />}
-                     </button>
+                     {isProcessing ? (
+                       <button 
+                         onClick={handleStopGeneration}
+                         className="p-2.5 rounded-xl transition-all duration-200 flex items-center justify-center bg-slate-800 text-white shadow-lg shadow-slate-900/20 hover:bg-slate-900 hover:scale-105 active:scale-95"
+                         title="Stop generating"
+                       >
+                         <Square className="w-5 h-5 fill-white" />
+                       </button>
+                     ) : (
+                       <button 
+                         onClick={handleSendMessage}
+                         disabled={!inputValue.trim() || isProcessing || (activeCount === 0 && !versionTarget)}
+                         className={`p-2.5 rounded-xl transition-all duration-200 flex items-center justify-center ${
+                           !inputValue.trim() || isProcessing || (activeCount === 0 && !versionTarget)
+                              ? 'bg-slate-100 text-slate-300 cursor-not-allowed' 
+                              : 'bg-indigo-600 text-white shadow-lg shadow-indigo-500/30 hover:bg-indigo-700 hover:scale-105 active:scale-95'
+                         }`}
+                       >
+                         <ArrowRight className="w-5 h-5" />
+                       </button>
+                     )}
                    </div>
                  </div>
                  
                  <div className="mt-3 text-center opacity-60 transition-opacity hover:opacity-100">
                     <span className="text-[10px] text-slate-400 font-medium">
-                      Gemini 2.5 Flash • {activeCount} Documents Active • <span className="hidden sm:inline">Shift + Enter for new line</span>
+                      {AVAILABLE_MODELS.find(m => m.id === effectiveSettings.modelId)?.label || effectiveSettings.modelId} • {activePrompt.name} • {activeCount} Documents Active{queuedCount > 0 && ` (${queuedCount} still indexing, not yet searchable)`} • <span className="hidden sm:inline">Shift + Enter for new line</span>
                     </span>
                  </div>
                </div>
              </div>
            </section>
+           )}
         </div>
       </main>
+
+      {isSettingsOpen && (
+        <SettingsPanel
+          globalSettings={globalSettings}
+          workspaceName={activeWorkspace?.name || 'Workspace'}
+          workspaceOverride={activeWorkspace?.settingsOverride}
+          onSave={handleSaveSettings}
+          onClose={() => setIsSettingsOpen(false)}
+        />
+      )}
+
+      {duplicateReview && (
+        <DuplicateFilesDialog
+          matches={duplicateReview.matches}
+          onResolve={handleResolveDuplicates}
+          onCancel={() => setDuplicateReview(null)}
+        />
+      )}
+
+      {bundleExportId && workspaces.some(w => w.id === bundleExportId) && (
+        <BundleExportDialog
+          workspace={workspaces.find(w => w.id === bundleExportId)!}
+          onExport={handleExportBundle}
+          onClose={() => setBundleExportId(null)}
+        />
+      )}
+
+      {bundleImport && (
+        <BundleImportDialog
+          state={bundleImport}
+          files={workspaces.find(w => w.id === bundleImport.workspaceId)?.files ?? []}
+          onClose={() => setBundleImport(null)}
+        />
+      )}
+
+      {isPromptLibraryOpen && (
+        <PromptLibrary
+          prompts={promptLibrary}
+          workspaceName={activeWorkspace?.name || 'Workspace'}
+          workspaceSelection={activeWorkspace?.promptSelection}
+          threadSelection={activeThread?.promptSelection}
+          hasThread={!!activeThread}
+          onSavePrompt={handleSavePrompt}
+          onDeletePrompt={handleDeletePrompt}
+          onApply={handleApplyPrompt}
+          onClose={() => setIsPromptLibraryOpen(false)}
+        />
+      )}
     </div>
   );
 };
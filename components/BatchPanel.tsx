@@ -0,0 +1,300 @@
+import React, { useRef, useState } from 'react';
+import {
+  AlertCircle, CheckCircle2, ChevronDown, Clock, FileSpreadsheet, ListChecks, Loader2, Play, RotateCcw, Square, Upload, X
+} from 'lucide-react';
+import { BatchCell, BatchRun, FileDocument, MessageRole, SourceReference } from '../types';
+import { ChatMessageBubble } from './ChatMessageBubble';
+import { BatchColumn, MAX_BATCH_CONCURRENCY, findCell, parseQuestions } from '../services/batchService';
+
+/** One (question, column) pair to answer. */
+export interface BatchTarget {
+  questionId: string;
+  fileId: string | null;
+}
+
+interface BatchPanelProps {
+  batch: BatchRun;
+  columns: BatchColumn[];
+  files: FileDocument[]; // For resolving citations in answers
+  isRunning: boolean;
+  runBlocker?: string; // Why nothing can be run right now
+  onQuestionsChange: (questions: string[]) => void;
+  onModeChange: (mode: BatchRun['mode']) => void;
+  onConcurrencyChange: (concurrency: number) => void;
+  onRun: (targets: BatchTarget[]) => void;
+  onStop: () => void;
+  onExport: () => void;
+  onOpenSource: (source: SourceReference) => void;
+}
+
+const StatusIcon: React.FC<{ cell?: BatchCell }> = ({ cell }) => {
+  switch (cell?.status) {
+    case 'pending': return <Clock className="w-3 h-3 text-slate-400 shrink-0" />;
+    case 'running': return <Loader2 className="w-3 h-3 text-indigo-500 animate-spin shrink-0" />;
+    case 'done': return <CheckCircle2 className="w-3 h-3 text-emerald-500 shrink-0" />;
+    case 'error': return <AlertCircle className="w-3 h-3 text-red-500 shrink-0" />;
+    default: return <span className="w-3 h-3 block rounded-full border border-dashed border-slate-300 shrink-0" />;
+  }
+};
+
+/** A checklist of questions run against the workspace or each file, with the answers as a grid. */
+export const BatchPanel: React.FC<BatchPanelProps> = ({
+  batch, columns, files, isRunning, runBlocker, onQuestionsChange, onModeChange, onConcurrencyChange,
+  onRun, onStop, onExport, onOpenSource
+}) => {
+  const [isEditorOpen, setIsEditorOpen] = useState(batch.questions.length === 0);
+  const [draft, setDraft] = useState(() => batch.questions.map(q => q.text).join('\n'));
+  const [importError, setImportError] = useState<string | null>(null);
+  const [selected, setSelected] = useState<BatchTarget | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const draftQuestions = parseQuestions(draft);
+  const isDraftChanged = draftQuestions.join('\n') !== batch.questions.map(q => q.text).join('\n');
+
+  const targets = batch.questions.flatMap(q => columns.map(col => ({ questionId: q.id, fileId: col.fileId })));
+  const cellOf = (t: BatchTarget) => findCell(batch, t.questionId, t.fileId);
+  const unanswered = targets.filter(t => !cellOf(t));
+  const failed = targets.filter(t => cellOf(t)?.status === 'error');
+  const answered = targets.filter(t => cellOf(t)?.status === 'done');
+
+  const selectedCell = selected && cellOf(selected);
+  const selectedQuestion = selected && batch.questions.find(q => q.id === selected.questionId);
+  const selectedColumn = selected && columns.find(c => c.fileId === selected.fileId);
+
+  const handleImport = async (file: File) => {
+    setImportError(null);
+    try {
+      const imported = parseQuestions(await file.text(), file.name);
+      if (imported.length === 0) throw new Error(`No questions found in ${file.name}.`);
+      setDraft(prev => [...parseQuestions(prev), ...imported].join('\n'));
+    } catch (e: any) {
+      setImportError(e.message || `${file.name} could not be read.`);
+    }
+  };
+
+  return (
+    <div className="h-full flex flex-col">
+      <div className="px-4 md:px-8 py-4 border-b border-slate-100 space-y-3 shrink-0">
+        <div className="flex items-center justify-between gap-3 flex-wrap">
+          <button
+            onClick={() => setIsEditorOpen(!isEditorOpen)}
+            className="flex items-center gap-2 text-xs font-bold text-slate-600 hover:text-slate-800"
+          >
+            <ChevronDown className={`w-3.5 h-3.5 transition-transform ${isEditorOpen ? '' : '-rotate-90'}`} />
+            Checklist · {batch.questions.length} question{batch.questions.length === 1 ? '' : 's'}
+          </button>
+          <div className="flex items-center gap-2 flex-wrap">
+            <div className="flex p-0.5 rounded-lg bg-slate-100 text-[11px] font-bold">
+              {(['workspace', 'per-file'] as const).map(mode => (
+                <button
+                  key={mode}
+                  onClick={() => onModeChange(mode)}
+                  disabled={isRunning}
+                  className={`px-2.5 py-1 rounded-md transition-colors disabled:opacity-60 ${
+                    batch.mode === mode ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'
+                  }`}
+                >
+                  {mode === 'workspace' ? 'Whole workspace' : 'Each file'}
+                </button>
+              ))}
+            </div>
+            <select
+              value={batch.concurrency}
+              onChange={e => onConcurrencyChange(Number(e.target.value))}
+              disabled={isRunning}
+              className="px-2 py-1 text-[11px] font-semibold text-slate-600 rounded-lg border border-slate-200 bg-white disabled:opacity-60"
+              title="Questions sent at the same time"
+              aria-label="Concurrency"
+            >
+              {Array.from({ length: MAX_BATCH_CONCURRENCY }, (_, i) => i + 1).map(n => (
+                <option key={n} value={n}>{n} at a time</option>
+              ))}
+            </select>
+            {isRunning ? (
+              <button
+                onClick={onStop}
+                className="flex items-center gap-1.5 px-3 py-1.5 text-[11px] font-bold text-white bg-slate-800 hover:bg-slate-900 rounded-lg"
+              >
+                <Square className="w-3 h-3 fill-white" />
+                Stop
+              </button>
+            ) : (
+              <>
+                {failed.length > 0 && (
+                  <button
+                    onClick={() => onRun(failed)}
+                    disabled={!!runBlocker}
+                    className="flex items-center gap-1.5 px-3 py-1.5 text-[11px] font-bold text-red-600 hover:bg-red-50 rounded-lg disabled:opacity-50"
+                  >
+                    <RotateCcw className="w-3 h-3" />
+                    Rerun {failed.length} failed
+                  </button>
+                )}
+                <button
+                  onClick={() => onRun(unanswered)}
+                  disabled={!!runBlocker || unanswered.length === 0}
+                  className="flex items-center gap-1.5 px-3 py-1.5 text-[11px] font-bold text-white bg-indigo-600 hover:bg-indigo-700 rounded-lg shadow-sm disabled:opacity-50"
+                  title={runBlocker}
+                >
+                  <Play className="w-3 h-3" />
+                  Run {unanswered.length > 0 && unanswered.length}
+                </button>
+              </>
+            )}
+            <button
+              onClick={onExport}
+              disabled={answered.length === 0}
+              className="p-1.5 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded-lg disabled:opacity-50"
+              title="Export as CSV"
+            >
+              <FileSpreadsheet className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+
+        {isEditorOpen && (
+          <div className="space-y-2">
+            <textarea
+              value={draft}
+              onChange={e => setDraft(e.target.value)}
+              placeholder={'One question per line, e.g.\nWho are the parties?\nWhen does the agreement terminate?'}
+              rows={6}
+              disabled={isRunning}
+              className="w-full px-3 py-2 text-xs rounded-xl border border-slate-200 bg-white focus:outline-none focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-300 resize-y disabled:bg-slate-50"
+              aria-label="Questions"
+            />
+            <div className="flex items-center justify-between gap-2">
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                disabled={isRunning}
+                className="flex items-center gap-1.5 px-2 py-1 text-[11px] font-bold text-slate-500 hover:bg-slate-100 rounded-lg disabled:opacity-50"
+              >
+                <Upload className="w-3.5 h-3.5" />
+                Import .txt, .csv or .json
+              </button>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".txt,.md,.csv,.json"
+                className="hidden"
+                onChange={e => {
+                  const file = e.target.files?.[0];
+                  e.target.value = '';
+                  if (file) handleImport(file);
+                }}
+              />
+              <button
+                onClick={() => {
+                  onQuestionsChange(draftQuestions);
+                  setDraft(draftQuestions.join('\n'));
+                }}
+                disabled={isRunning || !isDraftChanged}
+                className="px-3 py-1 text-[11px] font-bold text-white bg-indigo-600 hover:bg-indigo-700 rounded-lg disabled:opacity-50"
+              >
+                Save {draftQuestions.length} question{draftQuestions.length === 1 ? '' : 's'}
+              </button>
+            </div>
+            {importError && <p className="text-[11px] text-red-600">{importError}</p>}
+            {isDraftChanged && batch.cells.length > 0 && (
+              <p className="text-[10px] text-slate-400">Answers to unchanged questions are kept; removed questions lose theirs.</p>
+            )}
+          </div>
+        )}
+        {runBlocker && <p className="text-[11px] text-amber-600">{runBlocker}</p>}
+      </div>
+
+      <div className="flex-1 overflow-auto custom-scrollbar">
+        {batch.questions.length === 0 ? (
+          <div className="h-full flex flex-col items-center justify-center text-center px-4 text-slate-400">
+            <ListChecks className="w-8 h-8 mb-3 text-slate-300" />
+            <p className="text-sm">Paste or import a checklist of questions to ask of every document.</p>
+          </div>
+        ) : (
+          <table className="w-full text-xs border-collapse">
+            <thead className="sticky top-0 z-10 bg-slate-50">
+              <tr>
+                <th className="sticky left-0 bg-slate-50 px-3 py-2 text-left font-bold text-slate-500 border-b border-slate-200 min-w-[220px]">Question</th>
+                {columns.map(col => (
+                  <th key={col.fileId ?? 'workspace'} className="px-3 py-2 text-left font-bold text-slate-500 border-b border-slate-200 min-w-[200px] max-w-[280px]">
+                    <span className="block truncate" title={col.name}>{col.name}</span>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {batch.questions.map(question => (
+                <tr key={question.id} className="align-top">
+                  <td className="sticky left-0 bg-white px-3 py-2 font-semibold text-slate-700 border-b border-slate-100">{question.text}</td>
+                  {columns.map(col => {
+                    const target = { questionId: question.id, fileId: col.fileId };
+                    const cell = cellOf(target);
+                    const isSelected = selected?.questionId === question.id && selected.fileId === col.fileId;
+                    return (
+                      <td key={col.fileId ?? 'workspace'} className="p-1 border-b border-slate-100 max-w-[280px]">
+                        <button
+                          onClick={() => setSelected(isSelected ? null : target)}
+                          className={`w-full flex items-start gap-1.5 px-2 py-1.5 rounded-md text-left transition-colors ${
+                            isSelected ? 'bg-indigo-50 ring-1 ring-indigo-200' : 'hover:bg-slate-100'
+                          }`}
+                        >
+                          <span className="mt-0.5"><StatusIcon cell={cell} /></span>
+                          <span className={`line-clamp-3 ${cell?.status === 'error' ? 'text-red-600' : 'text-slate-600'}`}>
+                            {cell?.status === 'error' ? cell.error : cell?.answer}
+                          </span>
+                        </button>
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {selected && selectedQuestion && (
+        <div className="max-h-[45%] overflow-y-auto border-t border-slate-200 bg-slate-50/60 px-4 md:px-8 py-4 shrink-0 custom-scrollbar animate-fadeIn">
+          <div className="flex items-start justify-between gap-3 mb-3">
+            <div className="min-w-0">
+              <p className="text-xs font-bold text-slate-700">{selectedQuestion.text}</p>
+              <p className="text-[10px] text-slate-400 truncate">{selectedColumn?.name}</p>
+            </div>
+            <div className="flex items-center gap-1 shrink-0">
+              {selectedCell?.status !== 'pending' && selectedCell?.status !== 'running' && (
+                <button
+                  onClick={() => onRun([selected])}
+                  disabled={isRunning || !!runBlocker}
+                  className="flex items-center gap-1.5 px-2 py-1 text-[11px] font-bold text-slate-500 hover:bg-slate-100 rounded-lg disabled:opacity-50"
+                >
+                  <RotateCcw className="w-3 h-3" />
+                  {selectedCell ? 'Ask again' : 'Ask'}
+                </button>
+              )}
+              <button onClick={() => setSelected(null)} className="p-1 text-slate-400 hover:bg-slate-100 rounded-lg" title="Close">
+                <X className="w-3.5 h-3.5" />
+              </button>
+            </div>
+          </div>
+          {selectedCell?.status === 'done' ? (
+            <ChatMessageBubble
+              message={{
+                id: `${selected.questionId}:${selected.fileId ?? 'workspace'}`,
+                role: MessageRole.MODEL,
+                text: selectedCell.answer ?? '',
+                timestamp: selectedCell.answeredAt ?? Date.now(),
+                generation: selectedCell.generation,
+                groundingMetadata: selectedCell.groundingMetadata
+              }}
+              files={files}
+              onOpenSource={onOpenSource}
+            />
+          ) : selectedCell?.status === 'error' ? (
+            <p className="text-xs text-red-600">{selectedCell.error}</p>
+          ) : (
+            <p className="text-xs text-slate-400">{selectedCell ? 'Waiting for an answer…' : 'Not asked yet.'}</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,100 @@
+import React, { useState } from 'react';
+import { Loader2, PackageOpen, X } from 'lucide-react';
+import { Workspace } from '../types';
+
+interface BundleExportDialogProps {
+  workspace: Workspace;
+  onExport: (includeFiles: boolean) => Promise<void>;
+  onClose: () => void;
+}
+
+const formatSize = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)} MB` : `${(bytes / 1024).toFixed(1)} KB`;
+
+/** Choose what goes into a workspace bundle and download it. */
+export const BundleExportDialog: React.FC<BundleExportDialogProps> = ({ workspace, onExport, onClose }) => {
+  const [includeFiles, setIncludeFiles] = useState(true);
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const stored = workspace.files.filter(f => f.fileHandle);
+  const storedSize = stored.reduce((sum, f) => sum + f.fileHandle!.size, 0);
+  const messageCount = workspace.threads.reduce((n, t) => n + t.messages.length, 0);
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    setError(null);
+    try {
+      await onExport(includeFiles);
+      onClose();
+    } catch (e: any) {
+      setError(e.message || 'The bundle could not be created.');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/30 backdrop-blur-sm p-4 animate-fadeIn" onClick={isExporting ? undefined : onClose}>
+      <div
+        className="w-full max-w-md bg-white rounded-3xl shadow-2xl border border-slate-200 overflow-hidden flex flex-col"
+        onClick={e => e.stopPropagation()}
+        role="dialog"
+        aria-label="Export workspace"
+      >
+        <div className="px-6 py-4 border-b border-slate-100 flex items-center justify-between">
+          <h2 className="font-bold text-slate-800 flex items-center gap-2">
+            <PackageOpen className="w-4 h-4 text-indigo-500" />
+            Export "{workspace.name}"
+          </h2>
+          <button onClick={onClose} disabled={isExporting} className="p-1.5 hover:bg-slate-100 rounded-lg text-slate-400 disabled:opacity-50">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="px-6 py-5 space-y-4 text-xs text-slate-600">
+          <p>
+            The bundle holds {workspace.files.length} document record{workspace.files.length === 1 ? '' : 's'} with their tags,
+            {' '}{workspace.threads.length} conversation{workspace.threads.length === 1 ? '' : 's'} ({messageCount} messages),
+            workspace settings and your custom prompts. Teammates can import it to rebuild the workspace.
+          </p>
+          <label className="flex items-start gap-3 p-3 rounded-2xl border border-slate-100 bg-slate-50/50 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={includeFiles}
+              onChange={e => setIncludeFiles(e.target.checked)}
+              className="mt-0.5 rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
+            />
+            <span>
+              <span className="block font-semibold text-slate-700">Include the original files</span>
+              <span className="text-[11px] text-slate-400">
+                {stored.length} file{stored.length === 1 ? '' : 's'}, {formatSize(storedSize)}. Without them the import
+                lists the documents but cannot index them.
+              </span>
+            </span>
+          </label>
+          {stored.length < workspace.files.length && (
+            <p className="text-[11px] text-amber-600">
+              {workspace.files.length - stored.length} file(s) are no longer stored locally and are exported as records only.
+            </p>
+          )}
+          {error && <p className="text-[11px] text-red-600">{error}</p>}
+        </div>
+
+        <div className="px-6 py-4 bg-slate-50/70 border-t border-slate-100 flex justify-end gap-2">
+          <button onClick={onClose} disabled={isExporting} className="text-xs font-bold text-slate-500 px-4 py-2 hover:bg-slate-100 rounded-xl transition-colors disabled:opacity-50">
+            Cancel
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={isExporting}
+            className="flex items-center gap-2 text-xs font-bold text-white bg-indigo-600 px-4 py-2 hover:bg-indigo-700 rounded-xl shadow-sm transition-colors disabled:opacity-60"
+          >
+            {isExporting && <Loader2 className="w-3.5 h-3.5 animate-spin" />}
+            {isExporting ? 'Packing…' : 'Download bundle'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,126 @@
+import React from 'react';
+import { AlertTriangle, CheckCircle2, Loader2, PackageOpen, X } from 'lucide-react';
+import { FileDocument } from '../types';
+import { BundleConflict } from '../services/bundleService';
+
+export interface BundleImportState {
+  phase: 'reading' | 'indexing' | 'failed';
+  read: { done: number; total: number };
+  workspaceId?: string; // The workspace created by the import
+  uploadIds: string[];
+  conflicts: BundleConflict[];
+  error?: string;
+}
+
+interface BundleImportDialogProps {
+  state: BundleImportState;
+  files: FileDocument[]; // Files of the imported workspace, for indexing progress
+  onClose: () => void;
+}
+
+const ProgressBar: React.FC<{ value: number; total: number }> = ({ value, total }) => (
+  <div className="h-1.5 rounded-full bg-slate-100 overflow-hidden">
+    <div className="h-full bg-indigo-500 transition-all duration-300" style={{ width: `${total ? (value / total) * 100 : 0}%` }} />
+  </div>
+);
+
+/** Progress of a workspace import, from reading the bundle to indexing its files, plus what had to change. */
+export const BundleImportDialog: React.FC<BundleImportDialogProps> = ({ state, files, onClose }) => {
+  const uploads = files.filter(f => state.uploadIds.includes(f.id));
+  const indexed = uploads.filter(f => f.status === 'active').length;
+  const failed = uploads.filter(f => f.status === 'error');
+  const settled = indexed + failed.length;
+  const isDone = state.phase === 'indexing' && settled >= uploads.length;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/30 backdrop-blur-sm p-4 animate-fadeIn">
+      <div
+        className="w-full max-w-md bg-white rounded-3xl shadow-2xl border border-slate-200 overflow-hidden flex flex-col max-h-[80vh]"
+        role="dialog"
+        aria-label="Import workspace"
+      >
+        <div className="px-6 py-4 border-b border-slate-100 flex items-center justify-between shrink-0">
+          <h2 className="font-bold text-slate-800 flex items-center gap-2">
+            <PackageOpen className="w-4 h-4 text-indigo-500" />
+            Import workspace
+          </h2>
+          <button onClick={onClose} disabled={state.phase === 'reading'} className="p-1.5 hover:bg-slate-100 rounded-lg text-slate-400 disabled:opacity-50">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="px-6 py-5 space-y-5 overflow-y-auto text-xs text-slate-600">
+          {state.phase === 'failed' ? (
+            <p className="flex items-start gap-2 text-red-600">
+              <AlertTriangle className="w-4 h-4 shrink-0" />
+              {state.error}
+            </p>
+          ) : (
+            <>
+              <div className="space-y-2">
+                <div className="flex items-center justify-between font-semibold">
+                  <span className="flex items-center gap-2">
+                    {state.phase === 'reading' ? <Loader2 className="w-3.5 h-3.5 animate-spin text-indigo-500" /> : <CheckCircle2 className="w-3.5 h-3.5 text-emerald-500" />}
+                    Reading bundle
+                  </span>
+                  <span className="text-slate-400">{state.read.done} / {state.read.total} files</span>
+                </div>
+                <ProgressBar value={state.read.done} total={state.read.total} />
+              </div>
+
+              {state.phase === 'indexing' && uploads.length > 0 && (
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between font-semibold">
+                    <span className="flex items-center gap-2">
+                      {isDone ? <CheckCircle2 className="w-3.5 h-3.5 text-emerald-500" /> : <Loader2 className="w-3.5 h-3.5 animate-spin text-indigo-500" />}
+                      Uploading and indexing
+                    </span>
+                    <span className="text-slate-400">{indexed} / {uploads.length} indexed</span>
+                  </div>
+                  <ProgressBar value={settled} total={uploads.length} />
+                  {failed.length > 0 && (
+                    <p className="text-[11px] text-red-600">
+                      {failed.length} failed; retry {failed.length === 1 ? 'it' : 'them'} from the sidebar.
+                    </p>
+                  )}
+                  {!isDone && <p className="text-[11px] text-slate-400">You can close this window; uploads continue in the background.</p>}
+                </div>
+              )}
+
+              {state.phase === 'indexing' && (
+                state.conflicts.length > 0 ? (
+                  <div className="space-y-2">
+                    <p className="font-semibold text-amber-700 flex items-center gap-2">
+                      <AlertTriangle className="w-3.5 h-3.5" />
+                      {state.conflicts.length} conflict{state.conflicts.length === 1 ? '' : 's'}
+                    </p>
+                    <ul className="space-y-1.5">
+                      {state.conflicts.map((conflict, i) => (
+                        <li key={i} className="p-2.5 rounded-xl bg-amber-50/60 border border-amber-100">
+                          <span className="block font-semibold text-slate-700 truncate" title={conflict.subject}>{conflict.subject}</span>
+                          <span className="text-[11px] text-slate-500">{conflict.resolution}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                ) : (
+                  <p className="text-[11px] text-slate-400">Everything was imported as it was exported.</p>
+                )
+              )}
+            </>
+          )}
+        </div>
+
+        <div className="px-6 py-4 bg-slate-50/70 border-t border-slate-100 flex justify-end shrink-0">
+          <button
+            onClick={onClose}
+            disabled={state.phase === 'reading'}
+            className="text-xs font-bold text-white bg-indigo-600 px-4 py-2 hover:bg-indigo-700 rounded-xl shadow-sm transition-colors disabled:opacity-50"
+          >
+            {isDone || state.phase === 'failed' ? 'Done' : 'Close'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
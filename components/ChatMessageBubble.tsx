@@ -1,16 +1,90 @@
 import React from 'react';
-import ReactMarkdown from 'react-markdown';
-import { Bot, User, Copy, Check, Globe, ExternalLink, Sparkles } from 'lucide-react';
-import { ChatMessage, MessageRole } from '../types';
+import ReactMarkdown, { defaultUrlTransform } from 'react-markdown';
+import { 
+  Bot, User, Copy, Check, Globe, ExternalLink, Sparkles, ChevronDown, AlertTriangle,
+  ChevronLeft, ChevronRight, Pencil, RefreshCw, History, Filter, AtSign
+} from 'lucide-react';
+import { 
+  ChatMessage, MessageRole, SourceReference, FileDocument, GenerationSettings 
+} from '../types';
 import { MarkdownErrorBoundary } from './MarkdownErrorBoundary';
+import { FileIcon } from './FileIcon';
+import { 
+  CITATION_PROTOCOL, citationNameFromHref, linkifyCitations, extractCitedNames, resolveCitation, ResolvedCitation,
+  collectDocumentSources
+} from '../services/citationService';
+import { BranchInfo } from '../services/messageTree';
 
 interface ChatMessageBubbleProps {
   message: ChatMessage;
+  files?: FileDocument[];
+  branch?: BranchInfo;
+  isBusy?: boolean; // Another turn is streaming, so edits and re-rolls are disabled
+  onOpenSource?: (source: SourceReference) => void;
+  onSwitchBranch?: (direction: -1 | 1) => void;
+  onEdit?: (text: string) => void;
+  onRegenerate?: () => void;
 }
 
-export const ChatMessageBubble: React.FC<ChatMessageBubbleProps> = ({ message }) => {
+/** "spec.md · v2", or a placeholder once that version has been deleted. */
+const versionLabel = (file?: FileDocument) => file ? `${file.name} · v${file.version ?? 1}` : 'Deleted version';
+
+const urlTransform = (url: string) => url.startsWith(CITATION_PROTOCOL) ? url : defaultUrlTransform(url);
+
+/** Tooltip text listing the parameters an answer was generated with. */
+const describeGeneration = (settings: GenerationSettings) => [
+  `Model: ${settings.modelId}`,
+  `Temperature: ${settings.temperature ?? 'default'}`,
+  `Max output tokens: ${settings.maxOutputTokens ?? 'default'}`,
+  `Thinking budget: ${settings.thinkingBudget ?? 'default'}`
+].join('\n');
+
+const CITATION_CHIP_STYLES: Record<ResolvedCitation['status'], string> = {
+  active: 'bg-indigo-50 text-indigo-700 border-indigo-100 hover:bg-indigo-100 hover:border-indigo-200',
+  inactive: 'bg-amber-50 text-amber-700 border-amber-200 hover:bg-amber-100',
+  missing: 'bg-red-50 text-red-700 border-red-200 line-through decoration-red-300 cursor-not-allowed'
+};
+
+const CITATION_CHIP_TITLES: Record<ResolvedCitation['status'], string> = {
+  active: 'Open this document',
+  inactive: 'Cited document is not indexed right now',
+  missing: 'Cited document does not exist in this workspace'
+};
+
+const CitationChip: React.FC<{ citation: ResolvedCitation; onOpen?: () => void }> = ({ citation, onOpen }) => (
+  <button
+    type="button"
+    onClick={citation.status === 'missing' ? undefined : onOpen}
+    className={`inline-flex items-center gap-1 align-baseline mx-0.5 px-1.5 py-0.5 rounded-md border text-[11px] font-semibold not-italic no-underline transition-colors ${CITATION_CHIP_STYLES[citation.status]}`}
+    title={CITATION_CHIP_TITLES[citation.status]}
+  >
+    {citation.status === 'active'
+      ? <FileIcon fileName={citation.name} className="w-3 h-3" />
+      : <AlertTriangle className="w-3 h-3" />}
+    <span className="truncate max-w-[180px]">{citation.name}</span>
+  </button>
+);
+
+export const ChatMessageBubble: React.FC<ChatMessageBubbleProps> = ({ 
+  message, files = [], branch, isBusy, onOpenSource, onSwitchBranch, onEdit, onRegenerate 
+}) => {
   const isUser = message.role === MessageRole.USER;
   const [copied, setCopied] = React.useState(false);
+  const [expandedSource, setExpandedSource] = React.useState<string | null>(null);
+  const [isEditing, setIsEditing] = React.useState(false);
+  const [draft, setDraft] = React.useState(message.text);
+
+  const startEditing = () => {
+    setDraft(message.text);
+    setIsEditing(true);
+  };
+
+  const submitEdit = () => {
+    const text = draft.trim();
+    if (!text || isBusy) return;
+    setIsEditing(false);
+    if (text !== message.text) onEdit?.(text);
+  };
 
   const handleCopy = () => {
     navigator.clipboard.writeText(message.text);
@@ -22,6 +96,18 @@ export const ChatMessageBubble: React.FC<ChatMessageBubbleProps> = ({ message })
   
   // Filter for valid web citations to display in the footer
   const webCitations = groundingChunks.filter(chunk => chunk.web?.uri && chunk.web?.title);
+  const documentSources = React.useMemo(
+    () => collectDocumentSources(message.groundingMetadata),
+    [message.groundingMetadata]
+  );
+
+  const markdown = React.useMemo(() => isUser ? message.text : linkifyCitations(message.text), [isUser, message.text]);
+  const unverifiedCitations = React.useMemo(
+    () => isUser ? [] : extractCitedNames(message.text)
+      .map(name => resolveCitation(files, name))
+      .filter(c => c.status !== 'active'),
+    [isUser, message.text, files]
+  );
 
   return (
     <div 
@@ -49,6 +135,50 @@ export const ChatMessageBubble: React.FC<ChatMessageBubbleProps> = ({ message })
               <span className="text-[10px] font-medium text-slate-400">
                 {new Date(message.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
               </span>
+              {!isUser && message.generation && (
+                <span 
+                  className="text-[10px] font-mono text-slate-400 bg-slate-50 border border-slate-100 px-1.5 py-0.5 rounded cursor-help"
+                  title={describeGeneration(message.generation)}
+                >
+                  {message.generation.modelId}
+                </span>
+              )}
+              {message.isStopped && (
+                <span className="text-[9px] font-bold uppercase tracking-wider text-amber-600 bg-amber-50 border border-amber-100 px-1.5 py-0.5 rounded">
+                  Stopped
+                </span>
+              )}
+              {isUser && message.versionFileId && (
+                <span 
+                  className="flex items-center gap-1 text-[10px] font-semibold text-violet-600 bg-violet-50 border border-violet-100 px-1.5 py-0.5 rounded max-w-[220px]"
+                  title="Asked directly against this version instead of the search index"
+                >
+                  <History className="w-3 h-3 shrink-0" />
+                  <span className="truncate">{versionLabel(files.find(f => f.id === message.versionFileId))}</span>
+                </span>
+              )}
+              {isUser && message.scopeFileIds && message.scopeFileIds.length > 0 && (
+                <span 
+                  className="flex items-center gap-1 text-[10px] font-semibold text-indigo-600 bg-indigo-50 border border-indigo-100 px-1.5 py-0.5 rounded max-w-[220px]"
+                  title={`Answered only from:\n${message.scopeFileIds.map(id => files.find(f => f.id === id)?.name ?? 'Deleted file').join('\n')}`}
+                >
+                  <AtSign className="w-3 h-3 shrink-0" />
+                  <span className="truncate">
+                    {message.scopeFileIds.length === 1
+                      ? files.find(f => f.id === message.scopeFileIds![0])?.name ?? 'Deleted file'
+                      : `${message.scopeFileIds.length} files`}
+                  </span>
+                </span>
+              )}
+              {isUser && message.metadataFilter && (
+                <span 
+                  className="flex items-center gap-1 text-[10px] font-mono text-sky-700 bg-sky-50 border border-sky-100 px-1.5 py-0.5 rounded max-w-[220px]"
+                  title={`Only documents matching ${message.metadataFilter} were searched`}
+                >
+                  <Filter className="w-3 h-3 shrink-0" />
+                  <span className="truncate">{message.metadataFilter}</span>
+                </span>
+              )}
            </div>
 
           {/* Bubble */}
@@ -57,7 +187,39 @@ export const ChatMessageBubble: React.FC<ChatMessageBubbleProps> = ({ message })
               ? 'bg-gradient-to-br from-indigo-600 to-violet-600 text-white rounded-tr-sm shadow-indigo-500/20 shadow-md' 
               : 'bg-white border border-slate-100 text-slate-800 rounded-tl-sm shadow-sm'
           }`}>
-            {isUser ? (
+            {isUser && isEditing ? (
+              <div className="flex flex-col gap-3 min-w-[240px]">
+                <textarea
+                  value={draft}
+                  onChange={e => setDraft(e.target.value)}
+                  onKeyDown={e => {
+                    if (e.key === 'Enter' && !e.shiftKey) {
+                      e.preventDefault();
+                      submitEdit();
+                    }
+                    if (e.key === 'Escape') setIsEditing(false);
+                  }}
+                  autoFocus
+                  rows={Math.min(8, Math.max(2, draft.split('\n').length))}
+                  className="w-full bg-white/10 border border-white/20 rounded-xl px-3 py-2 text-white placeholder:text-white/50 focus:outline-none focus:ring-2 focus:ring-white/30 resize-none font-medium"
+                />
+                <div className="flex justify-end gap-2">
+                  <button
+                    onClick={() => setIsEditing(false)}
+                    className="text-[11px] font-bold px-3 py-1.5 rounded-lg text-white/80 hover:bg-white/10 transition-colors"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    onClick={submitEdit}
+                    disabled={!draft.trim() || isBusy}
+                    className="text-[11px] font-bold px-3 py-1.5 rounded-lg bg-white text-indigo-700 hover:bg-indigo-50 disabled:opacity-50 transition-colors"
+                  >
+                    Save & Submit
+                  </button>
+                </div>
+              </div>
+            ) : isUser ? (
               <div className="whitespace-pre-wrap font-medium tracking-wide">{message.text}</div>
             ) : (
               <>
@@ -66,6 +228,7 @@ export const ChatMessageBubble: React.FC<ChatMessageBubbleProps> = ({ message })
                 >
                   <div className="prose prose-sm prose-slate max-w-none dark:prose-invert font-normal">
                     <ReactMarkdown 
+                      urlTransform={urlTransform}
                       components={{
                         h1: ({node, ...props}) => <h1 className="text-xl font-bold text-slate-900 mb-4 mt-2" {...props} />,
                         h2: ({node, ...props}) => <h2 className="text-lg font-bold text-slate-800 mb-3 mt-6 border-b border-slate-100 pb-2" {...props} />,
@@ -75,6 +238,18 @@ export const ChatMessageBubble: React.FC<ChatMessageBubbleProps> = ({ message })
                         ol: ({node, ...props}) => <ol className="list-decimal list-outside ml-4 mb-4 space-y-1 text-slate-600" {...props} />,
                         li: ({node, ...props}) => <li className="pl-1" {...props} />,
                         strong: ({node, ...props}) => <strong className="font-semibold text-slate-900" {...props} />,
+                        a: ({node, href, children, ...props}) => {
+                          if (href?.startsWith(CITATION_PROTOCOL)) {
+                            const citation = resolveCitation(files, citationNameFromHref(href));
+                            return (
+                              <CitationChip 
+                                citation={citation} 
+                                onOpen={() => citation.file && onOpenSource?.({ documentName: citation.file.name })} 
+                              />
+                            );
+                          }
+                          return <a href={href} target="_blank" rel="noopener noreferrer" className="text-indigo-600 underline underline-offset-2" {...props}>{children}</a>;
+                        },
                         code({node, className, children, ...props}) {
                           const match = /language-(\w+)/.exec(className || '')
                           return match ? (
@@ -127,17 +302,79 @@ export const ChatMessageBubble: React.FC<ChatMessageBubbleProps> = ({ message })
                         }
                       }}
                     >
-                      {message.text}
+                      {markdown}
                     </ReactMarkdown>
+                    {message.isStopped && !message.text && (
+                      <p className="text-xs italic text-slate-400">Generation was stopped before any text arrived.</p>
+                    )}
                   </div>
                 </MarkdownErrorBoundary>
 
-                {webCitations.length > 0 && (
+                {!message.isStreaming && unverifiedCitations.length > 0 && (
+                  <div className="mt-4 p-3 rounded-xl bg-red-50/70 border border-red-100 flex items-start gap-2 text-xs text-red-800">
+                    <AlertTriangle className="w-4 h-4 shrink-0 mt-0.5 text-red-500" />
+                    <div className="space-y-1">
+                      <p className="font-bold">Unverified citations</p>
+                      {unverifiedCitations.map(c => (
+                        <p key={c.name} className="text-[11px]">
+                          <span className="font-semibold">{c.name}</span>
+                          {c.status === 'missing'
+                            ? ' is not a document in this workspace. Treat the claims citing it with caution.'
+                            : ` exists but is not indexed (${c.file?.status || 'unknown'}), so it could not have been retrieved.`}
+                        </p>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                {(webCitations.length > 0 || documentSources.length > 0) && (
                   <div className="mt-5 pt-4 border-t border-slate-100/80">
                     <h4 className="text-[10px] uppercase font-bold text-slate-400 mb-3 flex items-center gap-2 tracking-widest">
                       <Sparkles className="w-3 h-3 text-indigo-400" />
                       Verified Sources
                     </h4>
+                    {documentSources.length > 0 && (
+                      <div className="space-y-2 mb-2">
+                        {documentSources.map(source => {
+                          const isExpanded = expandedSource === source.title;
+                          return (
+                            <div key={source.title} className="rounded-xl border border-slate-200 bg-white shadow-sm overflow-hidden">
+                              <button
+                                onClick={() => setExpandedSource(isExpanded ? null : source.title)}
+                                className="w-full flex items-center gap-2 px-3 py-2 hover:bg-slate-50 transition-colors"
+                                aria-expanded={isExpanded}
+                              >
+                                <FileIcon fileName={source.title} className="w-3.5 h-3.5 shrink-0" />
+                                <span className="text-[11px] font-semibold text-slate-600 truncate flex-1 text-left">{source.title}</span>
+                                <span className="text-[10px] font-medium text-slate-400 shrink-0">
+                                  {source.passages.length} {source.passages.length === 1 ? 'passage' : 'passages'}
+                                </span>
+                                <ChevronDown className={`w-3 h-3 text-slate-400 transition-transform ${isExpanded ? 'rotate-180' : ''}`} />
+                              </button>
+                              {isExpanded && (
+                                <div className="border-t border-slate-100 divide-y divide-slate-100">
+                                  {source.passages.map((passage, idx) => (
+                                    <button
+                                      key={idx}
+                                      onClick={() => onOpenSource?.({ documentName: source.title, passage: passage.text, pageNumber: passage.pageNumber })}
+                                      className="w-full text-left px-3 py-2.5 hover:bg-indigo-50/40 transition-colors group/passage"
+                                      title="Show this passage in the document"
+                                    >
+                                      <p className="text-[11px] text-slate-500 leading-relaxed italic line-clamp-3">&ldquo;{passage.text}&rdquo;</p>
+                                      <span className="mt-1 inline-block text-[10px] font-semibold text-indigo-500 opacity-60 group-hover/passage:opacity-100">
+                                        {passage.pageNumber ? `Page ${passage.pageNumber} · ` : ''}
+                                        {passage.supportCount > 0 ? `Supports ${passage.supportCount} ${passage.supportCount === 1 ? 'claim' : 'claims'} · ` : ''}
+                                        Show in document
+                                      </span>
+                                    </button>
+                                  ))}
+                                </div>
+                              )}
+                            </div>
+                          );
+                        })}
+                      </div>
+                    )}
                     <div className="flex flex-wrap gap-2">
                       {webCitations.map((chunk, idx) => (
                         <a 
@@ -160,17 +397,62 @@ export const ChatMessageBubble: React.FC<ChatMessageBubbleProps> = ({ message })
           </div>
           
           {/* Actions */}
-          <div className={`flex items-center gap-2 mt-1 opacity-0 group-hover:opacity-100 transition-opacity duration-200 ${isUser ? 'flex-row-reverse px-2' : 'px-2'}`}>
-            {!isUser && (
-              <button 
-                onClick={handleCopy}
-                className="flex items-center gap-1.5 px-2 py-1 text-[10px] font-medium text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 rounded-md transition-colors"
-                title="Copy response"
-              >
-                {copied ? <Check className="w-3 h-3 text-green-500" /> : <Copy className="w-3 h-3" />}
-                {copied ? 'Copied' : 'Copy'}
-              </button>
+          <div className={`flex items-center gap-2 mt-1 ${isUser ? 'flex-row-reverse px-2' : 'px-2'}`}>
+            {branch && (
+              <div className="flex items-center gap-0.5 text-[10px] font-semibold text-slate-400" aria-label="Switch between alternatives">
+                <button
+                  onClick={() => onSwitchBranch?.(-1)}
+                  disabled={branch.index === 0 || isBusy}
+                  className="p-0.5 rounded hover:bg-slate-100 hover:text-indigo-600 disabled:opacity-30 disabled:hover:bg-transparent transition-colors"
+                  title="Previous version"
+                >
+                  <ChevronLeft className="w-3.5 h-3.5" />
+                </button>
+                <span className="tabular-nums min-w-[28px] text-center">{branch.index + 1}/{branch.count}</span>
+                <button
+                  onClick={() => onSwitchBranch?.(1)}
+                  disabled={branch.index === branch.count - 1 || isBusy}
+                  className="p-0.5 rounded hover:bg-slate-100 hover:text-indigo-600 disabled:opacity-30 disabled:hover:bg-transparent transition-colors"
+                  title="Next version"
+                >
+                  <ChevronRight className="w-3.5 h-3.5" />
+                </button>
+              </div>
             )}
+            <div className={`flex items-center gap-2 opacity-0 group-hover:opacity-100 transition-opacity duration-200 ${isUser ? 'flex-row-reverse' : ''}`}>
+              {isUser && onEdit && !isEditing && (
+                <button 
+                  onClick={startEditing}
+                  disabled={isBusy}
+                  className="flex items-center gap-1.5 px-2 py-1 text-[10px] font-medium text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 rounded-md transition-colors disabled:opacity-40"
+                  title="Edit and resend"
+                >
+                  <Pencil className="w-3 h-3" />
+                  Edit
+                </button>
+              )}
+              {!isUser && (
+                <button 
+                  onClick={handleCopy}
+                  className="flex items-center gap-1.5 px-2 py-1 text-[10px] font-medium text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 rounded-md transition-colors"
+                  title="Copy response"
+                >
+                  {copied ? <Check className="w-3 h-3 text-green-500" /> : <Copy className="w-3 h-3" />}
+                  {copied ? 'Copied' : 'Copy'}
+                </button>
+              )}
+              {!isUser && onRegenerate && !message.isStreaming && (
+                <button 
+                  onClick={onRegenerate}
+                  disabled={isBusy}
+                  className="flex items-center gap-1.5 px-2 py-1 text-[10px] font-medium text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 rounded-md transition-colors disabled:opacity-40"
+                  title="Generate a new answer"
+                >
+                  <RefreshCw className="w-3 h-3" />
+                  Regenerate
+                </button>
+              )}
+            </div>
           </div>
         </div>
       </div>
@@ -0,0 +1,85 @@
+import React, { useMemo } from 'react';
+import hljs from 'highlight.js/lib/core';
+import javascript from 'highlight.js/lib/languages/javascript';
+import typescript from 'highlight.js/lib/languages/typescript';
+import python from 'highlight.js/lib/languages/python';
+import xml from 'highlight.js/lib/languages/xml';
+import css from 'highlight.js/lib/languages/css';
+import sql from 'highlight.js/lib/languages/sql';
+
+hljs.registerLanguage('javascript', javascript);
+hljs.registerLanguage('typescript', typescript);
+hljs.registerLanguage('python', python);
+hljs.registerLanguage('xml', xml);
+hljs.registerLanguage('css', css);
+hljs.registerLanguage('sql', sql);
+
+const LANGUAGE_BY_EXTENSION: Record<string, string> = {
+  '.js': 'javascript',
+  '.jsx': 'javascript',
+  '.ts': 'typescript',
+  '.tsx': 'typescript',
+  '.py': 'python',
+  '.html': 'xml',
+  '.xml': 'xml',
+  '.css': 'css',
+  '.sql': 'sql'
+};
+
+// Highlighting very large files freezes the tab; they are shown plain
+const MAX_HIGHLIGHT_LENGTH = 500_000;
+
+interface CodeViewProps {
+  content: string;
+  extension: string; // e.g. '.ts'; unknown extensions are shown as plain text
+}
+
+const escapeHtml = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+/**
+ * Split highlighted HTML into lines, closing the spans still open at each line break and
+ * reopening them on the next line so that multi-line tokens keep their colour.
+ */
+const splitHighlightedLines = (html: string): string[] => {
+  const lines: string[] = [];
+  const open: string[] = [];
+  let line = '';
+  for (const part of html.split(/(<span[^>]*>|<\/span>|\n)/)) {
+    if (part === '\n') {
+      lines.push(line + '</span>'.repeat(open.length));
+      line = open.join('');
+    } else {
+      if (part.startsWith('<span')) open.push(part);
+      else if (part === '</span>') open.pop();
+      line += part;
+    }
+  }
+  lines.push(line);
+  return lines;
+};
+
+/** Source code with syntax highlighting and line numbers. */
+export const CodeView: React.FC<CodeViewProps> = ({ content, extension }) => {
+  const lines = useMemo(() => {
+    const language = LANGUAGE_BY_EXTENSION[extension];
+    const html = language && content.length <= MAX_HIGHLIGHT_LENGTH
+      ? hljs.highlight(content, { language, ignoreIllegals: true }).value
+      : escapeHtml(content);
+    return splitHighlightedLines(html.replace(/\r\n?/g, '\n'));
+  }, [content, extension]);
+
+  return (
+    <div className="hljs-light text-xs font-mono leading-relaxed text-slate-700">
+      <table className="border-collapse w-full">
+        <tbody>
+          {lines.map((line, i) => (
+            <tr key={i} id={`line-${i + 1}`}>
+              <td className="pr-4 text-right text-slate-300 select-none align-top tabular-nums w-px" data-find-ignore>{i + 1}</td>
+              <td className="whitespace-pre-wrap break-words" dangerouslySetInnerHTML={{ __html: line || ' ' }} />
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
@@ -0,0 +1,161 @@
+import React from 'react';
+import { AlertCircle, ArrowLeftRight, Columns2, GitCompare, Loader2, Quote, RotateCcw, Square } from 'lucide-react';
+import { Comparison, ComparisonItem, FileDocument, SourceReference } from '../types';
+import { FileIcon } from './FileIcon';
+import { REPORT_SECTIONS, canDiff } from '../services/comparisonService';
+
+interface ComparisonPanelProps {
+  comparison?: Comparison;
+  left?: FileDocument; // Document A
+  right?: FileDocument; // Document B
+  isRunning: boolean;
+  onRun: () => void;
+  onStop: () => void;
+  onShowDiff: () => void;
+  onOpenSource: (source: SourceReference) => void;
+}
+
+const SECTION_STYLES: Record<(typeof REPORT_SECTIONS)[number]['key'], string> = {
+  contradictions: 'border-red-200 bg-red-50/50 text-red-700',
+  differences: 'border-amber-200 bg-amber-50/50 text-amber-700',
+  agreements: 'border-emerald-200 bg-emerald-50/50 text-emerald-700',
+  onlyInA: 'border-slate-200 bg-slate-50 text-slate-600',
+  onlyInB: 'border-slate-200 bg-slate-50 text-slate-600'
+};
+
+const DocumentLabel: React.FC<{ side: 'A' | 'B'; file?: FileDocument }> = ({ side, file }) => (
+  <span className="flex items-center gap-2 min-w-0 text-xs font-semibold text-slate-700" title={file?.name}>
+    <span className="w-5 h-5 shrink-0 flex items-center justify-center rounded-md bg-indigo-100 text-[10px] font-bold text-indigo-600">{side}</span>
+    {file ? (
+      <>
+        <FileIcon fileName={file.name} className="w-3.5 h-3.5 shrink-0" />
+        <span className="truncate">{file.name}</span>
+      </>
+    ) : (
+      <span className="text-slate-400 italic">No longer in this workspace</span>
+    )}
+  </span>
+);
+
+/** A structured report on how two documents relate, every finding citing both sides where it can. */
+export const ComparisonPanel: React.FC<ComparisonPanelProps> = ({
+  comparison, left, right, isRunning, onRun, onStop, onShowDiff, onOpenSource
+}) => {
+  if (!comparison) {
+    return (
+      <div className="h-full flex flex-col items-center justify-center text-center px-4 text-slate-400">
+        <GitCompare className="w-8 h-8 mb-3 text-slate-300" />
+        <p className="text-sm">Select two files in the sidebar and press Compare.</p>
+      </div>
+    );
+  }
+
+  const report = comparison.report;
+  const cite = (file: FileDocument | undefined, side: 'A' | 'B', item: ComparisonItem) => {
+    const quote = item[`quote${side}`];
+    if (!quote) return null;
+    const page = item[`page${side}`];
+    return (
+      <button
+        key={side}
+        onClick={() => file && onOpenSource({ documentName: file.name, passage: quote, pageNumber: page })}
+        disabled={!file}
+        className="flex items-center gap-1 px-1.5 py-0.5 text-[10px] font-bold text-slate-500 bg-white border border-slate-200 rounded-md hover:text-indigo-600 hover:border-indigo-200 disabled:opacity-50"
+        title={`“${quote}”`}
+      >
+        <Quote className="w-2.5 h-2.5" />
+        {side}{page ? ` · p.${page}` : ''}
+      </button>
+    );
+  };
+
+  return (
+    <div className="h-full flex flex-col">
+      <div className="px-4 md:px-8 py-4 border-b border-slate-100 flex items-center justify-between gap-3 shrink-0">
+        <div className="flex items-center gap-3 min-w-0">
+          <DocumentLabel side="A" file={left} />
+          <ArrowLeftRight className="w-3.5 h-3.5 shrink-0 text-slate-300" />
+          <DocumentLabel side="B" file={right} />
+        </div>
+        <div className="flex items-center gap-2 shrink-0">
+          {left && right && canDiff(left, right) && (
+            <button
+              onClick={onShowDiff}
+              className="flex items-center gap-1.5 px-3 py-1.5 text-[11px] font-bold text-slate-500 hover:bg-slate-100 rounded-lg"
+              title="Show a line-by-line diff in the preview pane"
+            >
+              <Columns2 className="w-3 h-3" />
+              Line diff
+            </button>
+          )}
+          {isRunning ? (
+            <button
+              onClick={onStop}
+              className="flex items-center gap-1.5 px-3 py-1.5 text-[11px] font-bold text-white bg-slate-800 hover:bg-slate-900 rounded-lg"
+            >
+              <Square className="w-3 h-3 fill-white" />
+              Stop
+            </button>
+          ) : (
+            <button
+              onClick={onRun}
+              disabled={!left || !right}
+              className="flex items-center gap-1.5 px-3 py-1.5 text-[11px] font-bold text-white bg-indigo-600 hover:bg-indigo-700 rounded-lg shadow-sm disabled:opacity-50"
+            >
+              <RotateCcw className="w-3 h-3" />
+              Compare again
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto custom-scrollbar px-4 md:px-8 py-6">
+        {comparison.status === 'running' ? (
+          <div className="h-full flex flex-col items-center justify-center text-slate-400">
+            <Loader2 className="w-8 h-8 animate-spin mb-3 text-indigo-200" />
+            <span className="text-xs font-medium uppercase tracking-widest">Reading both documents...</span>
+          </div>
+        ) : comparison.status === 'error' ? (
+          <p className="flex items-start gap-2 text-xs text-red-600 font-medium p-4 bg-red-50 rounded-xl border border-red-100">
+            <AlertCircle className="w-4 h-4 shrink-0" />
+            {comparison.error || 'The comparison failed.'}
+          </p>
+        ) : report && (
+          <div className="max-w-3xl mx-auto space-y-6">
+            {report.summary && <p className="text-sm text-slate-700 leading-relaxed">{report.summary}</p>}
+            {REPORT_SECTIONS.map(({ key, title, hint }) => {
+              const items = report[key];
+              return (
+                <div key={key}>
+                  <h3 className="flex items-baseline gap-2 mb-2 text-xs font-bold text-slate-700">
+                    {title}
+                    <span className="text-[10px] font-semibold text-slate-400">{items.length}</span>
+                    <span className="text-[10px] font-normal text-slate-400">· {hint}</span>
+                  </h3>
+                  {items.length === 0 ? (
+                    <p className="text-[11px] text-slate-300">None found.</p>
+                  ) : (
+                    <ul className="space-y-2">
+                      {items.map((item, i) => (
+                        <li key={i} className={`px-3 py-2 rounded-xl border ${SECTION_STYLES[key]}`}>
+                          <div className="flex items-start justify-between gap-3">
+                            <span className="text-xs font-bold">{item.topic}</span>
+                            <span className="flex items-center gap-1 shrink-0">
+                              {cite(left, 'A', item)}
+                              {cite(right, 'B', item)}
+                            </span>
+                          </div>
+                          {item.detail && <p className="mt-1 text-xs text-slate-600 leading-relaxed">{item.detail}</p>}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
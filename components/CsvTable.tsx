@@ -0,0 +1,96 @@
+import React, { useMemo, useState } from 'react';
+import { ArrowDown, ArrowUp, Filter } from 'lucide-react';
+import { parseCsv } from '../services/csvService';
+
+interface CsvTableProps {
+  content: string;
+}
+
+// Rows rendered at once; filtering narrows large files down
+const MAX_VISIBLE_ROWS = 1000;
+
+type SortState = { column: number; direction: 1 | -1 } | null;
+
+const compareCells = (a = '', b = '') => {
+  const x = Number(a.replace(/,/g, ''));
+  const y = Number(b.replace(/,/g, ''));
+  if (a.trim() && b.trim() && !Number.isNaN(x) && !Number.isNaN(y)) return x - y;
+  return a.localeCompare(b, undefined, { numeric: true, sensitivity: 'base' });
+};
+
+/** CSV as a table with a header row, click-to-sort columns and a row filter. */
+export const CsvTable: React.FC<CsvTableProps> = ({ content }) => {
+  const [sort, setSort] = useState<SortState>(null);
+  const [filter, setFilter] = useState('');
+
+  const parsed = useMemo(() => parseCsv(content), [content]);
+  const header = parsed[0];
+  const rows = useMemo(() => parsed.slice(1), [parsed]);
+
+  const visibleRows = useMemo(() => {
+    const needle = filter.trim().toLowerCase();
+    // Keep each row's position in the file for the row-number column
+    let result = rows.map((cells, index) => ({ cells, index }));
+    if (needle) result = result.filter(({ cells }) => cells.some(cell => cell.toLowerCase().includes(needle)));
+    if (sort) result = [...result].sort((a, b) => sort.direction * compareCells(a.cells[sort.column], b.cells[sort.column]));
+    return result;
+  }, [rows, filter, sort]);
+
+  if (!header) return <p className="text-xs text-slate-400 italic">This file is empty.</p>;
+
+  const toggleSort = (column: number) => setSort(prev =>
+    prev?.column !== column ? { column, direction: 1 } : prev.direction === 1 ? { column, direction: -1 } : null);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2" data-find-ignore>
+        <div className="relative flex-1">
+          <Filter className="w-3 h-3 absolute left-2.5 top-1/2 -translate-y-1/2 text-slate-400" />
+          <input
+            value={filter}
+            onChange={e => setFilter(e.target.value)}
+            placeholder="Filter rows..."
+            className="w-full pl-7 pr-2 py-1.5 text-xs rounded-lg border border-slate-200 focus:outline-none focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-300"
+          />
+        </div>
+        <span className="text-[10px] font-semibold text-slate-400 shrink-0">
+          {visibleRows.length === rows.length ? `${rows.length} rows` : `${visibleRows.length} of ${rows.length} rows`}
+        </span>
+      </div>
+      <div className="overflow-auto border border-slate-200 rounded-xl max-h-[70vh]">
+        <table className="min-w-full text-xs">
+          <thead className="bg-slate-50 sticky top-0">
+            <tr>
+              <th className="px-2 py-2 text-right text-[10px] text-slate-300 font-medium" data-find-ignore>#</th>
+              {header.map((cell, column) => (
+                <th key={column} className="px-3 py-2 text-left font-bold text-slate-600 whitespace-nowrap border-l border-slate-100">
+                  <button onClick={() => toggleSort(column)} className="flex items-center gap-1 hover:text-indigo-600">
+                    {cell || `Column ${column + 1}`}
+                    {sort?.column === column && (sort.direction === 1
+                      ? <ArrowUp className="w-3 h-3" data-find-ignore />
+                      : <ArrowDown className="w-3 h-3" data-find-ignore />)}
+                  </button>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {visibleRows.slice(0, MAX_VISIBLE_ROWS).map(({ cells, index }) => (
+              <tr key={index} className="hover:bg-slate-50/60">
+                <td className="px-2 py-1.5 text-right text-[10px] text-slate-300 tabular-nums" data-find-ignore>{index + 2}</td>
+                {header.map((_, column) => (
+                  <td key={column} className="px-3 py-1.5 text-slate-600 align-top border-l border-slate-50">{cells[column] ?? ''}</td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      {visibleRows.length > MAX_VISIBLE_ROWS && (
+        <p className="text-[10px] text-slate-400 text-center">
+          Showing the first {MAX_VISIBLE_ROWS} rows. Filter to narrow down the rest.
+        </p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,263 @@
+import React, { useCallback, useEffect, useReducer, useRef, useState } from 'react';
+import ReactMarkdown from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import { Code2, Eye, Loader2, Quote, Search } from 'lucide-react';
+import { FileDocument } from '../types';
+import { CodeView } from './CodeView';
+import { CsvTable } from './CsvTable';
+import { FindBar } from './FindBar';
+import { JsonTree } from './JsonTree';
+import { PdfViewer } from './PdfViewer';
+import {
+  findTextRanges, paintHighlight, clearHighlight, passagePattern, queryPattern, scrollRangeIntoView
+} from '../services/domTextSearch';
+
+interface DocumentPreviewProps {
+  file: FileDocument;
+  content?: string; // Text of text-based files, loaded lazily
+  highlight?: string;
+  pageNumber?: number;
+  lineNumber?: number; // Narrows the highlight to that line where the view shows line numbers
+}
+
+type PreviewFormat = 'pdf' | 'csv' | 'json' | 'markdown' | 'code' | 'text';
+
+const FORMAT_LABELS: Record<PreviewFormat, string> = {
+  pdf: 'PDF',
+  csv: 'Table',
+  json: 'Tree',
+  markdown: 'Rendered',
+  code: 'Code',
+  text: 'Text'
+};
+
+// Formats that also offer their raw source
+const HAS_SOURCE_VIEW: PreviewFormat[] = ['csv', 'json', 'markdown'];
+
+// Quiet period after the rendered content changes before searches are redone
+const RESEARCH_DELAY_MS = 150;
+
+const formatOf = (file: FileDocument): PreviewFormat => {
+  if (file.mimeType === 'application/pdf') return 'pdf';
+  if (file.mimeType === 'text/csv') return 'csv';
+  if (file.mimeType === 'application/json') return 'json';
+  if (file.mimeType === 'text/markdown') return 'markdown';
+  if (file.type === '.txt') return 'text';
+  return 'code';
+};
+
+const MARKDOWN_COMPONENTS: React.ComponentProps<typeof ReactMarkdown>['components'] = {
+  h1: ({ node, ...props }) => <h1 className="text-xl font-bold text-slate-900 mb-4 mt-2" {...props} />,
+  h2: ({ node, ...props }) => <h2 className="text-lg font-bold text-slate-800 mb-3 mt-6 border-b border-slate-100 pb-2" {...props} />,
+  h3: ({ node, ...props }) => <h3 className="text-base font-bold text-slate-800 mb-2 mt-4" {...props} />,
+  h4: ({ node, ...props }) => <h4 className="text-sm font-bold text-slate-800 mb-2 mt-4" {...props} />,
+  p: ({ node, ...props }) => <p className="mb-3 text-slate-600 leading-7" {...props} />,
+  ul: ({ node, ...props }) => <ul className="list-disc list-outside ml-5 mb-3 space-y-1 text-slate-600" {...props} />,
+  ol: ({ node, ...props }) => <ol className="list-decimal list-outside ml-5 mb-3 space-y-1 text-slate-600" {...props} />,
+  a: ({ node, ...props }) => <a target="_blank" rel="noopener noreferrer" className="text-indigo-600 underline underline-offset-2" {...props} />,
+  code: ({ node, ...props }) => <code className="bg-slate-100 text-indigo-600 px-1 py-0.5 rounded font-mono text-[12px]" {...props} />,
+  pre: ({ node, ...props }) => <pre className="my-3 p-3 rounded-lg bg-slate-50 border border-slate-200 overflow-x-auto text-xs [&_code]:bg-transparent [&_code]:p-0 [&_code]:text-slate-700" {...props} />,
+  blockquote: ({ node, ...props }) => <blockquote className="border-l-4 border-indigo-200 pl-4 py-1 my-3 italic text-slate-500" {...props} />,
+  table: ({ node, ...props }) => (
+    <div className="my-4 overflow-x-auto border border-slate-200 rounded-xl">
+      <table className="min-w-full divide-y divide-slate-200 text-xs" {...props} />
+    </div>
+  ),
+  th: ({ node, ...props }) => <th className="px-3 py-2 bg-slate-50 text-left font-bold text-slate-600" {...props} />,
+  td: ({ node, ...props }) => <td className="px-3 py-2 text-slate-600 border-t border-slate-100 align-top" {...props} />
+};
+
+/** Fall back to the text selection where the CSS Custom Highlight API is unavailable. */
+const selectRange = (range: Range) => {
+  const selection = window.getSelection();
+  selection?.removeAllRanges();
+  selection?.addRange(range);
+};
+
+/**
+ * Format-aware viewer for a workspace file, with find-in-document and cited-passage highlighting.
+ * Searches run over whatever the viewer rendered, so they match what the user sees.
+ */
+export const DocumentPreview: React.FC<DocumentPreviewProps> = ({ file, content, highlight, pageNumber, lineNumber }) => {
+  const format = formatOf(file);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [showSource, setShowSource] = useState(false);
+  const [isFindOpen, setIsFindOpen] = useState(false);
+  const [query, setQuery] = useState('');
+  const [matches, setMatches] = useState<Range[]>([]);
+  const [current, setCurrent] = useState(0);
+  const [citedFound, setCitedFound] = useState(true);
+  // Bumped whenever the rendered DOM changes (PDF text layers, table filters, tree toggles)
+  const [renderVersion, bumpRenderVersion] = useReducer((n: number) => n + 1, 0);
+  const scrollPendingRef = useRef(false);
+  const citedScrolledRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    setShowSource(false);
+    setIsFindOpen(false);
+    setQuery('');
+  }, [file.id]);
+
+  useEffect(() => {
+    const root = containerRef.current;
+    if (!root) return;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const observer = new MutationObserver(() => {
+      clearTimeout(timer);
+      timer = setTimeout(bumpRenderVersion, RESEARCH_DELAY_MS);
+    });
+    observer.observe(root, { childList: true, subtree: true, characterData: true });
+    return () => {
+      observer.disconnect();
+      clearTimeout(timer);
+    };
+  }, []);
+
+  useEffect(() => () => {
+    clearHighlight('find-match');
+    clearHighlight('find-current');
+    clearHighlight('cited-passage');
+  }, []);
+
+  // Find-in-document
+  useEffect(() => {
+    const root = containerRef.current;
+    const pattern = isFindOpen ? queryPattern(query) : null;
+    const ranges = root && pattern ? findTextRanges(root, pattern) : [];
+    setMatches(ranges);
+    setCurrent(c => Math.max(0, Math.min(c, ranges.length - 1)));
+    paintHighlight('find-match', ranges);
+  }, [query, isFindOpen, content, showSource, renderVersion]);
+
+  useEffect(() => {
+    setCurrent(0);
+    scrollPendingRef.current = true;
+  }, [query]);
+
+  useEffect(() => {
+    const range = matches[current];
+    if (!range) {
+      clearHighlight('find-current');
+      return;
+    }
+    if (!paintHighlight('find-current', [range])) selectRange(range);
+    if (scrollPendingRef.current) {
+      scrollPendingRef.current = false;
+      scrollRangeIntoView(range);
+    }
+  }, [matches, current]);
+
+  const navigate = useCallback((direction: 1 | -1) => {
+    if (matches.length === 0) return;
+    scrollPendingRef.current = true;
+    setCurrent(c => (c + direction + matches.length) % matches.length);
+  }, [matches.length]);
+
+  // Cited passage
+  useEffect(() => {
+    citedScrolledRef.current = null;
+  }, [highlight, lineNumber, file.id]);
+
+  useEffect(() => {
+    const root = containerRef.current;
+    const pattern = highlight ? passagePattern(highlight) : null;
+    // Prefer the cited page or line, since short passages may occur more than once
+    const anchor = lineNumber ? `#line-${lineNumber}` : pageNumber ? `#pdf-page-${pageNumber}` : null;
+    const scope = root && anchor ? root.querySelector(anchor) ?? root : root;
+    const [range] = scope && pattern ? findTextRanges(scope, pattern, 1) : [];
+    paintHighlight('cited-passage', range ? [range] : []);
+    setCitedFound(!highlight || !!range);
+    if (range && citedScrolledRef.current !== highlight) {
+      citedScrolledRef.current = highlight ?? null;
+      scrollRangeIntoView(range);
+    }
+    // Rendered views drop markup the chunk still has; the source view may match instead
+    if (!range && highlight && !showSource && HAS_SOURCE_VIEW.includes(format) && content && pattern?.test(content)) {
+      setShowSource(true);
+    }
+  }, [highlight, lineNumber, pageNumber, content, showSource, renderVersion, format]);
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if ((e.metaKey || e.ctrlKey) && e.key.toLowerCase() === 'f') {
+      e.preventDefault();
+      setIsFindOpen(true);
+    }
+  };
+
+  const renderBody = () => {
+    if (format === 'pdf') {
+      return file.fileHandle
+        ? <PdfViewer file={file.fileHandle} pageNumber={pageNumber} findQuery={isFindOpen ? query : undefined} passage={highlight} />
+        : <p className="text-xs text-slate-400 italic">The original PDF is no longer stored locally.</p>;
+    }
+    if (content === undefined) {
+      return (
+        <div className="flex flex-col items-center justify-center h-full text-slate-400">
+          <Loader2 className="w-8 h-8 animate-spin mb-3 text-indigo-200" />
+          <span className="text-xs font-medium uppercase tracking-widest">Loading Preview...</span>
+        </div>
+      );
+    }
+    if (showSource || format === 'code') return <CodeView content={content} extension={showSource ? '' : file.type} />;
+    switch (format) {
+      case 'csv': return <CsvTable content={content} />;
+      case 'json': return <JsonTree content={content} expandAll={isFindOpen && !!query} />;
+      case 'markdown':
+        return (
+          <div className="text-sm">
+            <ReactMarkdown remarkPlugins={[remarkGfm]} components={MARKDOWN_COMPONENTS}>{content}</ReactMarkdown>
+          </div>
+        );
+      default:
+        return <pre className="text-xs font-mono leading-relaxed text-slate-600 whitespace-pre-wrap">{content}</pre>;
+    }
+  };
+
+  return (
+    <div ref={containerRef} tabIndex={-1} onKeyDown={handleKeyDown} className="focus:outline-none">
+      <div className="sticky top-0 z-20 -mt-2 mb-4 flex items-center justify-end gap-2" data-find-ignore>
+        {isFindOpen ? (
+          <div className="flex-1">
+            <FindBar
+              query={query}
+              current={current}
+              total={matches.length}
+              onQueryChange={setQuery}
+              onNavigate={navigate}
+              onClose={() => setIsFindOpen(false)}
+            />
+          </div>
+        ) : (
+          <button
+            onClick={() => setIsFindOpen(true)}
+            className="flex items-center gap-1.5 px-2.5 py-1 rounded-lg bg-white border border-slate-200 text-[10px] font-bold text-slate-500 hover:text-indigo-600 uppercase tracking-wider"
+            title="Find in document (Ctrl+F)"
+          >
+            <Search className="w-3 h-3" />
+            Find
+          </button>
+        )}
+        {HAS_SOURCE_VIEW.includes(format) && (
+          <button
+            onClick={() => setShowSource(!showSource)}
+            className="flex items-center gap-1.5 px-2.5 py-1 rounded-lg bg-white border border-slate-200 text-[10px] font-bold text-slate-500 hover:text-indigo-600 uppercase tracking-wider shrink-0"
+          >
+            {showSource ? <Eye className="w-3 h-3" /> : <Code2 className="w-3 h-3" />}
+            {showSource ? FORMAT_LABELS[format] : 'Source'}
+          </button>
+        )}
+      </div>
+
+      {highlight && !citedFound && (
+        <div className="mb-5 p-4 rounded-xl bg-amber-50/60 border border-amber-100" data-find-ignore>
+          <div className="flex items-center gap-2 mb-2 text-[10px] font-bold text-amber-700 uppercase tracking-widest">
+            <Quote className="w-3 h-3" />
+            Cited passage{pageNumber ? ` · Page ${pageNumber}` : ''}
+          </div>
+          <p className="text-xs text-slate-600 leading-relaxed italic whitespace-pre-wrap">{highlight}</p>
+        </div>
+      )}
+      {renderBody()}
+    </div>
+  );
+};
@@ -0,0 +1,102 @@
+import React, { useState } from 'react';
+import { Copy, X } from 'lucide-react';
+import { FileIcon } from './FileIcon';
+import { DuplicateMatch, DuplicateResolution } from '../services/dedupService';
+
+interface DuplicateFilesDialogProps {
+  matches: DuplicateMatch[];
+  onResolve: (resolutions: Record<string, DuplicateResolution>) => void;
+  onCancel: () => void;
+}
+
+const OPTIONS: Array<{ value: DuplicateResolution; label: string }> = [
+  { value: 'skip', label: 'Skip' },
+  { value: 'keepBoth', label: 'Keep both' },
+  { value: 'replace', label: 'Replace' }
+];
+
+export const DuplicateFilesDialog: React.FC<DuplicateFilesDialogProps> = ({ matches, onResolve, onCancel }) => {
+  const [resolutions, setResolutions] = useState<Record<string, DuplicateResolution>>(
+    () => Object.fromEntries(matches.map(m => [m.incoming.id, 'skip' as DuplicateResolution]))
+  );
+
+  const setAll = (value: DuplicateResolution) =>
+    setResolutions(Object.fromEntries(matches.map(m => [m.incoming.id, value])));
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/30 backdrop-blur-sm p-4 animate-fadeIn" onClick={onCancel}>
+      <div
+        className="w-full max-w-lg bg-white rounded-3xl shadow-2xl border border-slate-200 overflow-hidden flex flex-col max-h-[80vh]"
+        onClick={e => e.stopPropagation()}
+        role="dialog"
+        aria-label="Duplicate files"
+      >
+        <div className="px-6 py-4 border-b border-slate-100 flex items-center justify-between shrink-0">
+          <h2 className="font-bold text-slate-800 flex items-center gap-2">
+            <Copy className="w-4 h-4 text-amber-500" />
+            {matches.length === 1 ? 'Duplicate file' : `${matches.length} duplicate files`}
+          </h2>
+          <button onClick={onCancel} className="p-1.5 hover:bg-slate-100 rounded-lg text-slate-400">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="px-6 pt-4 flex items-center justify-between gap-3 shrink-0">
+          <p className="text-xs text-slate-500">These files have exactly the same content as a file you already have.</p>
+          {matches.length > 1 && (
+            <select
+              value=""
+              onChange={e => e.target.value && setAll(e.target.value as DuplicateResolution)}
+              className="shrink-0 px-2 py-1.5 rounded-lg border border-slate-200 text-[11px] font-semibold text-slate-600 focus:outline-none"
+            >
+              <option value="">Apply to all…</option>
+              {OPTIONS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+            </select>
+          )}
+        </div>
+
+        <ul className="px-6 py-4 space-y-3 overflow-y-auto">
+          {matches.map(match => (
+            <li key={match.incoming.id} className="p-3 rounded-2xl border border-slate-100 bg-slate-50/50">
+              <div className="flex items-center gap-3">
+                <FileIcon fileName={match.incoming.name} className="w-8 h-8 shrink-0" />
+                <div className="min-w-0 flex-1">
+                  <p className="text-sm font-semibold text-slate-700 truncate">{match.incoming.name}</p>
+                  <p className="text-[10px] text-slate-400 truncate">
+                    Same content as <span className="font-semibold text-slate-500">{match.existing.name}</span>
+                    {match.existingIsIncoming && ' (in this upload)'}
+                  </p>
+                </div>
+              </div>
+              <div className="mt-3 flex p-1 bg-white rounded-xl border border-slate-100 text-[11px] font-semibold">
+                {OPTIONS.map(option => (
+                  <button
+                    key={option.value}
+                    onClick={() => setResolutions(prev => ({ ...prev, [match.incoming.id]: option.value }))}
+                    className={`flex-1 py-1.5 rounded-lg transition-all ${
+                      resolutions[match.incoming.id] === option.value ? 'bg-indigo-50 text-indigo-700' : 'text-slate-500 hover:text-slate-700'
+                    }`}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+            </li>
+          ))}
+        </ul>
+
+        <div className="px-6 py-4 bg-slate-50/70 border-t border-slate-100 flex justify-end gap-2 shrink-0">
+          <button onClick={onCancel} className="text-xs font-bold text-slate-500 px-4 py-2 hover:bg-slate-100 rounded-xl transition-colors">
+            Cancel upload
+          </button>
+          <button
+            onClick={() => onResolve(resolutions)}
+            className="text-xs font-bold text-white bg-indigo-600 px-4 py-2 hover:bg-indigo-700 rounded-xl shadow-sm transition-colors"
+          >
+            Continue
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
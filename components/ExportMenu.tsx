@@ -0,0 +1,63 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Download, FileCode2, FileJson, FileText, Printer } from 'lucide-react';
+import { ExportFormat } from '../services/exportService';
+
+interface ExportMenuProps {
+  disabled?: boolean;
+  onExport: (format: ExportFormat) => void;
+}
+
+const OPTIONS: { format: ExportFormat; label: string; hint: string; icon: React.ElementType }[] = [
+  { format: 'markdown', label: 'Markdown', hint: '.md for notes and tickets', icon: FileText },
+  { format: 'html', label: 'HTML', hint: 'Standalone page', icon: FileCode2 },
+  { format: 'pdf', label: 'PDF', hint: 'Print or save as PDF', icon: Printer },
+  { format: 'json', label: 'JSON', hint: 'Everything, machine-readable', icon: FileJson }
+];
+
+/** Header button listing the formats a conversation can be exported to. */
+export const ExportMenu: React.FC<ExportMenuProps> = ({ disabled, onExport }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const rootRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const close = (e: MouseEvent) => {
+      if (!rootRef.current?.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener('mousedown', close);
+    return () => document.removeEventListener('mousedown', close);
+  }, [isOpen]);
+
+  return (
+    <div ref={rootRef} className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={disabled}
+        className="p-2 text-slate-400 hover:text-slate-600 hover:bg-white rounded-lg transition-all border border-transparent hover:border-slate-200 hover:shadow-sm disabled:opacity-50"
+        title="Export Conversation"
+      >
+        <Download className="w-4 h-4" />
+      </button>
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-2 w-56 bg-white rounded-xl border border-slate-200 shadow-xl py-1 z-40 animate-fadeIn">
+          {OPTIONS.map(({ format, label, hint, icon: Icon }) => (
+            <button
+              key={format}
+              onClick={() => {
+                setIsOpen(false);
+                onExport(format);
+              }}
+              className="w-full flex items-center gap-3 px-3 py-2 text-left hover:bg-slate-50 transition-colors"
+            >
+              <Icon className="w-4 h-4 text-slate-400" />
+              <span className="flex flex-col">
+                <span className="text-xs font-semibold text-slate-700">{label}</span>
+                <span className="text-[10px] text-slate-400">{hint}</span>
+              </span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
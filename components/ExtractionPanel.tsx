@@ -0,0 +1,260 @@
+import React, { useState } from 'react';
+import {
+  AlertCircle, CheckCircle2, ChevronDown, Clock, FileJson, FileSpreadsheet, Loader2, Play, Quote, RotateCcw, Square, Table2
+} from 'lucide-react';
+import { ExtractedValue, Extraction, ExtractionCell, ExtractionField, ExtractionRow, FileDocument, SourceReference } from '../types';
+import { ExtractionSchemaEditor } from './ExtractionSchemaEditor';
+import { FileIcon } from './FileIcon';
+import { ExtractionExportFormat, checkFields, formatValue, parseCellInput } from '../services/extractionService';
+
+interface ExtractionPanelProps {
+  extraction: Extraction;
+  documents: FileDocument[]; // One row each: the current version of every document
+  isRunning: boolean;
+  onFieldsChange: (fields: ExtractionField[]) => void;
+  onRun: (fileIds: string[]) => void;
+  onStop: () => void;
+  onEditCell: (fileId: string, fieldId: string, value: ExtractedValue) => void;
+  onOpenSource: (source: SourceReference) => void;
+  onExport: (format: ExtractionExportFormat) => void;
+}
+
+/** A row that is missing, failed, or predates a field added to the schema. */
+const needsRun = (fields: ExtractionField[], row?: ExtractionRow) =>
+  !row || row.status === 'error' || fields.some(f => !(f.id in row.cells));
+
+const StatusIcon: React.FC<{ row?: ExtractionRow }> = ({ row }) => {
+  switch (row?.status) {
+    case 'pending': return <span title="Queued"><Clock className="w-3.5 h-3.5 text-slate-400" /></span>;
+    case 'running': return <Loader2 className="w-3.5 h-3.5 text-indigo-500 animate-spin" />;
+    case 'done': return <CheckCircle2 className="w-3.5 h-3.5 text-emerald-500" />;
+    case 'error': return <span title={row.error}><AlertCircle className="w-3.5 h-3.5 text-red-500" /></span>;
+    default: return <span className="w-3.5 h-3.5 block rounded-full border border-dashed border-slate-300" title="Not extracted yet" />;
+  }
+};
+
+interface CellProps {
+  field: ExtractionField;
+  cell?: ExtractionCell;
+  disabled: boolean;
+  onSave: (value: ExtractedValue) => void;
+  onCite: () => void;
+}
+
+/** A value that turns into an input on click; Enter saves, Escape cancels. */
+const Cell: React.FC<CellProps> = ({ field, cell, disabled, onSave, onCite }) => {
+  const [draft, setDraft] = useState<string | null>(null);
+  const parsed = draft !== null ? parseCellInput(field.type, draft) : null;
+
+  if (draft !== null) {
+    return (
+      <div>
+        <input
+          value={draft}
+          onChange={e => setDraft(e.target.value)}
+          onKeyDown={e => {
+            if (e.key === 'Enter' && !parsed?.error) {
+              onSave(parsed!.value);
+              setDraft(null);
+            }
+            if (e.key === 'Escape') setDraft(null);
+          }}
+          onBlur={() => setDraft(null)}
+          placeholder={field.type === 'list' ? 'a; b; c' : undefined}
+          className={`w-full px-2 py-1 text-xs rounded-md border bg-white focus:outline-none focus:ring-2 ${
+            parsed?.error ? 'border-red-300 focus:ring-red-500/20' : 'border-indigo-300 focus:ring-indigo-500/20'
+          }`}
+          aria-label={`Edit ${field.name}`}
+          title={parsed?.error}
+          autoFocus
+        />
+      </div>
+    );
+  }
+
+  const text = formatValue(cell?.value);
+  return (
+    <div className="group/cell flex items-start gap-1">
+      <button
+        onClick={() => setDraft(text)}
+        disabled={disabled}
+        className="flex-1 min-w-0 text-left px-2 py-1 rounded-md hover:bg-slate-100 disabled:hover:bg-transparent break-words"
+        title={cell?.isEdited ? 'Edited by hand; click to change' : 'Click to edit'}
+      >
+        {cell === undefined ? null : text ? (
+          <span className="text-slate-700">{text}</span>
+        ) : (
+          <span className="text-slate-300" title="Not stated in the document">—</span>
+        )}
+        {cell?.isEdited && <span className="inline-block w-1.5 h-1.5 ml-1 mb-0.5 rounded-full bg-amber-400 align-middle" />}
+      </button>
+      {cell?.quote && (
+        <button
+          onClick={onCite}
+          className="p-1 mt-0.5 text-slate-300 hover:text-indigo-600 rounded opacity-0 group-hover/cell:opacity-100 transition-opacity"
+          title={`“${cell.quote}”${cell.pageNumber ? ` (page ${cell.pageNumber})` : ''}`}
+        >
+          <Quote className="w-3 h-3" />
+        </button>
+      )}
+    </div>
+  );
+};
+
+/** Schema editor and results table for pulling the same fields out of every document. */
+export const ExtractionPanel: React.FC<ExtractionPanelProps> = ({
+  extraction, documents, isRunning, onFieldsChange, onRun, onStop, onEditCell, onOpenSource, onExport
+}) => {
+  const { fields } = extraction;
+  const rowsById = new Map(extraction.rows.map(r => [r.fileId, r]));
+  const [isSchemaOpen, setIsSchemaOpen] = useState(!extraction.rows.some(r => r.status === 'done'));
+  const schemaError = checkFields(fields);
+  const toRun = documents.filter(doc => needsRun(fields, rowsById.get(doc.id)));
+  const doneCount = documents.filter(doc => rowsById.get(doc.id)?.status === 'done').length;
+
+  const confirmOverwrite = (docs: FileDocument[]) => {
+    const edited = docs.some(doc => Object.values(rowsById.get(doc.id)?.cells ?? {}).some(c => c.isEdited));
+    return !edited || confirm('Running the extraction again replaces values you edited by hand. Continue?');
+  };
+
+  const rerun = (docs: FileDocument[]) => {
+    if (confirmOverwrite(docs)) onRun(docs.map(doc => doc.id));
+  };
+
+  return (
+    <div className="h-full flex flex-col">
+      <div className="px-4 md:px-8 py-4 border-b border-slate-100 space-y-3 shrink-0">
+        <div className="flex items-center justify-between gap-3">
+          <button
+            onClick={() => setIsSchemaOpen(!isSchemaOpen)}
+            className="flex items-center gap-2 text-xs font-bold text-slate-600 hover:text-slate-800"
+          >
+            <ChevronDown className={`w-3.5 h-3.5 transition-transform ${isSchemaOpen ? '' : '-rotate-90'}`} />
+            Schema · {fields.length} field{fields.length === 1 ? '' : 's'}
+          </button>
+          <div className="flex items-center gap-2">
+            {isRunning ? (
+              <button
+                onClick={onStop}
+                className="flex items-center gap-1.5 px-3 py-1.5 text-[11px] font-bold text-white bg-slate-800 hover:bg-slate-900 rounded-lg"
+              >
+                <Square className="w-3 h-3 fill-white" />
+                Stop
+              </button>
+            ) : (
+              <>
+                <button
+                  onClick={() => rerun(documents)}
+                  disabled={!!schemaError || documents.length === 0 || doneCount === 0}
+                  className="flex items-center gap-1.5 px-3 py-1.5 text-[11px] font-bold text-slate-500 hover:bg-slate-100 rounded-lg disabled:opacity-50"
+                >
+                  <RotateCcw className="w-3 h-3" />
+                  Re-run all
+                </button>
+                <button
+                  onClick={() => rerun(toRun)}
+                  disabled={!!schemaError || toRun.length === 0}
+                  className="flex items-center gap-1.5 px-3 py-1.5 text-[11px] font-bold text-white bg-indigo-600 hover:bg-indigo-700 rounded-lg shadow-sm disabled:opacity-50"
+                >
+                  <Play className="w-3 h-3" />
+                  Extract {toRun.length > 0 && `${toRun.length} document${toRun.length === 1 ? '' : 's'}`}
+                </button>
+              </>
+            )}
+            <span className="w-px h-5 bg-slate-200" />
+            <button
+              onClick={() => onExport('csv')}
+              disabled={doneCount === 0}
+              className="p-1.5 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded-lg disabled:opacity-50"
+              title="Export as CSV"
+            >
+              <FileSpreadsheet className="w-4 h-4" />
+            </button>
+            <button
+              onClick={() => onExport('json')}
+              disabled={doneCount === 0}
+              className="p-1.5 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded-lg disabled:opacity-50"
+              title="Export as JSON, with sources"
+            >
+              <FileJson className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+        {isSchemaOpen && (
+          <ExtractionSchemaEditor fields={fields} disabled={isRunning} onChange={onFieldsChange} />
+        )}
+        {schemaError && <p className="text-[11px] text-amber-600">{schemaError}</p>}
+      </div>
+
+      <div className="flex-1 overflow-auto custom-scrollbar">
+        {documents.length === 0 ? (
+          <div className="h-full flex flex-col items-center justify-center text-center px-4 text-slate-400">
+            <Table2 className="w-8 h-8 mb-3 text-slate-300" />
+            <p className="text-sm">Upload documents to extract fields from them.</p>
+          </div>
+        ) : (
+          <table className="w-full text-xs border-collapse">
+            <thead className="sticky top-0 z-10 bg-slate-50">
+              <tr>
+                <th className="w-8 border-b border-slate-200" />
+                <th className="px-3 py-2 text-left font-bold text-slate-500 border-b border-slate-200 min-w-[180px]">Document</th>
+                {fields.map(field => (
+                  <th
+                    key={field.id}
+                    className="px-3 py-2 text-left font-bold text-slate-500 border-b border-slate-200 min-w-[140px]"
+                    title={field.instructions}
+                  >
+                    {field.name.trim() || <span className="text-slate-300 italic">Unnamed</span>}
+                  </th>
+                ))}
+                <th className="w-10 border-b border-slate-200" />
+              </tr>
+            </thead>
+            <tbody>
+              {documents.map(doc => {
+                const row = rowsById.get(doc.id);
+                const isBusy = row?.status === 'pending' || row?.status === 'running';
+                return (
+                  <tr key={doc.id} className="align-top hover:bg-slate-50/60">
+                    <td className="pl-3 py-2.5 border-b border-slate-100"><StatusIcon row={row} /></td>
+                    <td className="px-3 py-2 border-b border-slate-100">
+                      <span className="flex items-center gap-2 font-semibold text-slate-700" title={doc.name}>
+                        <FileIcon fileName={doc.name} className="w-3.5 h-3.5 shrink-0" />
+                        <span className="truncate max-w-[220px]">{doc.name}</span>
+                      </span>
+                      {row?.status === 'error' && <span className="block mt-1 text-[10px] text-red-600">{row.error}</span>}
+                    </td>
+                    {fields.map(field => (
+                      <td key={field.id} className="px-1 py-1 border-b border-slate-100">
+                        <Cell
+                          field={field}
+                          cell={row?.cells[field.id]}
+                          disabled={isBusy || !row}
+                          onSave={value => onEditCell(doc.id, field.id, value)}
+                          onCite={() => {
+                            const cell = row?.cells[field.id];
+                            onOpenSource({ documentName: doc.name, passage: cell?.quote, pageNumber: cell?.pageNumber });
+                          }}
+                        />
+                      </td>
+                    ))}
+                    <td className="px-1 py-1.5 border-b border-slate-100">
+                      <button
+                        onClick={() => rerun([doc])}
+                        disabled={isRunning || !!schemaError}
+                        className="p-1.5 text-slate-300 hover:text-indigo-600 rounded-lg disabled:opacity-40"
+                        title={row ? 'Extract this document again' : 'Extract this document'}
+                      >
+                        <RotateCcw className="w-3.5 h-3.5" />
+                      </button>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+};
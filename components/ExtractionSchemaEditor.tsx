@@ -0,0 +1,76 @@
+import React from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { ExtractionField, ExtractionFieldType } from '../types';
+import { createField } from '../services/extractionService';
+
+interface ExtractionSchemaEditorProps {
+  fields: ExtractionField[];
+  disabled?: boolean;
+  onChange: (fields: ExtractionField[]) => void;
+}
+
+const FIELD_TYPES: { type: ExtractionFieldType; label: string }[] = [
+  { type: 'text', label: 'Text' },
+  { type: 'number', label: 'Number' },
+  { type: 'date', label: 'Date' },
+  { type: 'boolean', label: 'Yes / No' },
+  { type: 'list', label: 'List' }
+];
+
+const inputClass = 'px-2.5 py-1.5 text-xs rounded-lg border border-slate-200 bg-white focus:outline-none focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-300 disabled:bg-slate-50 disabled:text-slate-400';
+
+/** Rows of name, type and instructions, one per field to extract. */
+export const ExtractionSchemaEditor: React.FC<ExtractionSchemaEditorProps> = ({ fields, disabled, onChange }) => {
+  const update = (id: string, patch: Partial<ExtractionField>) =>
+    onChange(fields.map(f => f.id === id ? { ...f, ...patch } : f));
+
+  return (
+    <div className="space-y-2">
+      {fields.map((field, i) => (
+        <div key={field.id} className="flex items-start gap-2">
+          <input
+            value={field.name}
+            onChange={e => update(field.id, { name: e.target.value })}
+            placeholder={i === 0 ? 'Party names' : 'Field name'}
+            disabled={disabled}
+            className={`${inputClass} w-40 shrink-0 font-semibold`}
+            aria-label="Field name"
+          />
+          <select
+            value={field.type}
+            onChange={e => update(field.id, { type: e.target.value as ExtractionFieldType })}
+            disabled={disabled}
+            className={`${inputClass} w-28 shrink-0`}
+            aria-label="Field type"
+          >
+            {FIELD_TYPES.map(({ type, label }) => <option key={type} value={type}>{label}</option>)}
+          </select>
+          <input
+            value={field.instructions ?? ''}
+            onChange={e => update(field.id, { instructions: e.target.value || undefined })}
+            placeholder={i === 0 ? 'Every party that signs the agreement' : 'What to look for (optional)'}
+            disabled={disabled}
+            className={`${inputClass} flex-1 min-w-0`}
+            aria-label="Field instructions"
+          />
+          <button
+            onClick={() => onChange(fields.filter(f => f.id !== field.id))}
+            disabled={disabled}
+            className="p-2 text-slate-300 hover:text-red-500 rounded-lg disabled:opacity-50"
+            title="Remove field"
+          >
+            <Trash2 className="w-3.5 h-3.5" />
+          </button>
+        </div>
+      ))}
+      <button
+        onClick={() => onChange([...fields, createField()])}
+        disabled={disabled}
+        className="flex items-center gap-1.5 px-2 py-1 text-[11px] font-bold text-indigo-600 hover:bg-indigo-50 rounded-lg disabled:opacity-50"
+      >
+        <Plus className="w-3.5 h-3.5" />
+        Add field
+      </button>
+    </div>
+  );
+};
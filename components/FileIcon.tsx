@@ -1,5 +1,5 @@
 import React from 'react';
-import { FileText, FileJson, FileCode, FileType, FileSpreadsheet, File } from 'lucide-react';
+import { FileText, FileJson, FileCode, FileType, FileSpreadsheet, File, Presentation, BookOpen } from 'lucide-react';
 
 interface FileIconProps {
   fileName: string;
@@ -13,10 +13,19 @@ export const FileIcon: React.FC<FileIconProps> = ({ fileName, className = "w-5 h
     case 'json':
       return <FileJson className={`text-yellow-600 ${className}`} />;
     case 'csv':
+    case 'xlsx':
       return <FileSpreadsheet className={`text-green-600 ${className}`} />;
     case 'md':
     case 'txt':
       return <FileText className={`text-slate-500 ${className}`} />;
+    case 'docx':
+    case 'odt':
+    case 'rtf':
+      return <FileText className={`text-blue-600 ${className}`} />;
+    case 'pptx':
+      return <Presentation className={`text-orange-500 ${className}`} />;
+    case 'epub':
+      return <BookOpen className={`text-violet-500 ${className}`} />;
     case 'pdf':
       return <File className={`text-red-500 ${className}`} />;
     case 'js':
@@ -0,0 +1,48 @@
+import React from 'react';
+import { AlertTriangle, AtSign, X } from 'lucide-react';
+import { FileDocument } from '../types';
+import { FileIcon } from './FileIcon';
+import { baseName } from '../services/folderTree';
+
+interface FileScopeBarProps {
+  files: FileDocument[]; // The files the next question is limited to
+  disabled?: boolean;
+  onRemove: (id: string) => void;
+  onClear: () => void;
+}
+
+/** Chips for the files the next question is restricted to. */
+export const FileScopeBar: React.FC<FileScopeBarProps> = ({ files, disabled, onRemove, onClear }) => {
+  if (files.length === 0) return null;
+
+  return (
+    <div className="mb-2 flex flex-wrap items-center gap-1.5">
+      <span className="flex items-center gap-1 text-[10px] font-bold text-slate-400 uppercase tracking-wider mr-1">
+        <AtSign className="w-3 h-3" />
+        Only from
+      </span>
+      {files.map(file => (
+        <span
+          key={file.id}
+          className={`flex items-center gap-1.5 max-w-[220px] pl-2 pr-1 py-1 rounded-lg border text-[11px] font-semibold shadow-sm ${
+            file.status === 'active' ? 'bg-white border-slate-200 text-slate-700' : 'bg-amber-50 border-amber-200 text-amber-700'
+          }`}
+          title={file.status === 'active' ? file.name : `${file.name} is not indexed right now`}
+        >
+          {file.status === 'active'
+            ? <FileIcon fileName={file.name} className="w-3 h-3 shrink-0" />
+            : <AlertTriangle className="w-3 h-3 shrink-0" />}
+          <span className="truncate">{baseName(file.name)}</span>
+          <button onClick={() => onRemove(file.id)} disabled={disabled} className="p-0.5 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded disabled:opacity-50" title="Remove from scope">
+            <X className="w-3 h-3" />
+          </button>
+        </span>
+      ))}
+      {files.length > 1 && (
+        <button onClick={onClear} disabled={disabled} className="px-1.5 py-1 text-[10px] font-bold text-slate-400 hover:text-slate-600 uppercase tracking-wider disabled:opacity-50">
+          Clear
+        </button>
+      )}
+    </div>
+  );
+};
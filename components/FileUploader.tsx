@@ -1,60 +1,66 @@
 import React, { useCallback, useState } from 'react';
-import { UploadCloud, FilePlus } from 'lucide-react';
-import { SUPPORTED_EXTENSIONS, MAX_FILE_SIZE, MIME_TYPE_MAP } from '../constants';
+import { UploadCloud, FilePlus, FolderOpen, Loader2, AlertTriangle, Tag, X } from 'lucide-react';
+import { SUPPORTED_EXTENSIONS } from '../constants';
 import { FileDocument } from '../types';
+import {
+  IntakeCandidate, SkippedEntry, candidatesFromDataTransfer, candidatesFromFileList, prepareUploads
+} from '../services/fileIntakeService';
+import { parseTags } from '../services/metadataService';
 
 interface FileUploaderProps {
   onFilesAdded: (files: FileDocument[]) => void;
 }
 
+// Skipped entries listed before the rest are summarized as a count
+const SKIPPED_PREVIEW_LIMIT = 50;
+
 export const FileUploader: React.FC<FileUploaderProps> = ({ onFilesAdded }) => {
   const [isDragging, setIsDragging] = useState(false);
+  const [isReading, setIsReading] = useState(false);
+  const [skipped, setSkipped] = useState<SkippedEntry[]>([]);
+  const [showSkipped, setShowSkipped] = useState(false);
+  // Tags applied to everything uploaded while they are set
+  const [showTags, setShowTags] = useState(false);
+  const [tagsText, setTagsText] = useState('');
+  const uploadTags = parseTags(tagsText);
 
-  const handleFiles = async (fileList: FileList | null) => {
-    if (!fileList) return;
-
-    const newFiles: FileDocument[] = [];
-    
-    for (let i = 0; i < fileList.length; i++) {
-      const file = fileList[i];
-      const extRaw = file.name.split('.').pop()?.toLowerCase();
-      const ext = extRaw ? `.${extRaw}` : '';
-      
-      if (!SUPPORTED_EXTENSIONS.includes(ext)) {
-        alert(`File type ${ext} not supported. Skipping ${file.name}`);
-        continue;
-      }
-
-      if (file.size > MAX_FILE_SIZE) {
-        alert(`File ${file.name} is too large (>25MB). Skipping.`);
-        continue;
+  const handleCandidates = async (pending: Promise<IntakeCandidate[]>) => {
+    if (uploadTags.error) {
+      // The drop is already being read; let it finish without surfacing errors
+      await pending.catch(() => undefined);
+      alert(`Fix the upload tags first: ${uploadTags.error}`);
+      return;
+    }
+    setIsReading(true);
+    try {
+      const { accepted, skipped } = await prepareUploads(await pending);
+      setSkipped(skipped);
+      setShowSkipped(false);
+      if (accepted.length > 0) {
+        onFilesAdded(uploadTags.tags.length > 0 ? accepted.map(f => ({ ...f, metadata: uploadTags.tags })) : accepted);
       }
-
-      const mimeType = MIME_TYPE_MAP[extRaw || 'txt'] || 'text/plain';
-
-      newFiles.push({
-        id: crypto.randomUUID(),
-        name: file.name,
-        fileHandle: file,
-        mimeType: mimeType,
-        type: ext,
-        size: file.size,
-        uploadDate: Date.now(),
-        status: 'pending'
-      });
+    } catch (error) {
+      console.error('Failed to read dropped items', error);
+      alert('Some of the selected items could not be read.');
+    } finally {
+      setIsReading(false);
     }
+  };
 
-    if (newFiles.length > 0) {
-      onFilesAdded(newFiles);
-    }
+  const handleInput = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (!e.target.files) return;
+    // Copy first: the list is emptied when the input is reset below
+    handleCandidates(Promise.resolve(candidatesFromFileList(e.target.files)));
+    e.target.value = ''; // Let the same file be picked again
   };
 
-  const onDrop = useCallback((e: React.DragEvent) => {
+  const onDrop = (e: React.DragEvent) => {
     e.preventDefault();
     e.stopPropagation();
     setIsDragging(false);
-    handleFiles(e.dataTransfer.files);
-  }, []);
+    // Entries must be taken synchronously, before the event is released
+    handleCandidates(candidatesFromDataTransfer(e.dataTransfer));
+  };
 
   const onDragOver = useCallback((e: React.DragEvent) => {
     e.preventDefault();
@@ -69,44 +75,117 @@ export const FileUploader: React.FC<FileUploaderProps> = ({ onFilesAdded }) => {
   }, []);
 
   return (
-    <div 
-      onDrop={onDrop}
-      onDragOver={onDragOver}
-      onDragLeave={onDragLeave}
-      className={`relative group overflow-hidden rounded-2xl border-2 border-dashed transition-all duration-300 ease-out cursor-pointer
-        ${isDragging 
-          ? 'border-indigo-500 bg-indigo-50 scale-[1.01] shadow-lg' 
-          : 'border-slate-200 bg-white hover:border-indigo-300 hover:bg-slate-50/50 hover:shadow-sm'
-        }`}
-    >
-      <input 
-        type="file" 
-        multiple 
-        className="hidden" 
-        id="fileInput"
-        onChange={(e) => handleFiles(e.target.files)}
-        accept={SUPPORTED_EXTENSIONS.join(',')}
-      />
-      <label 
-        htmlFor="fileInput" 
-        className="flex flex-col items-center justify-center p-8 w-full h-full cursor-pointer z-10 relative"
+    <div className="space-y-2">
+      <div
+        onDrop={onDrop}
+        onDragOver={onDragOver}
+        onDragLeave={onDragLeave}
+        className={`relative group overflow-hidden rounded-2xl border-2 border-dashed transition-all duration-300 ease-out cursor-pointer
+          ${isDragging
+            ? 'border-indigo-500 bg-indigo-50 scale-[1.01] shadow-lg'
+            : 'border-slate-200 bg-white hover:border-indigo-300 hover:bg-slate-50/50 hover:shadow-sm'
+          }`}
       >
-        <div className={`p-3 rounded-full mb-3 transition-all duration-300 shadow-sm ${
-          isDragging 
-            ? 'bg-indigo-600 text-white ring-4 ring-indigo-200' 
-            : 'bg-white text-indigo-600 border border-slate-100 group-hover:scale-110 group-hover:border-indigo-100 group-hover:text-indigo-700'
-        }`}>
-          {isDragging ? <FilePlus className="w-6 h-6" /> : <UploadCloud className="w-6 h-6" />}
+        <input
+          type="file"
+          multiple
+          className="hidden"
+          id="fileInput"
+          onChange={handleInput}
+          accept={[...SUPPORTED_EXTENSIONS, '.zip'].join(',')}
+        />
+        <input
+          type="file"
+          className="hidden"
+          id="folderInput"
+          onChange={handleInput}
+          // Not in React's typings; lets the picker select a whole folder
+          ref={el => el?.setAttribute('webkitdirectory', '')}
+        />
+        <label
+          htmlFor="fileInput"
+          className="flex flex-col items-center justify-center px-8 pt-8 pb-4 w-full h-full cursor-pointer z-10 relative"
+        >
+          <div className={`p-3 rounded-full mb-3 transition-all duration-300 shadow-sm ${
+            isDragging
+              ? 'bg-indigo-600 text-white ring-4 ring-indigo-200'
+              : 'bg-white text-indigo-600 border border-slate-100 group-hover:scale-110 group-hover:border-indigo-100 group-hover:text-indigo-700'
+          }`}>
+            {isReading
+              ? <Loader2 className="w-6 h-6 animate-spin" />
+              : isDragging ? <FilePlus className="w-6 h-6" /> : <UploadCloud className="w-6 h-6" />}
+          </div>
+          <div className="space-y-1 text-center">
+            <h3 className={`text-sm font-semibold transition-colors ${isDragging ? 'text-indigo-900' : 'text-slate-700 group-hover:text-indigo-800'}`}>
+              {isReading ? 'Reading Files...' : isDragging ? 'Drop to Upload' : 'Click or Drag Documents'}
+            </h3>
+            <p className="text-[10px] font-medium text-slate-400 uppercase tracking-widest">
+              Folders & ZIP archives · Up to 25MB per file
+            </p>
+          </div>
+        </label>
+        <div className="flex items-center justify-center pb-5 relative z-10">
+          <label
+            htmlFor="folderInput"
+            className="flex items-center gap-1.5 text-[11px] font-semibold text-slate-500 hover:text-indigo-600 cursor-pointer transition-colors"
+          >
+            <FolderOpen className="w-3.5 h-3.5" />
+            Choose a folder
+          </label>
+          <span className="mx-2 text-slate-200">·</span>
+          <button
+            onClick={() => setShowTags(v => !v)}
+            className={`flex items-center gap-1.5 text-[11px] font-semibold transition-colors ${
+              uploadTags.tags.length > 0 ? 'text-indigo-600' : 'text-slate-500 hover:text-indigo-600'
+            }`}
+          >
+            <Tag className="w-3.5 h-3.5" />
+            {uploadTags.tags.length > 0 ? `${uploadTags.tags.length} tag${uploadTags.tags.length === 1 ? '' : 's'}` : 'Add tags'}
+          </button>
         </div>
-        <div className="space-y-1 text-center">
-          <h3 className={`text-sm font-semibold transition-colors ${isDragging ? 'text-indigo-900' : 'text-slate-700 group-hover:text-indigo-800'}`}>
-            {isDragging ? 'Drop to Upload' : 'Click or Drag Documents'}
-          </h3>
-          <p className="text-[10px] font-medium text-slate-400 uppercase tracking-widest">
-            Up to 25MB per file
+      </div>
+
+      {showTags && (
+        <div className="rounded-xl border border-slate-100 bg-white px-3 py-2 space-y-1">
+          <input
+            value={tagsText}
+            onChange={e => setTagsText(e.target.value)}
+            placeholder="client=acme, year=2025, doctype=contract"
+            className="w-full text-xs font-mono bg-transparent focus:outline-none placeholder:text-slate-300"
+            aria-label="Tags for new uploads"
+          />
+          <p className={`text-[10px] ${uploadTags.error ? 'text-red-600' : 'text-slate-400'}`}>
+            {uploadTags.error ?? 'Added to every file uploaded while set. Filter questions by them later.'}
           </p>
         </div>
-      </label>
+      )}
+
+      {skipped.length > 0 && (
+        <div className="rounded-xl border border-amber-200 bg-amber-50/60 text-[11px] text-amber-800">
+          <div className="flex items-center gap-2 px-3 py-2">
+            <AlertTriangle className="w-3.5 h-3.5 shrink-0" />
+            <button onClick={() => setShowSkipped(v => !v)} className="flex-1 text-left font-semibold hover:underline">
+              {skipped.length} {skipped.length === 1 ? 'item was' : 'items were'} skipped
+            </button>
+            <button onClick={() => setSkipped([])} className="p-0.5 text-amber-500 hover:text-amber-700 rounded" title="Dismiss">
+              <X className="w-3 h-3" />
+            </button>
+          </div>
+          {showSkipped && (
+            <ul className="max-h-40 overflow-y-auto border-t border-amber-100 px-3 py-2 space-y-1">
+              {skipped.slice(0, SKIPPED_PREVIEW_LIMIT).map((entry, i) => (
+                <li key={i} className="flex justify-between gap-3">
+                  <span className="truncate" title={entry.path}>{entry.path}</span>
+                  <span className="shrink-0 text-amber-600">{entry.reason}</span>
+                </li>
+              ))}
+              {skipped.length > SKIPPED_PREVIEW_LIMIT && (
+                <li className="text-amber-600">…and {skipped.length - SKIPPED_PREVIEW_LIMIT} more</li>
+              )}
+            </ul>
+          )}
+        </div>
+      )}
     </div>
   );
-};
\ No newline at end of file
+};
@@ -0,0 +1,59 @@
+import React, { useEffect, useRef } from 'react';
+import { ChevronDown, ChevronUp, Search, X } from 'lucide-react';
+import { MAX_MATCHES } from '../services/domTextSearch';
+
+interface FindBarProps {
+  query: string;
+  current: number; // 0-based
+  total: number;
+  onQueryChange: (query: string) => void;
+  onNavigate: (direction: 1 | -1) => void;
+  onClose: () => void;
+}
+
+/** Find-in-document input with match count and next/previous navigation. */
+export const FindBar: React.FC<FindBarProps> = ({ query, current, total, onQueryChange, onNavigate, onClose }) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    inputRef.current?.focus();
+    inputRef.current?.select();
+  }, []);
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      onNavigate(e.shiftKey ? -1 : 1);
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      onClose();
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-1 px-2 py-1 rounded-xl bg-white border border-slate-200 shadow-sm" data-find-ignore>
+      <Search className="w-3.5 h-3.5 text-slate-400 shrink-0 ml-1" />
+      <input
+        ref={inputRef}
+        value={query}
+        onChange={e => onQueryChange(e.target.value)}
+        onKeyDown={handleKeyDown}
+        placeholder="Find in document"
+        className="flex-1 min-w-0 px-1 py-1 text-xs bg-transparent focus:outline-none"
+        aria-label="Find in document"
+      />
+      <span className="text-[10px] font-semibold text-slate-400 tabular-nums shrink-0 px-1">
+        {query && (total === 0 ? 'No matches' : `${current + 1} / ${total >= MAX_MATCHES ? `${MAX_MATCHES}+` : total}`)}
+      </span>
+      <button onClick={() => onNavigate(-1)} disabled={total === 0} className="p-1 rounded text-slate-500 hover:bg-slate-100 disabled:opacity-30" title="Previous match (Shift+Enter)">
+        <ChevronUp className="w-3.5 h-3.5" />
+      </button>
+      <button onClick={() => onNavigate(1)} disabled={total === 0} className="p-1 rounded text-slate-500 hover:bg-slate-100 disabled:opacity-30" title="Next match (Enter)">
+        <ChevronDown className="w-3.5 h-3.5" />
+      </button>
+      <button onClick={onClose} className="p-1 rounded text-slate-400 hover:bg-slate-100" title="Close (Esc)">
+        <X className="w-3.5 h-3.5" />
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,56 @@
+import React, { useMemo, useState } from 'react';
+import { ChevronRight, Folder, FolderOpen } from 'lucide-react';
+import { FolderNode, buildFolderTree } from '../services/folderTree';
+
+interface FolderTreeProps<T> {
+  items: T[];
+  pathOf: (item: T) => string;
+  keyOf: (item: T) => string;
+  renderItem: (item: T) => React.ReactNode;
+}
+
+/** Collapsible folders around the sidebar's document cards. Files at the root are listed after the folders. */
+export function FolderTree<T>({ items, pathOf, keyOf, renderItem }: FolderTreeProps<T>) {
+  const tree = useMemo(() => buildFolderTree(items, pathOf), [items, pathOf]);
+  // Folders start expanded; remember the ones the user closed
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+
+  const toggle = (path: string) => setCollapsed(prev => {
+    const next = new Set(prev);
+    if (next.has(path)) next.delete(path);
+    else next.add(path);
+    return next;
+  });
+
+  const renderNode = (node: FolderNode<T>): React.ReactNode => (
+    <>
+      {node.folders.map(folder => {
+        const isOpen = !collapsed.has(folder.path);
+        return (
+          <div key={`folder:${folder.path}`}>
+            <button
+              onClick={() => toggle(folder.path)}
+              className="w-full flex items-center gap-1.5 px-2 py-1.5 rounded-lg text-left text-xs font-semibold text-slate-600 hover:bg-slate-50 transition-colors"
+              title={folder.path}
+            >
+              <ChevronRight className={`w-3 h-3 text-slate-400 shrink-0 transition-transform ${isOpen ? 'rotate-90' : ''}`} />
+              {isOpen
+                ? <FolderOpen className="w-3.5 h-3.5 text-indigo-400 shrink-0" />
+                : <Folder className="w-3.5 h-3.5 text-indigo-400 shrink-0" />}
+              <span className="truncate flex-1">{folder.name}</span>
+              <span className="text-[10px] font-medium text-slate-400 shrink-0">{folder.count}</span>
+            </button>
+            {isOpen && (
+              <div className="ml-3 pl-2 border-l border-slate-100 space-y-3 pt-1">
+                {renderNode(folder)}
+              </div>
+            )}
+          </div>
+        );
+      })}
+      {node.items.map(item => <React.Fragment key={keyOf(item)}>{renderItem(item)}</React.Fragment>)}
+    </>
+  );
+
+  return <>{renderNode(tree)}</>;
+}
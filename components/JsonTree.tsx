@@ -0,0 +1,98 @@
+import React, { useMemo, useState } from 'react';
+import { ChevronRight } from 'lucide-react';
+
+interface JsonTreeProps {
+  content: string;
+  expandAll?: boolean; // Open every node, e.g. while searching
+}
+
+// Levels open when the tree is first shown
+const INITIAL_DEPTH = 2;
+
+type Json = string | number | boolean | null | Json[] | { [key: string]: Json };
+
+const VALUE_STYLES: Record<string, string> = {
+  string: 'text-emerald-700',
+  number: 'text-blue-600',
+  boolean: 'text-violet-600',
+  null: 'text-slate-400'
+};
+
+const typeOf = (value: Json) => (value === null ? 'null' : typeof value);
+
+interface NodeProps {
+  label?: string;
+  value: Json;
+  depth: number;
+  expandAll: boolean;
+}
+
+const JsonNode: React.FC<NodeProps> = ({ label, value, depth, expandAll }) => {
+  const [isOpen, setIsOpen] = useState(depth < INITIAL_DEPTH);
+  const labelEl = label !== undefined && <span className="text-slate-700 font-semibold">{label}: </span>;
+
+  if (value === null || typeof value !== 'object') {
+    return (
+      <div className="pl-4 py-px">
+        {labelEl}
+        <span className={VALUE_STYLES[typeOf(value)]}>{typeof value === 'string' ? `"${value}"` : String(value)}</span>
+      </div>
+    );
+  }
+
+  const entries: [string, Json][] = Array.isArray(value)
+    ? value.map((item, i) => [String(i), item])
+    : Object.entries(value);
+  const [open, close] = Array.isArray(value) ? ['[', ']'] : ['{', '}'];
+  const expanded = expandAll || isOpen;
+
+  return (
+    <div>
+      <button onClick={() => setIsOpen(!expanded)} className="flex items-center py-px text-left hover:bg-slate-50 rounded">
+        <ChevronRight className={`w-3 h-3 mx-0.5 text-slate-400 shrink-0 transition-transform ${expanded ? 'rotate-90' : ''}`} />
+        {labelEl}
+        <span className="text-slate-400">
+          {open}{!expanded && <span data-find-ignore> {entries.length} {entries.length === 1 ? 'item' : 'items'} {close}</span>}
+        </span>
+      </button>
+      {expanded && (
+        <>
+          <div className="ml-2 pl-2 border-l border-slate-100">
+            {entries.map(([key, child]) => (
+              <JsonNode key={key} label={key} value={child} depth={depth + 1} expandAll={expandAll} />
+            ))}
+          </div>
+          <div className="pl-4 text-slate-400">{close}</div>
+        </>
+      )}
+    </div>
+  );
+};
+
+/** JSON as a collapsible tree; invalid JSON is shown as text with the parse error. */
+export const JsonTree: React.FC<JsonTreeProps> = ({ content, expandAll = false }) => {
+  const parsed = useMemo(() => {
+    try {
+      return { value: JSON.parse(content) as Json };
+    } catch (e) {
+      return { error: e instanceof Error ? e.message : String(e) };
+    }
+  }, [content]);
+
+  if ('error' in parsed) {
+    return (
+      <>
+        <p className="mb-4 text-[11px] text-amber-700 bg-amber-50 border border-amber-100 rounded-lg px-3 py-2" data-find-ignore>
+          Could not parse JSON ({parsed.error}); showing the raw text.
+        </p>
+        <pre className="text-xs font-mono leading-relaxed text-slate-600 whitespace-pre-wrap">{content}</pre>
+      </>
+    );
+  }
+
+  return (
+    <div className="text-xs font-mono leading-relaxed">
+      <JsonNode value={parsed.value as Json} depth={0} expandAll={expandAll} />
+    </div>
+  );
+};
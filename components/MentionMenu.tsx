@@ -0,0 +1,38 @@
+import React from 'react';
+import { FileDocument } from '../types';
+import { FileIcon } from './FileIcon';
+import { baseName } from '../services/folderTree';
+
+interface MentionMenuProps {
+  files: FileDocument[];
+  activeIndex: number;
+  onPick: (file: FileDocument) => void;
+  onHover: (index: number) => void;
+}
+
+/** Suggestions for an `@` mention being typed in the composer. */
+export const MentionMenu: React.FC<MentionMenuProps> = ({ files, activeIndex, onPick, onHover }) => (
+  <div className="absolute left-4 bottom-full mb-2 w-80 max-w-[calc(100%-2rem)] bg-white rounded-2xl border border-slate-200 shadow-xl overflow-hidden z-30" role="listbox">
+    <p className="px-3 py-2 text-[10px] font-bold text-slate-400 uppercase tracking-wider border-b border-slate-100">
+      {files.length === 0 ? 'No indexed file matches' : 'Ask only from'}
+    </p>
+    {files.map((file, i) => (
+      <button
+        key={file.id}
+        role="option"
+        aria-selected={i === activeIndex}
+        // Keep focus in the composer
+        onMouseDown={e => e.preventDefault()}
+        onClick={() => onPick(file)}
+        onMouseEnter={() => onHover(i)}
+        className={`w-full flex items-center gap-2 px-3 py-2 text-left transition-colors ${i === activeIndex ? 'bg-indigo-50' : ''}`}
+      >
+        <FileIcon fileName={file.name} className="w-4 h-4 shrink-0" />
+        <span className="text-xs font-semibold text-slate-700 truncate">{baseName(file.name)}</span>
+        {file.name !== baseName(file.name) && (
+          <span className="ml-auto text-[10px] text-slate-400 truncate max-w-[40%]" title={file.name}>{file.name.slice(0, -baseName(file.name).length - 1)}</span>
+        )}
+      </button>
+    ))}
+  </div>
+);
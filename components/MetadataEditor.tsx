@@ -0,0 +1,63 @@
+import React, { useState } from 'react';
+import { Tag } from 'lucide-react';
+import { MetadataTag } from '../types';
+import { formatTag, formatTags, parseTags } from '../services/metadataService';
+
+interface MetadataEditorProps {
+  tags?: MetadataTag[];
+  note?: string; // Shown under the field, e.g. that saving re-indexes the file
+  onSave: (tags: MetadataTag[]) => void;
+  onCancel: () => void;
+}
+
+/** Inline `key=value, key=value` editor for a document's tags. */
+export const MetadataEditor: React.FC<MetadataEditorProps> = ({ tags, note, onSave, onCancel }) => {
+  const [draft, setDraft] = useState(formatTags(tags));
+  const parsed = parseTags(draft);
+
+  const save = () => {
+    if (!parsed.error) onSave(parsed.tags);
+  };
+
+  return (
+    <div className="mt-2 p-2.5 rounded-xl bg-slate-50 border border-slate-100 space-y-2">
+      <input
+        value={draft}
+        onChange={e => setDraft(e.target.value)}
+        onKeyDown={e => {
+          if (e.key === 'Enter') save();
+          if (e.key === 'Escape') onCancel();
+        }}
+        placeholder="client=acme, year=2025"
+        className="w-full px-2.5 py-1.5 text-xs font-mono rounded-lg border border-slate-200 bg-white focus:outline-none focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-300"
+        aria-label="Document tags"
+        autoFocus
+      />
+      {parsed.error ? (
+        <p className="text-[10px] text-red-600">{parsed.error}</p>
+      ) : parsed.tags.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {parsed.tags.map(tag => (
+            <span key={tag.key} className="flex items-center gap-1 px-1.5 py-0.5 rounded bg-white border border-slate-200 text-[10px] font-mono text-slate-600">
+              <Tag className="w-2.5 h-2.5 text-slate-400" />
+              {formatTag(tag)}
+            </span>
+          ))}
+        </div>
+      )}
+      {note && <p className="text-[10px] text-slate-400 leading-snug">{note}</p>}
+      <div className="flex justify-end gap-1">
+        <button onClick={onCancel} className="text-[10px] font-bold text-slate-500 px-2.5 py-1 hover:bg-slate-100 rounded-lg">
+          Cancel
+        </button>
+        <button
+          onClick={save}
+          disabled={!!parsed.error}
+          className="text-[10px] font-bold text-white bg-indigo-600 px-2.5 py-1 hover:bg-indigo-700 rounded-lg disabled:opacity-50"
+        >
+          Save tags
+        </button>
+      </div>
+    </div>
+  );
+};
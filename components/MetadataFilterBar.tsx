@@ -0,0 +1,122 @@
+import React, { useState } from 'react';
+import { Filter, X } from 'lucide-react';
+import { checkMetadataFilter, filterClause } from '../services/metadataService';
+
+interface MetadataFilterBarProps {
+  threadFilter?: string;
+  questionFilter?: string;
+  tagKeys: Map<string, string[]>; // Keys used in the workspace, with their values, as hints
+  disabled?: boolean;
+  onThreadFilterChange: (filter: string | undefined) => void;
+  onQuestionFilterChange: (filter: string | undefined) => void;
+}
+
+// Example values listed per key in the hints
+const HINT_VALUE_LIMIT = 3;
+
+/**
+ * Metadata filters for retrieval: one for the whole conversation, one for the next question only.
+ * Shown as removable chips above the chat input, with an editor for writing new ones.
+ */
+export const MetadataFilterBar: React.FC<MetadataFilterBarProps> = ({
+  threadFilter, questionFilter, tagKeys, disabled, onThreadFilterChange, onQuestionFilterChange
+}) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState('');
+  const error = draft.trim() ? checkMetadataFilter(draft) : undefined;
+
+  const apply = (scope: 'thread' | 'question') => {
+    const filter = draft.trim();
+    if (!filter || error) return;
+    (scope === 'thread' ? onThreadFilterChange : onQuestionFilterChange)(filter);
+    setIsEditing(false);
+    setDraft('');
+  };
+
+  const openEditor = () => {
+    setDraft(questionFilter ?? threadFilter ?? '');
+    setIsEditing(true);
+  };
+
+  const chip = (label: string, filter: string, tone: string, onClear: () => void, title: string) => (
+    <div className={`flex items-center gap-1.5 max-w-full px-3 py-1.5 rounded-xl border text-[11px] font-semibold shadow-sm ${tone}`} title={title}>
+      <Filter className="w-3.5 h-3.5 shrink-0" />
+      <span className="truncate">{label}: <span className="font-mono font-medium">{filter}</span></span>
+      <button onClick={onClear} disabled={disabled} className="p-0.5 hover:bg-black/5 rounded disabled:opacity-50" title="Remove filter">
+        <X className="w-3 h-3" />
+      </button>
+    </div>
+  );
+
+  return (
+    <div className="mb-2 space-y-2">
+      <div className="flex flex-wrap items-center gap-2">
+        {threadFilter && chip('Conversation', threadFilter, 'bg-indigo-50 border-indigo-100 text-indigo-700',
+          () => onThreadFilterChange(undefined), 'Every question in this conversation only searches matching documents')}
+        {questionFilter && chip('Next question', questionFilter, 'bg-sky-50 border-sky-100 text-sky-700',
+          () => onQuestionFilterChange(undefined), 'Only the next question is limited to matching documents')}
+        {!isEditing && tagKeys.size > 0 && (
+          <button
+            onClick={openEditor}
+            disabled={disabled}
+            className="flex items-center gap-1 px-2 py-1 rounded-lg text-[10px] font-bold text-slate-400 hover:text-indigo-600 uppercase tracking-wider disabled:opacity-50"
+          >
+            <Filter className="w-3 h-3" />
+            Filter by tags
+          </button>
+        )}
+      </div>
+
+      {isEditing && (
+        <div className="p-3 rounded-2xl bg-white border border-slate-200 shadow-lg space-y-2">
+          <input
+            value={draft}
+            onChange={e => setDraft(e.target.value)}
+            onKeyDown={e => {
+              if (e.key === 'Enter') apply(e.shiftKey ? 'question' : 'thread');
+              if (e.key === 'Escape') setIsEditing(false);
+            }}
+            placeholder='client = "acme" AND year >= 2024'
+            className="w-full px-3 py-2 text-xs font-mono rounded-lg border border-slate-200 focus:outline-none focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-300"
+            aria-label="Metadata filter"
+            autoFocus
+          />
+          {error && <p className="text-[10px] text-red-600">{error}</p>}
+          <div className="flex flex-wrap gap-1">
+            {Array.from(tagKeys, ([key, values]) => (
+              <button
+                key={key}
+                onClick={() => setDraft(d => `${d.trim() ? `${d.trim()} AND ` : ''}${filterClause({ key, value: values[0] })}`)}
+                className="px-1.5 py-0.5 rounded bg-slate-50 border border-slate-200 text-[10px] font-mono text-slate-500 hover:border-indigo-200 hover:text-indigo-600"
+                title={`Values: ${values.join(', ')}`}
+              >
+                {key}: {values.slice(0, HINT_VALUE_LIMIT).join(', ')}{values.length > HINT_VALUE_LIMIT ? ', …' : ''}
+              </button>
+            ))}
+          </div>
+          <div className="flex items-center justify-end gap-1">
+            <button onClick={() => setIsEditing(false)} className="text-[10px] font-bold text-slate-500 px-2.5 py-1 hover:bg-slate-100 rounded-lg">
+              Cancel
+            </button>
+            <button
+              onClick={() => apply('question')}
+              disabled={!draft.trim() || !!error}
+              className="text-[10px] font-bold text-sky-700 bg-sky-50 px-2.5 py-1 hover:bg-sky-100 rounded-lg disabled:opacity-50"
+              title="Shift + Enter"
+            >
+              Next question only
+            </button>
+            <button
+              onClick={() => apply('thread')}
+              disabled={!draft.trim() || !!error}
+              className="text-[10px] font-bold text-white bg-indigo-600 px-2.5 py-1 hover:bg-indigo-700 rounded-lg disabled:opacity-50"
+              title="Enter"
+            >
+              Whole conversation
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,279 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { PDFDocumentProxy, TextLayer } from 'pdfjs-dist';
+import { ChevronLeft, ChevronRight, Loader2, ZoomIn, ZoomOut } from 'lucide-react';
+import { loadPdf } from '../services/pdfService';
+import { passagePattern, queryPattern } from '../services/domTextSearch';
+
+interface PdfViewerProps {
+  file: Blob;
+  pageNumber?: number; // Page to scroll to, e.g. from a citation
+  findQuery?: string; // Pages matching it get their text layer even while off screen
+  passage?: string; // Cited passage; the page holding it gets its text layer
+}
+
+const ZOOM_STEPS = [0.75, 1, 1.25, 1.5, 2];
+const DEFAULT_ZOOM_INDEX = 1;
+// Canvases are drawn once a page comes within this margin of the viewport
+const RENDER_MARGIN = '600px';
+
+interface PageProps {
+  pdf: PDFDocumentProxy;
+  number: number;
+  scale: number;
+  placeholder: { width: number; height: number }; // Size until the page itself is loaded
+  needsText: boolean; // Build the text layer even if the page is off screen
+}
+
+/**
+ * One page: a placeholder sized like the first page until the page nears the viewport, when its
+ * canvas and text layer are drawn. Pages a search needs get their text layer regardless.
+ */
+const PdfPage: React.FC<PageProps> = ({ pdf, number, scale, placeholder, needsText }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const textRef = useRef<HTMLDivElement>(null);
+  const [size, setSize] = useState<{ width: number; height: number } | null>(null);
+  const [isVisible, setIsVisible] = useState(false);
+
+  useEffect(() => {
+    const el = containerRef.current;
+    if (!el) return;
+    const observer = new IntersectionObserver(([entry]) => {
+      if (entry.isIntersecting) setIsVisible(true);
+    }, { rootMargin: RENDER_MARGIN });
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, []);
+
+  const hasText = isVisible || needsText;
+
+  // Size and text layer
+  useEffect(() => {
+    if (!hasText) return;
+    let cancelled = false;
+    let textLayer: TextLayer | undefined;
+    (async () => {
+      const page = await pdf.getPage(number);
+      if (cancelled) return;
+      const viewport = page.getViewport({ scale });
+      setSize({ width: viewport.width, height: viewport.height });
+      const container = textRef.current;
+      if (!container) return;
+      container.replaceChildren();
+      textLayer = new TextLayer({ textContentSource: page.streamTextContent(), container, viewport });
+      await textLayer.render();
+    })().catch(e => console.error(`Failed to render text of page ${number}`, e));
+    return () => {
+      cancelled = true;
+      textLayer?.cancel();
+    };
+  }, [pdf, number, scale, hasText]);
+
+  // Canvas, once visible
+  useEffect(() => {
+    if (!isVisible) return;
+    let cancelled = false;
+    let task: { promise: Promise<void>; cancel: () => void } | undefined;
+    (async () => {
+      const page = await pdf.getPage(number);
+      const canvas = canvasRef.current;
+      if (cancelled || !canvas) return;
+      const viewport = page.getViewport({ scale });
+      const ratio = window.devicePixelRatio || 1;
+      canvas.width = Math.floor(viewport.width * ratio);
+      canvas.height = Math.floor(viewport.height * ratio);
+      task = page.render({ canvas, viewport, transform: ratio === 1 ? undefined : [ratio, 0, 0, ratio, 0, 0] });
+      await task.promise;
+    })().catch(e => {
+      if ((e as Error)?.name !== 'RenderingCancelledException') console.error(`Failed to render page ${number}`, e);
+    });
+    return () => {
+      cancelled = true;
+      task?.cancel();
+    };
+  }, [pdf, number, scale, isVisible]);
+
+  return (
+    <div
+      ref={containerRef}
+      id={`pdf-page-${number}`}
+      data-page-number={number}
+      className="relative mx-auto bg-white shadow-sm ring-1 ring-slate-200"
+      style={{
+        width: size?.width ?? placeholder.width * scale,
+        height: size?.height ?? placeholder.height * scale,
+        // Read by the text layer to scale its glyphs
+        ['--total-scale-factor' as string]: scale,
+        ['--scale-round-x' as string]: '1px',
+        ['--scale-round-y' as string]: '1px'
+      }}
+    >
+      <canvas ref={canvasRef} className="absolute inset-0 w-full h-full" />
+      <div ref={textRef} className="textLayer" />
+    </div>
+  );
+};
+
+/** Rendered PDF pages with a selectable text layer, page navigation and zoom. */
+export const PdfViewer: React.FC<PdfViewerProps> = ({ file, pageNumber, findQuery, passage }) => {
+  const [pdf, setPdf] = useState<PDFDocumentProxy | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [zoomIndex, setZoomIndex] = useState(DEFAULT_ZOOM_INDEX);
+  const [currentPage, setCurrentPage] = useState(1);
+  const [placeholder, setPlaceholder] = useState({ width: 600, height: 800 });
+  const [textPages, setTextPages] = useState<Set<number>>(new Set());
+  const pagesRef = useRef<HTMLDivElement>(null);
+  // Plain text of each page, read from the worker without building any DOM
+  const pageTexts = useRef(new Map<number, Promise<string>>());
+
+  useEffect(() => {
+    let cancelled = false;
+    setPdf(null);
+    setError(null);
+    pageTexts.current.clear();
+    const loading = (async () => {
+      const doc = await loadPdf(file);
+      if (cancelled) {
+        doc.destroy();
+        return;
+      }
+      setPdf(doc);
+      return doc;
+    })();
+    loading.catch(e => !cancelled && setError(e instanceof Error ? e.message : String(e)));
+    return () => {
+      cancelled = true;
+      loading.then(doc => doc?.destroy()).catch(() => undefined);
+    };
+  }, [file]);
+
+  useEffect(() => {
+    if (!pdf) return;
+    let cancelled = false;
+    pdf.getPage(1).then(page => {
+      const { width, height } = page.getViewport({ scale: 1 });
+      if (!cancelled) setPlaceholder({ width, height });
+    }).catch(() => undefined);
+    return () => { cancelled = true; };
+  }, [pdf]);
+
+  const pageText = (doc: PDFDocumentProxy, number: number): Promise<string> => {
+    let text = pageTexts.current.get(number);
+    if (!text) {
+      // Joined like the text layer's spans, so the same patterns match both
+      text = doc.getPage(number)
+        .then(page => page.getTextContent())
+        .then(({ items }) => items.map(item => 'str' in item ? item.str : '').join(''));
+      pageTexts.current.set(number, text);
+    }
+    return text;
+  };
+
+  // Find the pages a search or the cited passage lands on, so only those get off-screen text layers
+  useEffect(() => {
+    if (!pdf) return;
+    let cancelled = false;
+    const findPattern = queryPattern(findQuery ?? '');
+    const citedPattern = passage ? passagePattern(passage) : null;
+    (async () => {
+      const pages = new Set<number>();
+      // Without a page number the passage is looked for on the first page that holds it
+      let citedPage = citedPattern ? pageNumber : undefined;
+      const matches = (pattern: RegExp, text: string) => {
+        pattern.lastIndex = 0;
+        return pattern.test(text);
+      };
+      for (let number = 1; number <= pdf.numPages && (findPattern || (citedPattern && !citedPage)); number++) {
+        const text = await pageText(pdf, number);
+        if (cancelled) return;
+        if (findPattern && matches(findPattern, text)) pages.add(number);
+        if (citedPattern && !citedPage && matches(citedPattern, text)) citedPage = number;
+      }
+      if (citedPage) pages.add(citedPage);
+      if (!cancelled) setTextPages(pages);
+    })().catch(e => console.error('Failed to search the PDF text', e));
+    return () => { cancelled = true; };
+  }, [pdf, findQuery, passage, pageNumber]);
+
+  const goToPage = (page: number) => {
+    if (!pdf) return;
+    const target = Math.min(Math.max(page, 1), pdf.numPages);
+    document.getElementById(`pdf-page-${target}`)?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+    setCurrentPage(target);
+  };
+
+  useEffect(() => {
+    if (pdf && pageNumber) goToPage(pageNumber);
+  }, [pdf, pageNumber]);
+
+  // Track the page nearest the top of the scroll area
+  useEffect(() => {
+    const container = pagesRef.current;
+    if (!pdf || !container) return;
+    const observer = new IntersectionObserver(entries => {
+      const visible = entries.filter(e => e.isIntersecting).sort((a, b) => a.boundingClientRect.top - b.boundingClientRect.top);
+      if (visible.length > 0) setCurrentPage(Number((visible[0].target as HTMLElement).dataset.pageNumber));
+    }, { threshold: 0.4 });
+    container.querySelectorAll('[data-page-number]').forEach(el => observer.observe(el));
+    return () => observer.disconnect();
+  }, [pdf, zoomIndex]);
+
+  if (error) {
+    return <p className="text-xs text-red-600 font-medium p-4 bg-red-50 rounded-xl border border-red-100">Could not open this PDF: {error}</p>;
+  }
+  if (!pdf) {
+    return (
+      <div className="flex flex-col items-center justify-center h-full text-slate-400">
+        <Loader2 className="w-8 h-8 animate-spin mb-3 text-indigo-200" />
+        <span className="text-xs font-medium uppercase tracking-widest">Loading PDF...</span>
+      </div>
+    );
+  }
+
+  const scale = ZOOM_STEPS[zoomIndex];
+  return (
+    <div className="space-y-4">
+      <div className="sticky top-0 z-10 flex items-center justify-between gap-2 px-3 py-1.5 rounded-xl bg-white/90 backdrop-blur border border-slate-200 shadow-sm text-[11px] font-semibold text-slate-600" data-find-ignore>
+        <div className="flex items-center gap-1">
+          <button onClick={() => goToPage(currentPage - 1)} disabled={currentPage <= 1} className="p-1 rounded hover:bg-slate-100 disabled:opacity-30" title="Previous page">
+            <ChevronLeft className="w-3.5 h-3.5" />
+          </button>
+          <input
+            type="number"
+            min={1}
+            max={pdf.numPages}
+            value={currentPage}
+            onChange={e => goToPage(Number(e.target.value))}
+            className="w-12 text-center rounded border border-slate-200 py-0.5 focus:outline-none focus:border-indigo-300"
+            aria-label="Page number"
+          />
+          <span className="text-slate-400">/ {pdf.numPages}</span>
+          <button onClick={() => goToPage(currentPage + 1)} disabled={currentPage >= pdf.numPages} className="p-1 rounded hover:bg-slate-100 disabled:opacity-30" title="Next page">
+            <ChevronRight className="w-3.5 h-3.5" />
+          </button>
+        </div>
+        <div className="flex items-center gap-1">
+          <button onClick={() => setZoomIndex(i => Math.max(i - 1, 0))} disabled={zoomIndex === 0} className="p-1 rounded hover:bg-slate-100 disabled:opacity-30" title="Zoom out">
+            <ZoomOut className="w-3.5 h-3.5" />
+          </button>
+          <span className="w-10 text-center tabular-nums">{Math.round(scale * 100)}%</span>
+          <button onClick={() => setZoomIndex(i => Math.min(i + 1, ZOOM_STEPS.length - 1))} disabled={zoomIndex === ZOOM_STEPS.length - 1} className="p-1 rounded hover:bg-slate-100 disabled:opacity-30" title="Zoom in">
+            <ZoomIn className="w-3.5 h-3.5" />
+          </button>
+        </div>
+      </div>
+      <div ref={pagesRef} className="space-y-4 overflow-x-auto pb-4">
+        {Array.from({ length: pdf.numPages }, (_, i) => (
+          <PdfPage
+            key={i + 1}
+            pdf={pdf}
+            number={i + 1}
+            scale={scale}
+            placeholder={placeholder}
+            needsText={textPages.has(i + 1)}
+          />
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,291 @@
+import React, { useMemo, useState } from 'react';
+import { BookOpen, Copy, Lock, Pencil, Plus, Trash2, X } from 'lucide-react';
+import { PromptSelection, PromptTemplate } from '../types';
+import { DEFAULT_PROMPT_ID } from '../constants';
+import { extractVariables, renderPrompt } from '../services/promptService';
+
+export type PromptScope = 'workspace' | 'thread';
+
+interface PromptLibraryProps {
+  prompts: PromptTemplate[];
+  workspaceName: string;
+  workspaceSelection?: PromptSelection;
+  threadSelection?: PromptSelection;
+  hasThread: boolean;
+  onSavePrompt: (prompt: PromptTemplate) => void;
+  onDeletePrompt: (id: string) => void;
+  onApply: (scope: PromptScope, selection: PromptSelection | undefined) => void;
+  onClose: () => void;
+}
+
+type Draft = Pick<PromptTemplate, 'id' | 'name' | 'description' | 'template'>;
+
+const BLANK_TEMPLATE = `You are a document analyst writing for {{audience}}.
+
+Only answer from the uploaded documents and cite them inline as **[Filename]**.
+
+Answer in {{language|English}}.`;
+
+export const PromptLibrary: React.FC<PromptLibraryProps> = ({
+  prompts, workspaceName, workspaceSelection, threadSelection, hasThread,
+  onSavePrompt, onDeletePrompt, onApply, onClose
+}) => {
+  const initialSelection = threadSelection || workspaceSelection;
+  const [selectedId, setSelectedId] = useState(
+    prompts.some(p => p.id === initialSelection?.promptId) ? initialSelection!.promptId : DEFAULT_PROMPT_ID
+  );
+  const [variables, setVariables] = useState<Record<string, string>>(initialSelection?.variables || {});
+  const [draft, setDraft] = useState<Draft | null>(null);
+
+  const selected = prompts.find(p => p.id === selectedId) || prompts[0];
+  const template = draft ? draft.template : selected.template;
+  const templateVariables = useMemo(() => extractVariables(template), [template]);
+  const preview = useMemo(() => renderPrompt(template, variables), [template, variables]);
+
+  const select = (id: string) => {
+    if (draft) return;
+    setSelectedId(id);
+    // Start from the values already in use for this prompt, if any
+    const inUse = [threadSelection, workspaceSelection].find(s => s?.promptId === id);
+    setVariables(inUse?.variables || {});
+  };
+
+  const startNew = (source?: PromptTemplate) => {
+    setDraft({
+      id: crypto.randomUUID(),
+      name: source ? `${source.name} (copy)` : 'Untitled prompt',
+      description: source?.description,
+      template: source ? source.template.trim() : BLANK_TEMPLATE
+    });
+  };
+
+  const saveDraft = () => {
+    if (!draft || !draft.name.trim() || !draft.template.trim()) return;
+    onSavePrompt({ ...draft, name: draft.name.trim(), description: draft.description?.trim() || undefined, updatedAt: Date.now() });
+    setSelectedId(draft.id);
+    setDraft(null);
+  };
+
+  const handleDelete = (prompt: PromptTemplate) => {
+    if (!window.confirm(`Delete prompt "${prompt.name}"? Workspaces and conversations using it will fall back to the default.`)) return;
+    onDeletePrompt(prompt.id);
+    setSelectedId(DEFAULT_PROMPT_ID);
+    setVariables({});
+  };
+
+  /** Only keep values for variables the template actually has. */
+  const currentSelection = (): PromptSelection => ({
+    promptId: selected.id,
+    variables: Object.fromEntries(
+      templateVariables.filter(v => variables[v.name]?.trim()).map(v => [v.name, variables[v.name].trim()])
+    )
+  });
+
+  const scopeBadge = (id: string) => {
+    if (threadSelection?.promptId === id) return 'Conversation';
+    if (!threadSelection && (workspaceSelection?.promptId ?? DEFAULT_PROMPT_ID) === id) return 'In use';
+    if (workspaceSelection?.promptId === id) return 'Workspace';
+    return null;
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/30 backdrop-blur-sm p-4 animate-fadeIn" onClick={onClose}>
+      <div
+        className="w-full max-w-4xl h-[80vh] bg-white rounded-3xl shadow-2xl border border-slate-200 overflow-hidden flex flex-col"
+        onClick={e => e.stopPropagation()}
+        role="dialog"
+        aria-label="Prompt library"
+      >
+        <div className="px-6 py-4 border-b border-slate-100 flex items-center justify-between shrink-0">
+          <h2 className="font-bold text-slate-800 flex items-center gap-2">
+            <BookOpen className="w-4 h-4 text-indigo-500" />
+            Prompt Library
+          </h2>
+          <button onClick={onClose} className="p-1.5 hover:bg-slate-100 rounded-lg text-slate-400">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="flex-1 flex min-h-0">
+          {/* Prompt list */}
+          <div className="w-64 shrink-0 border-r border-slate-100 p-3 flex flex-col gap-2 min-h-0">
+            <button
+              onClick={() => startNew()}
+              disabled={!!draft}
+              className="w-full flex items-center gap-2 px-3 py-2 rounded-xl border border-dashed border-slate-200 text-xs font-semibold text-indigo-600 hover:border-indigo-300 hover:bg-indigo-50/50 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Plus className="w-3.5 h-3.5" />
+              New prompt
+            </button>
+            <div className="flex-1 overflow-y-auto space-y-1">
+              {prompts.map(prompt => {
+                const isSelected = prompt.id === selected.id;
+                const badge = scopeBadge(prompt.id);
+                return (
+                  <button
+                    key={prompt.id}
+                    onClick={() => select(prompt.id)}
+                    disabled={!!draft && !isSelected}
+                    className={`w-full text-left px-3 py-2 rounded-xl transition-colors disabled:opacity-50 ${
+                      isSelected ? 'bg-indigo-50/70 ring-1 ring-indigo-100' : 'hover:bg-slate-50'
+                    }`}
+                  >
+                    <div className="flex items-center gap-1.5">
+                      {prompt.isBuiltIn && <Lock className="w-3 h-3 text-slate-300 shrink-0" />}
+                      <span className={`text-xs truncate ${isSelected ? 'font-bold text-indigo-900' : 'font-medium text-slate-600'}`}>
+                        {prompt.name}
+                      </span>
+                      {badge && (
+                        <span className="ml-auto shrink-0 text-[9px] font-bold uppercase text-emerald-600">{badge}</span>
+                      )}
+                    </div>
+                    {prompt.description && (
+                      <p className="text-[10px] text-slate-400 truncate mt-0.5">{prompt.description}</p>
+                    )}
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+
+          {/* Details */}
+          <div className="flex-1 flex flex-col min-w-0 min-h-0 overflow-y-auto p-6 space-y-5">
+            {draft ? (
+              <div className="space-y-3">
+                <input
+                  value={draft.name}
+                  onChange={e => setDraft({ ...draft, name: e.target.value })}
+                  placeholder="Prompt name"
+                  className="w-full px-3 py-2 rounded-xl border border-slate-200 text-sm font-semibold text-slate-700 focus:outline-none focus:ring-2 focus:ring-indigo-500/20"
+                />
+                <input
+                  value={draft.description || ''}
+                  onChange={e => setDraft({ ...draft, description: e.target.value })}
+                  placeholder="Short description (optional)"
+                  className="w-full px-3 py-2 rounded-xl border border-slate-200 text-xs text-slate-600 focus:outline-none focus:ring-2 focus:ring-indigo-500/20"
+                />
+                <textarea
+                  value={draft.template}
+                  onChange={e => setDraft({ ...draft, template: e.target.value })}
+                  rows={10}
+                  spellCheck={false}
+                  className="w-full px-3 py-2 rounded-xl border border-slate-200 text-xs font-mono text-slate-700 focus:outline-none focus:ring-2 focus:ring-indigo-500/20 resize-y"
+                />
+                <p className="text-[10px] text-slate-400">
+                  Use <code className="font-mono">{'{{name}}'}</code> for a variable, or <code className="font-mono">{'{{name|default}}'}</code> to give it a default value.
+                </p>
+              </div>
+            ) : (
+              <div className="flex items-start justify-between gap-3">
+                <div className="min-w-0">
+                  <h3 className="font-bold text-slate-800 truncate">{selected.name}</h3>
+                  {selected.description && <p className="text-xs text-slate-500 mt-0.5">{selected.description}</p>}
+                </div>
+                <div className="flex gap-1 shrink-0">
+                  <button
+                    onClick={() => startNew(selected)}
+                    className="p-1.5 text-slate-400 hover:text-indigo-600 hover:bg-slate-50 rounded-lg"
+                    title="Duplicate"
+                  >
+                    <Copy className="w-3.5 h-3.5" />
+                  </button>
+                  {!selected.isBuiltIn && (
+                    <>
+                      <button
+                        onClick={() => setDraft({ id: selected.id, name: selected.name, description: selected.description, template: selected.template })}
+                        className="p-1.5 text-slate-400 hover:text-indigo-600 hover:bg-slate-50 rounded-lg"
+                        title="Edit"
+                      >
+                        <Pencil className="w-3.5 h-3.5" />
+                      </button>
+                      <button
+                        onClick={() => handleDelete(selected)}
+                        className="p-1.5 text-slate-400 hover:text-red-500 hover:bg-red-50 rounded-lg"
+                        title="Delete"
+                      >
+                        <Trash2 className="w-3.5 h-3.5" />
+                      </button>
+                    </>
+                  )}
+                </div>
+              </div>
+            )}
+
+            {templateVariables.length > 0 && (
+              <div>
+                <span className="text-[11px] font-bold text-slate-500 uppercase tracking-widest">Variables</span>
+                <div className="mt-2 grid grid-cols-1 sm:grid-cols-2 gap-3">
+                  {templateVariables.map(v => (
+                    <label key={v.name} className="block">
+                      <span className="text-[10px] font-mono font-semibold text-slate-500">{v.name}</span>
+                      <input
+                        value={variables[v.name] || ''}
+                        onChange={e => setVariables(prev => ({ ...prev, [v.name]: e.target.value }))}
+                        placeholder={v.defaultValue || '(empty)'}
+                        className="mt-1 w-full px-3 py-2 rounded-xl border border-slate-200 text-xs text-slate-700 focus:outline-none focus:ring-2 focus:ring-indigo-500/20"
+                      />
+                    </label>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <div className="flex-1 flex flex-col min-h-[160px]">
+              <span className="text-[11px] font-bold text-slate-500 uppercase tracking-widest">Preview</span>
+              <pre className="mt-2 flex-1 overflow-auto p-4 rounded-xl bg-slate-50 border border-slate-100 text-[11px] leading-relaxed text-slate-600 whitespace-pre-wrap font-mono custom-scrollbar">
+                {preview}
+              </pre>
+            </div>
+          </div>
+        </div>
+
+        <div className="px-6 py-4 bg-slate-50/70 border-t border-slate-100 flex items-center justify-between gap-3 shrink-0">
+          {draft ? (
+            <>
+              <span className="text-[10px] text-slate-400 font-medium">Saved prompts are available in every workspace.</span>
+              <div className="flex gap-2 shrink-0">
+                <button onClick={() => setDraft(null)} className="text-xs font-bold text-slate-500 px-4 py-2 hover:bg-slate-100 rounded-xl transition-colors">
+                  Cancel
+                </button>
+                <button
+                  onClick={saveDraft}
+                  disabled={!draft.name.trim() || !draft.template.trim()}
+                  className="text-xs font-bold text-white bg-indigo-600 px-4 py-2 hover:bg-indigo-700 rounded-xl shadow-sm transition-colors disabled:opacity-50"
+                >
+                  Save prompt
+                </button>
+              </div>
+            </>
+          ) : (
+            <>
+              {threadSelection ? (
+                <button
+                  onClick={() => onApply('thread', undefined)}
+                  className="text-xs font-bold text-slate-500 px-3 py-2 hover:bg-slate-100 rounded-xl transition-colors truncate"
+                >
+                  Clear conversation override
+                </button>
+              ) : <span />}
+              <div className="flex gap-2 shrink-0">
+                <button
+                  onClick={() => onApply('workspace', currentSelection())}
+                  className="text-xs font-bold text-indigo-700 bg-indigo-50 px-4 py-2 hover:bg-indigo-100 rounded-xl transition-colors max-w-[220px] truncate"
+                  title={`Use for every conversation in "${workspaceName}" without its own prompt`}
+                >
+                  Use for workspace
+                </button>
+                <button
+                  onClick={() => onApply('thread', currentSelection())}
+                  disabled={!hasThread}
+                  className="text-xs font-bold text-white bg-indigo-600 px-4 py-2 hover:bg-indigo-700 rounded-xl shadow-sm transition-colors disabled:opacity-50"
+                >
+                  Use for this conversation
+                </button>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
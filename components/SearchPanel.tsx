@@ -0,0 +1,98 @@
+import React, { useDeferredValue, useMemo, useState } from 'react';
+import { Loader2, Search, X } from 'lucide-react';
+import { FileDocument } from '../types';
+import { FileIcon } from './FileIcon';
+import { FileIndex, SearchHit, searchIndex } from '../services/searchIndexService';
+import { baseName } from '../services/folderTree';
+
+interface SearchPanelProps {
+  files: FileDocument[];
+  indexes: FileIndex[];
+  indexingCount: number; // Files whose text is still being indexed
+  onOpenHit: (hit: SearchHit) => void;
+}
+
+const renderSnippet = ({ snippet, highlights }: SearchHit) => {
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+  highlights.forEach(([start, end], i) => {
+    if (start < cursor) return;
+    parts.push(snippet.slice(cursor, start));
+    parts.push(<mark key={i} className="bg-amber-200/70 text-slate-900 rounded-sm px-0.5">{snippet.slice(start, end)}</mark>);
+    cursor = end;
+  });
+  parts.push(snippet.slice(cursor));
+  return parts;
+};
+
+/** Instant local full-text search over the workspace's documents. */
+export const SearchPanel: React.FC<SearchPanelProps> = ({ files, indexes, indexingCount, onOpenHit }) => {
+  const [query, setQuery] = useState('');
+  // Keep typing responsive on large workspaces
+  const deferredQuery = useDeferredValue(query);
+
+  const filesById = useMemo(() => new Map(files.map(f => [f.id, f])), [files]);
+  const results = useMemo(
+    () => (deferredQuery.trim() ? searchIndex(indexes, deferredQuery) : null),
+    [indexes, deferredQuery]
+  );
+
+  return (
+    <div className="space-y-2">
+      <div className="relative">
+        <Search className="w-3.5 h-3.5 absolute left-3 top-1/2 -translate-y-1/2 text-slate-400" />
+        <input
+          value={query}
+          onChange={e => setQuery(e.target.value)}
+          onKeyDown={e => e.key === 'Escape' && setQuery('')}
+          placeholder="Search document text..."
+          className="w-full pl-9 pr-8 py-2 text-xs rounded-xl border border-slate-200 bg-white focus:outline-none focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-300"
+          aria-label="Search document text"
+        />
+        {query && (
+          <button onClick={() => setQuery('')} className="absolute right-2 top-1/2 -translate-y-1/2 p-1 text-slate-400 hover:text-slate-600 rounded" title="Clear search">
+            <X className="w-3 h-3" />
+          </button>
+        )}
+      </div>
+
+      {indexingCount > 0 && (
+        <p className="flex items-center gap-1.5 px-1 text-[10px] text-slate-400">
+          <Loader2 className="w-3 h-3 animate-spin" />
+          Indexing {indexingCount} file{indexingCount === 1 ? '' : 's'}...
+        </p>
+      )}
+
+      {results && (
+        <div className="rounded-xl border border-slate-100 bg-white overflow-hidden">
+          <p className="px-3 py-2 text-[10px] font-bold text-slate-400 uppercase tracking-wider border-b border-slate-100">
+            {results.hits.length === 0
+              ? 'No matches'
+              : `${results.truncated ? `Top ${results.hits.length}` : results.hits.length} hit${results.hits.length === 1 ? '' : 's'} in ${results.fileCount} file${results.fileCount === 1 ? '' : 's'}`}
+          </p>
+          <ul className="max-h-80 overflow-y-auto divide-y divide-slate-50">
+            {results.hits.map((hit, i) => {
+              const file = filesById.get(hit.fileId);
+              if (!file) return null;
+              return (
+                <li key={`${hit.fileId}:${hit.line.page ?? 0}:${hit.line.line}:${i}`}>
+                  <button onClick={() => onOpenHit(hit)} className="w-full text-left px-3 py-2 hover:bg-indigo-50/40 transition-colors">
+                    <div className="flex items-center gap-1.5 mb-0.5">
+                      <FileIcon fileName={file.name} className="w-3 h-3 shrink-0" />
+                      <span className="text-[11px] font-semibold text-slate-700 truncate" title={file.name}>{baseName(file.name)}</span>
+                      {(file.version ?? 1) > 1 && <span className="text-[9px] font-bold text-indigo-400 shrink-0">v{file.version}</span>}
+                      <span className="ml-auto text-[9px] font-semibold text-slate-400 shrink-0">
+                        {hit.line.page ? `p. ${hit.line.page} · ` : ''}L{hit.line.line}
+                      </span>
+                    </div>
+                    <p className="text-[11px] text-slate-500 leading-snug break-words">{renderSnippet(hit)}</p>
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,172 @@
+import React, { useState } from 'react';
+import { SlidersHorizontal, X } from 'lucide-react';
+import { GenerationSettings } from '../types';
+import { AVAILABLE_MODELS } from '../constants';
+import { resolveSettings } from '../services/storageService';
+
+interface SettingsPanelProps {
+  globalSettings: GenerationSettings;
+  workspaceName: string;
+  workspaceOverride?: Partial<GenerationSettings>;
+  onSave: (global: GenerationSettings, override: Partial<GenerationSettings>) => void;
+  onClose: () => void;
+}
+
+type Scope = 'global' | 'workspace';
+type NumericKey = 'temperature' | 'maxOutputTokens' | 'thinkingBudget';
+
+const NUMERIC_FIELDS: Array<{
+  key: NumericKey;
+  label: string;
+  hint: string;
+  min: number;
+  max: number;
+  step: number;
+  initial: number;
+}> = [
+  { key: 'temperature', label: 'Temperature', hint: 'Lower is more deterministic.', min: 0, max: 2, step: 0.1, initial: 1 },
+  { key: 'maxOutputTokens', label: 'Max output tokens', hint: 'Upper bound on answer length.', min: 1, max: 65536, step: 1, initial: 8192 },
+  { key: 'thinkingBudget', label: 'Thinking budget', hint: '-1 lets the model decide, 0 turns thinking off.', min: -1, max: 32768, step: 1, initial: -1 }
+];
+
+const modelLabel = (id: string) => AVAILABLE_MODELS.find(m => m.id === id)?.label || id;
+
+export const SettingsPanel: React.FC<SettingsPanelProps> = ({
+  globalSettings, workspaceName, workspaceOverride, onSave, onClose
+}) => {
+  const [scope, setScope] = useState<Scope>(workspaceOverride && Object.keys(workspaceOverride).length > 0 ? 'workspace' : 'global');
+  const [globalDraft, setGlobalDraft] = useState<GenerationSettings>(globalSettings);
+  const [overrideDraft, setOverrideDraft] = useState<Partial<GenerationSettings>>(workspaceOverride || {});
+
+  const values: Partial<GenerationSettings> = scope === 'global' ? globalDraft : overrideDraft;
+  const effective = resolveSettings(globalDraft, overrideDraft);
+
+  const update = (patch: Partial<GenerationSettings>) => {
+    if (scope === 'global') setGlobalDraft(prev => ({ ...prev, ...patch }));
+    else setOverrideDraft(prev => ({ ...prev, ...patch }));
+  };
+
+  /** What an unset field falls back to in the current scope. */
+  const fallbackLabel = (key: NumericKey) => {
+    if (scope === 'global') return 'Model default';
+    const inherited = globalDraft[key];
+    return `Inherit (${inherited === undefined ? 'model default' : inherited})`;
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/30 backdrop-blur-sm p-4 animate-fadeIn" onClick={onClose}>
+      <div
+        className="w-full max-w-lg bg-white rounded-3xl shadow-2xl border border-slate-200 overflow-hidden"
+        onClick={e => e.stopPropagation()}
+        role="dialog"
+        aria-label="Model settings"
+      >
+        <div className="px-6 py-4 border-b border-slate-100 flex items-center justify-between">
+          <h2 className="font-bold text-slate-800 flex items-center gap-2">
+            <SlidersHorizontal className="w-4 h-4 text-indigo-500" />
+            Model & Generation
+          </h2>
+          <button onClick={onClose} className="p-1.5 hover:bg-slate-100 rounded-lg text-slate-400">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="px-6 pt-4">
+          <div className="flex p-1 bg-slate-100 rounded-xl text-xs font-semibold">
+            {(['global', 'workspace'] as Scope[]).map(s => (
+              <button
+                key={s}
+                onClick={() => setScope(s)}
+                className={`flex-1 py-2 rounded-lg transition-all truncate px-2 ${scope === s ? 'bg-white shadow-sm text-indigo-700' : 'text-slate-500 hover:text-slate-700'}`}
+              >
+                {s === 'global' ? 'Global defaults' : `Workspace: ${workspaceName}`}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="px-6 py-5 space-y-5">
+          <label className="block">
+            <span className="text-[11px] font-bold text-slate-500 uppercase tracking-widest">Model</span>
+            <select
+              value={values.modelId ?? ''}
+              onChange={e => update({ modelId: e.target.value || undefined })}
+              className="mt-2 w-full px-3 py-2.5 rounded-xl border border-slate-200 text-sm font-medium text-slate-700 focus:outline-none focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-300"
+            >
+              {scope === 'workspace' && <option value="">Inherit ({modelLabel(globalDraft.modelId)})</option>}
+              {AVAILABLE_MODELS.map(m => <option key={m.id} value={m.id}>{m.label}</option>)}
+            </select>
+          </label>
+
+          {NUMERIC_FIELDS.map(field => {
+            const value = values[field.key];
+            const isSet = value !== undefined;
+            return (
+              <div key={field.key}>
+                <div className="flex items-center justify-between">
+                  <span className="text-[11px] font-bold text-slate-500 uppercase tracking-widest">{field.label}</span>
+                  <label className="flex items-center gap-2 text-[11px] font-medium text-slate-500 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={isSet}
+                      onChange={e => update({ [field.key]: e.target.checked ? (globalDraft[field.key] ?? field.initial) : undefined })}
+                      className="rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
+                    />
+                    Custom
+                  </label>
+                </div>
+                {isSet ? (
+                  <div className="mt-2 flex items-center gap-3">
+                    {field.key === 'temperature' && (
+                      <input
+                        type="range"
+                        min={field.min}
+                        max={field.max}
+                        step={field.step}
+                        value={value}
+                        onChange={e => update({ [field.key]: Number(e.target.value) })}
+                        className="flex-1 accent-indigo-600"
+                      />
+                    )}
+                    <input
+                      type="number"
+                      min={field.min}
+                      max={field.max}
+                      step={field.step}
+                      value={value}
+                      onChange={e => {
+                        const next = Number(e.target.value);
+                        if (!Number.isNaN(next)) update({ [field.key]: Math.min(field.max, Math.max(field.min, next)) });
+                      }}
+                      className={`${field.key === 'temperature' ? 'w-20' : 'w-full'} px-3 py-2 rounded-xl border border-slate-200 text-sm font-mono text-slate-700 focus:outline-none focus:ring-2 focus:ring-indigo-500/20`}
+                    />
+                  </div>
+                ) : (
+                  <p className="mt-2 text-xs text-slate-400 font-medium">{fallbackLabel(field.key)}</p>
+                )}
+                <p className="mt-1 text-[10px] text-slate-400">{field.hint}</p>
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="px-6 py-4 bg-slate-50/70 border-t border-slate-100 flex items-center justify-between gap-3">
+          <span className="text-[10px] text-slate-400 font-medium truncate">
+            Effective here: {modelLabel(effective.modelId)}
+          </span>
+          <div className="flex gap-2 shrink-0">
+            <button onClick={onClose} className="text-xs font-bold text-slate-500 px-4 py-2 hover:bg-slate-100 rounded-xl transition-colors">
+              Cancel
+            </button>
+            <button
+              onClick={() => onSave(globalDraft, overrideDraft)}
+              className="text-xs font-bold text-white bg-indigo-600 px-4 py-2 hover:bg-indigo-700 rounded-xl shadow-sm transition-colors"
+            >
+              Save
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
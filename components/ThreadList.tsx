@@ -0,0 +1,93 @@
+import React from 'react';
+import { MessageSquare, Pencil, Plus, Trash2 } from 'lucide-react';
+import { ChatThread } from '../types';
+
+interface ThreadListProps {
+  threads: ChatThread[];
+  activeThreadId: string | null;
+  disabled?: boolean;
+  onSelect: (id: string) => void;
+  onCreate: () => void;
+  onRename: (id: string, title: string) => void;
+  onDelete: (id: string) => void;
+}
+
+/** "14:05" for today, "Mar 3" otherwise. */
+const formatThreadTime = (timestamp: number) => {
+  const date = new Date(timestamp);
+  return date.toDateString() === new Date().toDateString()
+    ? date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+    : date.toLocaleDateString([], { month: 'short', day: 'numeric' });
+};
+
+export const ThreadList: React.FC<ThreadListProps> = ({
+  threads, activeThreadId, disabled, onSelect, onCreate, onRename, onDelete
+}) => {
+  const sorted = [...threads].sort((a, b) => b.updatedAt - a.updatedAt);
+
+  const handleRename = (thread: ChatThread) => {
+    const title = window.prompt("Rename conversation:", thread.title)?.trim();
+    if (title && title !== thread.title) onRename(thread.id, title);
+  };
+
+  const handleDelete = (thread: ChatThread) => {
+    if (window.confirm(`Delete conversation "${thread.title}"? This cannot be undone.`)) onDelete(thread.id);
+  };
+
+  return (
+    <div className="space-y-1.5">
+      <button
+        onClick={onCreate}
+        disabled={disabled}
+        className="w-full flex items-center gap-2 px-3 py-2 rounded-xl border border-dashed border-slate-200 text-xs font-semibold text-indigo-600 hover:border-indigo-300 hover:bg-indigo-50/50 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        <Plus className="w-3.5 h-3.5" />
+        New conversation
+      </button>
+      <div className="max-h-56 overflow-y-auto space-y-1">
+        {sorted.map(thread => {
+          const isActive = thread.id === activeThreadId;
+          return (
+            <div
+              key={thread.id}
+              className={`group/thread flex items-center gap-1 rounded-xl transition-colors ${
+                isActive ? 'bg-indigo-50/70 ring-1 ring-indigo-100' : 'hover:bg-slate-50'
+              }`}
+            >
+              <button
+                onClick={() => onSelect(thread.id)}
+                disabled={disabled}
+                className="flex-1 flex items-center gap-2.5 px-3 py-2 min-w-0 text-left disabled:cursor-not-allowed"
+              >
+                <MessageSquare className={`w-3.5 h-3.5 shrink-0 ${isActive ? 'text-indigo-500' : 'text-slate-300'}`} />
+                <div className="flex flex-col min-w-0">
+                  <span className={`text-xs truncate ${isActive ? 'font-bold text-indigo-900' : 'font-medium text-slate-600'}`}>
+                    {thread.title}
+                  </span>
+                  <span className="text-[10px] text-slate-400 font-medium">
+                    {formatThreadTime(thread.updatedAt)}
+                  </span>
+                </div>
+              </button>
+              <button
+                onClick={() => handleRename(thread)}
+                className="p-1.5 text-slate-300 hover:text-indigo-600 rounded-lg opacity-0 group-hover/thread:opacity-100 transition-all"
+                title="Rename conversation"
+              >
+                <Pencil className="w-3 h-3" />
+              </button>
+              <button
+                onClick={() => handleDelete(thread)}
+                disabled={disabled}
+                className="p-1.5 text-slate-300 hover:text-red-500 rounded-lg opacity-0 group-hover/thread:opacity-100 transition-all mr-1"
+                title="Delete conversation"
+              >
+                <Trash2 className="w-3 h-3" />
+              </button>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,44 @@
+import React from 'react';
+import { FileDocument } from '../types';
+
+interface UploadProgressProps {
+  status: FileDocument['status'];
+}
+
+// Queue position and server-side phases, in the order a file moves through them
+const STEPS: Array<{ status: FileDocument['status']; label: string }> = [
+  { status: 'pending', label: 'Queued' },
+  { status: 'uploading', label: 'Uploading' },
+  { status: 'processing', label: 'Processing' },
+  { status: 'importing', label: 'Indexing' },
+  { status: 'active', label: 'Ready' }
+];
+
+/** True while a file is still waiting in or moving through the upload queue. */
+export const isInUploadQueue = (status: FileDocument['status']) =>
+  status === 'pending' || status === 'uploading' || status === 'processing' || status === 'importing';
+
+/** Phase label plus a stepped bar for a file that has not finished uploading. */
+export const UploadProgress: React.FC<UploadProgressProps> = ({ status }) => {
+  if (status === 'paused') {
+    return <span className="text-[9px] text-amber-600 font-bold uppercase">Paused</span>;
+  }
+  const current = STEPS.findIndex(step => step.status === status);
+  if (current < 0) return null;
+
+  return (
+    <div className="flex items-center gap-2 w-full" title={`Step ${current + 1} of ${STEPS.length}`}>
+      <span className="text-[9px] text-indigo-600 font-bold uppercase shrink-0">{STEPS[current].label}</span>
+      <div className="flex-1 flex gap-0.5">
+        {STEPS.slice(1).map((step, i) => (
+          <div
+            key={step.label}
+            className={`h-1 flex-1 rounded-full transition-colors ${
+              i + 1 < current ? 'bg-indigo-500' : i + 1 === current ? 'bg-indigo-300 animate-pulse' : 'bg-slate-200'
+            }`}
+          />
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,113 @@
+import React, { useMemo, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { diffLines, summarizeDiff, toSideBySide, SideBySideRow } from '../services/diffService';
+
+interface VersionDiffProps {
+  leftLabel: string;
+  rightLabel: string;
+  before?: string;
+  after?: string;
+  error?: string;
+}
+
+// Unchanged lines kept around each change; longer unchanged runs fold away
+const CONTEXT_LINES = 3;
+
+type Block = { kind: 'rows'; rows: SideBySideRow[] } | { kind: 'folded'; rows: SideBySideRow[]; id: number };
+
+/** Split rows into visible runs and folds of unchanged lines far from any change. */
+const foldUnchanged = (rows: SideBySideRow[]): Block[] => {
+  const blocks: Block[] = [];
+  let k = 0;
+  while (k < rows.length) {
+    if (rows[k].type !== 'same') {
+      const start = k;
+      while (k < rows.length && rows[k].type !== 'same') k++;
+      blocks.push({ kind: 'rows', rows: rows.slice(start, k) });
+      continue;
+    }
+    const start = k;
+    while (k < rows.length && rows[k].type === 'same') k++;
+    const run = rows.slice(start, k);
+    const keepHead = start === 0 ? 0 : CONTEXT_LINES;
+    const keepTail = k === rows.length ? 0 : CONTEXT_LINES;
+    if (run.length <= keepHead + keepTail + 1) {
+      blocks.push({ kind: 'rows', rows: run });
+    } else {
+      blocks.push({ kind: 'rows', rows: run.slice(0, keepHead) });
+      blocks.push({ kind: 'folded', rows: run.slice(keepHead, run.length - keepTail), id: start });
+      blocks.push({ kind: 'rows', rows: run.slice(run.length - keepTail) });
+    }
+  }
+  return blocks;
+};
+
+const SIDE_STYLES: Record<SideBySideRow['type'], { left: string; right: string }> = {
+  same: { left: '', right: '' },
+  removed: { left: 'bg-red-50 text-red-800', right: 'bg-slate-50/60' },
+  added: { left: 'bg-slate-50/60', right: 'bg-emerald-50 text-emerald-800' },
+  changed: { left: 'bg-red-50 text-red-800', right: 'bg-emerald-50 text-emerald-800' }
+};
+
+export const VersionDiff: React.FC<VersionDiffProps> = ({ leftLabel, rightLabel, before, after, error }) => {
+  const [expanded, setExpanded] = useState<Set<number>>(new Set());
+
+  const diff = useMemo(() => {
+    if (before === undefined || after === undefined) return null;
+    const { ops, truncated } = diffLines(before, after);
+    return { blocks: foldUnchanged(toSideBySide(ops)), summary: summarizeDiff(ops, truncated) };
+  }, [before, after]);
+
+  if (error) {
+    return <p className="text-xs text-red-600 font-medium p-4 bg-red-50 rounded-xl border border-red-100">{error}</p>;
+  }
+  if (!diff) {
+    return (
+      <div className="flex flex-col items-center justify-center h-full text-slate-400">
+        <Loader2 className="w-8 h-8 animate-spin mb-3 text-indigo-200" />
+        <span className="text-xs font-medium uppercase tracking-widest">Comparing...</span>
+      </div>
+    );
+  }
+
+  const { blocks, summary } = diff;
+  const renderRow = (row: SideBySideRow, key: React.Key) => (
+    <div key={key} className="grid grid-cols-2 divide-x divide-slate-100">
+      {(['left', 'right'] as const).map(side => (
+        <div key={side} className={`flex min-w-0 ${SIDE_STYLES[row.type][side]}`}>
+          <span className="w-10 shrink-0 text-right pr-2 text-slate-300 select-none">{row[side]?.number ?? ''}</span>
+          <span className="flex-1 min-w-0 whitespace-pre-wrap break-words pr-2">{row[side]?.text ?? ''}</span>
+        </div>
+      ))}
+    </div>
+  );
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-3 text-[10px] font-bold uppercase tracking-widest">
+        <span className="text-emerald-600">+{summary.added}</span>
+        <span className="text-red-500">−{summary.removed}</span>
+        {summary.added === 0 && summary.removed === 0 && <span className="text-slate-400">No text changes</span>}
+        {summary.truncated && <span className="text-amber-600 normal-case tracking-normal">Too many changes to align line by line</span>}
+      </div>
+      <div className="rounded-xl border border-slate-200 overflow-hidden text-[11px] font-mono leading-relaxed text-slate-600">
+        <div className="grid grid-cols-2 divide-x divide-slate-200 bg-slate-50 border-b border-slate-200 text-[10px] font-bold text-slate-500 uppercase tracking-wider">
+          <span className="px-3 py-2 truncate">{leftLabel}</span>
+          <span className="px-3 py-2 truncate">{rightLabel}</span>
+        </div>
+        {blocks.map((block, b) => block.kind === 'rows' || expanded.has(block.id)
+          ? block.rows.map((row, r) => renderRow(row, `${b}-${r}`))
+          : (
+            <button
+              key={`fold-${block.id}`}
+              onClick={() => setExpanded(prev => new Set(prev).add(block.id))}
+              className="w-full py-1 bg-indigo-50/40 text-[10px] font-semibold text-indigo-500 hover:bg-indigo-50 transition-colors"
+            >
+              Show {block.rows.length} unchanged lines
+            </button>
+          )
+        )}
+      </div>
+    </div>
+  );
+};
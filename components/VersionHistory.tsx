@@ -0,0 +1,104 @@
+import React from 'react';
+import { ArchiveRestore, GitCompare, History, Trash2 } from 'lucide-react';
+import { FileDocument } from '../types';
+import { isTextMimeType } from '../services/fileContentService';
+import { versionOf } from '../services/versionService';
+
+interface VersionHistoryProps {
+  versions: FileDocument[]; // Newest first
+  current: FileDocument;
+  activeFileId: string | null;
+  versionTargetId: string | null;
+  disabled?: boolean;
+  onPreview: (id: string) => void;
+  onAsk: (id: string) => void;
+  onCompare: (olderId: string, newerId: string) => void;
+  onMakeCurrent: (id: string) => void;
+  onDelete: (id: string) => void;
+}
+
+const STATUS_LABELS: Partial<Record<NonNullable<FileDocument['status']>, string>> = {
+  active: 'Indexed',
+  archived: 'Archived',
+  error: 'Error',
+  paused: 'Paused'
+};
+
+/** Every version of one document, with per-version actions. */
+export const VersionHistory: React.FC<VersionHistoryProps> = ({
+  versions, current, activeFileId, versionTargetId, disabled,
+  onPreview, onAsk, onCompare, onMakeCurrent, onDelete
+}) => {
+  const handleDelete = (file: FileDocument) => {
+    if (window.confirm(`Delete version ${versionOf(file)} of "${file.name}"?`)) onDelete(file.id);
+  };
+
+  return (
+    <ul className="mt-1 ml-6 pl-3 border-l border-slate-100 space-y-0.5">
+      {versions.map(file => {
+        const isCurrent = file.id === current.id;
+        const canCompare = !isCurrent && isTextMimeType(file.mimeType) && isTextMimeType(current.mimeType);
+        // Older side on the left
+        const [olderId, newerId] = versionOf(file) < versionOf(current) ? [file.id, current.id] : [current.id, file.id];
+        return (
+          <li
+            key={file.id}
+            className={`group/version flex items-center gap-2 px-2 py-1.5 rounded-lg transition-colors ${
+              activeFileId === file.id ? 'bg-indigo-50/60' : 'hover:bg-slate-50'
+            } ${versionTargetId === file.id ? 'ring-1 ring-violet-200' : ''}`}
+          >
+            <button onClick={() => onPreview(file.id)} className="flex-1 min-w-0 flex items-center gap-2 text-left">
+              <span className={`text-[11px] font-bold ${isCurrent ? 'text-indigo-700' : 'text-slate-500'}`}>v{versionOf(file)}</span>
+              <span className="text-[10px] text-slate-400 truncate">
+                {new Date(file.uploadDate).toLocaleDateString([], { month: 'short', day: 'numeric' })}
+              </span>
+              <span className={`text-[9px] font-bold uppercase ${
+                file.status === 'active' ? 'text-emerald-600' : file.status === 'error' ? 'text-red-500' : 'text-slate-400'
+              }`}>
+                {file.status && STATUS_LABELS[file.status] || 'Uploading'}
+              </span>
+            </button>
+            <div className="flex shrink-0 opacity-0 group-hover/version:opacity-100 transition-opacity">
+              <button
+                onClick={() => onAsk(file.id)}
+                disabled={disabled || !file.fileHandle}
+                className="p-1 text-slate-300 hover:text-violet-600 rounded disabled:opacity-40"
+                title="Ask a question about this version"
+              >
+                <History className="w-3 h-3" />
+              </button>
+              {canCompare && (
+                <button
+                  onClick={() => onCompare(olderId, newerId)}
+                  className="p-1 text-slate-300 hover:text-indigo-600 rounded"
+                  title={`Compare with v${versionOf(current)}`}
+                >
+                  <GitCompare className="w-3 h-3" />
+                </button>
+              )}
+              {file.status === 'archived' && (
+                <button
+                  onClick={() => onMakeCurrent(file.id)}
+                  disabled={disabled || !file.fileHandle}
+                  className="p-1 text-slate-300 hover:text-emerald-600 rounded disabled:opacity-40"
+                  title="Index this version instead"
+                >
+                  <ArchiveRestore className="w-3 h-3" />
+                </button>
+              )}
+              {!isCurrent && (
+                <button
+                  onClick={() => handleDelete(file)}
+                  className="p-1 text-slate-300 hover:text-red-500 rounded"
+                  title="Delete this version"
+                >
+                  <Trash2 className="w-3 h-3" />
+                </button>
+              )}
+            </div>
+          </li>
+        );
+      })}
+    </ul>
+  );
+};
@@ -0,0 +1,128 @@
+import React, { useState } from 'react';
+import { ChevronDown, FolderOpen, Pencil, Plus, Trash2, Check, Download, Upload } from 'lucide-react';
+import { Workspace } from '../types';
+
+interface WorkspaceSwitcherProps {
+  workspaces: Workspace[];
+  activeWorkspaceId: string | null;
+  disabled?: boolean;
+  onSelect: (id: string) => void;
+  onCreate: (name: string) => void;
+  onRename: (id: string, name: string) => void;
+  onDelete: (id: string) => void;
+  onExport: (id: string) => void;
+  onImport: (bundle: File) => void;
+}
+
+export const WorkspaceSwitcher: React.FC<WorkspaceSwitcherProps> = ({
+  workspaces, activeWorkspaceId, disabled, onSelect, onCreate, onRename, onDelete, onExport, onImport
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const active = workspaces.find(ws => ws.id === activeWorkspaceId);
+
+  const handleCreate = () => {
+    const name = window.prompt("Name for the new workspace:", `Workspace ${workspaces.length + 1}`)?.trim();
+    if (name) {
+      onCreate(name);
+      setIsOpen(false);
+    }
+  };
+
+  const handleRename = (ws: Workspace) => {
+    const name = window.prompt("Rename workspace:", ws.name)?.trim();
+    if (name && name !== ws.name) onRename(ws.id, name);
+  };
+
+  const handleDelete = (ws: Workspace) => {
+    const detail = ws.files.length > 0
+      ? ` Its ${ws.files.length} indexed document(s) and search store will be deleted permanently.`
+      : '';
+    if (window.confirm(`Delete workspace "${ws.name}"?${detail}`)) onDelete(ws.id);
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        disabled={disabled}
+        className="w-full flex items-center gap-3 px-3.5 py-3 rounded-2xl border border-slate-100 bg-slate-50/50 hover:border-indigo-200 hover:bg-white transition-all text-left disabled:opacity-60 disabled:cursor-not-allowed"
+      >
+        <FolderOpen className="w-4 h-4 text-indigo-500 shrink-0" />
+        <div className="flex flex-col min-w-0 flex-1">
+          <span className="text-sm font-semibold text-slate-700 truncate">{active?.name || 'No workspace'}</span>
+          <span className="text-[10px] text-slate-400 font-medium">
+            {active ? `${active.files.length} documents` : 'Create one to begin'}
+          </span>
+        </div>
+        <ChevronDown className={`w-4 h-4 text-slate-400 transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+      </button>
+
+      {isOpen && (
+        <div className="absolute left-0 right-0 top-full mt-2 z-40 bg-white rounded-2xl border border-slate-200 shadow-xl shadow-slate-200/60 p-1.5 animate-fadeIn">
+          <div className="max-h-64 overflow-y-auto">
+            {workspaces.map(ws => (
+              <div key={ws.id} className="group/ws flex items-center gap-1 rounded-xl hover:bg-slate-50">
+                <button
+                  onClick={() => { onSelect(ws.id); setIsOpen(false); }}
+                  className="flex-1 flex items-center gap-2 px-3 py-2 min-w-0 text-left"
+                >
+                  {ws.id === activeWorkspaceId
+                    ? <Check className="w-3.5 h-3.5 text-indigo-500 shrink-0" />
+                    : <span className="w-3.5 h-3.5 shrink-0" />}
+                  <span className={`text-xs truncate ${ws.id === activeWorkspaceId ? 'font-bold text-indigo-900' : 'font-medium text-slate-600'}`}>
+                    {ws.name}
+                  </span>
+                </button>
+                <button
+                  onClick={() => { onExport(ws.id); setIsOpen(false); }}
+                  className="p-1.5 text-slate-300 hover:text-indigo-600 rounded-lg opacity-0 group-hover/ws:opacity-100 transition-all"
+                  title="Export workspace bundle"
+                >
+                  <Download className="w-3 h-3" />
+                </button>
+                <button
+                  onClick={() => handleRename(ws)}
+                  className="p-1.5 text-slate-300 hover:text-indigo-600 rounded-lg opacity-0 group-hover/ws:opacity-100 transition-all"
+                  title="Rename workspace"
+                >
+                  <Pencil className="w-3 h-3" />
+                </button>
+                <button
+                  onClick={() => handleDelete(ws)}
+                  className="p-1.5 text-slate-300 hover:text-red-500 rounded-lg opacity-0 group-hover/ws:opacity-100 transition-all"
+                  title="Delete workspace"
+                >
+                  <Trash2 className="w-3 h-3" />
+                </button>
+              </div>
+            ))}
+          </div>
+          <button
+            onClick={handleCreate}
+            className="w-full mt-1 flex items-center gap-2 px-3 py-2 rounded-xl text-xs font-semibold text-indigo-600 hover:bg-indigo-50 border-t border-slate-100"
+          >
+            <Plus className="w-3.5 h-3.5" />
+            New workspace
+          </button>
+          <label className="w-full flex items-center gap-2 px-3 py-2 rounded-xl text-xs font-semibold text-slate-500 hover:bg-slate-50 cursor-pointer">
+            <Upload className="w-3.5 h-3.5" />
+            Import workspace bundle
+            <input
+              type="file"
+              accept=".zip"
+              className="hidden"
+              onChange={e => {
+                const bundle = e.target.files?.[0];
+                e.target.value = '';
+                if (bundle) {
+                  onImport(bundle);
+                  setIsOpen(false);
+                }
+              }}
+            />
+          </label>
+        </div>
+      )}
+    </div>
+  );
+};
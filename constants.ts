@@ -1,10 +1,16 @@
+import { GenerationSettings, PromptTemplate } from './types';
+
 export const SUPPORTED_EXTENSIONS = [
   '.txt', '.md', '.json', '.csv', 
   '.js', '.jsx', '.ts', '.tsx', '.py', 
   '.html', '.css', '.xml', '.sql',
-  '.pdf'
+  '.pdf',
+  '.docx', '.xlsx', '.pptx', '.odt', '.rtf', '.epub'
 ];
 
+// Formats the File Search store can't read well; converted to markdown in the browser before upload
+export const CONVERTED_EXTENSIONS = ['.docx', '.xlsx', '.pptx', '.odt', '.rtf', '.epub'];
+
 export const MAX_FILE_SIZE = 25 * 1024 * 1024; // 25MB per file
 
 export const MIME_TYPE_MAP: Record<string, string> = {
@@ -21,7 +27,14 @@ export const MIME_TYPE_MAP: Record<string, string> = {
   'css': 'text/css',
   'xml': 'text/xml',
   'sql': 'application/x-sql',
-  'pdf': 'application/pdf'
+  'pdf': 'application/pdf',
+  // Uploaded as their extracted markdown
+  'docx': 'text/markdown',
+  'xlsx': 'text/markdown',
+  'pptx': 'text/markdown',
+  'odt': 'text/markdown',
+  'rtf': 'text/markdown',
+  'epub': 'text/markdown'
 };
 
 export const SYSTEM_PROMPT_TEMPLATE = `
@@ -36,4 +49,96 @@ You are "FileInsight", a world-class document analysis expert. Your task is to p
 6. **No General Knowledge**: Avoid using internal pre-trained knowledge that isn't reflected in the files, especially for specific facts or statistics. You may use general knowledge only for linguistic clarity or broad concepts (e.g., explaining what an "EBITDA" acronym stands for if used in a file).
 
 Maintain a professional, objective, and analytical tone at all times.
-`;
\ No newline at end of file
+`;
+
+export const THREAD_TITLE_PROMPT = `
+Write a short title (at most 6 words) for a conversation that opens with the exchange below.
+Reply with the title only: no quotes, no markdown, no trailing punctuation.
+`;
+
+export const AVAILABLE_MODELS: Array<{ id: string; label: string }> = [
+  { id: 'gemini-3-pro-preview', label: 'Gemini 3 Pro (Preview)' },
+  { id: 'gemini-2.5-pro', label: 'Gemini 2.5 Pro' },
+  { id: 'gemini-2.5-flash', label: 'Gemini 2.5 Flash' },
+  { id: 'gemini-2.5-flash-lite', label: 'Gemini 2.5 Flash-Lite' }
+];
+
+export const DEFAULT_GENERATION_SETTINGS: GenerationSettings = {
+  modelId: 'gemini-3-pro-preview'
+};
+
+export const DEFAULT_PROMPT_ID = 'builtin-analyst';
+
+const SHARED_GROUNDING_RULES = `
+- Every claim MUST be supported by the uploaded documents. If they do not cover the question, say: "I cannot find information regarding [topic] in the provided documents."
+- Cite inline as **[Filename]** after each supported statement, citing every file you draw from.
+- If documents contradict each other, point out the discrepancy and cite both sources.
+- Do not use pre-trained knowledge for specific facts or figures.
+`;
+
+export const BUILT_IN_PROMPTS: PromptTemplate[] = [
+  {
+    id: DEFAULT_PROMPT_ID,
+    name: 'FileInsight Analyst',
+    description: 'The general-purpose grounded analyst.',
+    template: SYSTEM_PROMPT_TEMPLATE,
+    isBuiltIn: true,
+    updatedAt: 0
+  },
+  {
+    id: 'builtin-legal',
+    name: 'Legal Reviewer',
+    description: 'Quotes clauses verbatim and flags obligations and risks.',
+    template: `
+You are "FileInsight Legal", a meticulous contract and policy reviewer writing for {{audience|in-house counsel}}.
+
+### RULES:
+${SHARED_GROUNDING_RULES}
+- Quote the exact clause wording in a blockquote before interpreting it, and give its section or clause number when the document has one.
+- Distinguish clearly between what the text says and your interpretation of it.
+- Call out obligations, deadlines, termination rights, liabilities and ambiguous wording.
+- Never give definitive legal advice; recommend review by qualified counsel where the stakes are high.
+
+Answer in {{language|English}}.
+`,
+    isBuiltIn: true,
+    updatedAt: 0
+  },
+  {
+    id: 'builtin-finance',
+    name: 'Financial Analyst',
+    description: 'Figures first, with units, periods and tables.',
+    template: `
+You are "FileInsight Finance", a financial analyst preparing findings for {{audience|a finance team}}.
+
+### RULES:
+${SHARED_GROUNDING_RULES}
+- Always state units, currency and the reporting period next to every figure.
+- Prefer tables for comparisons across periods, segments or documents.
+- Show calculations step by step when you derive a number, and never invent a figure the documents do not contain.
+- Flag restatements, one-off items and inconsistencies between reports.
+
+Answer in {{language|English}}.
+`,
+    isBuiltIn: true,
+    updatedAt: 0
+  },
+  {
+    id: 'builtin-engineering',
+    name: 'Code Reviewer',
+    description: 'Direct review tone with file and symbol references.',
+    template: `
+You are "FileInsight Engineering", a senior engineer reviewing code and technical documents for {{audience|the engineering team}}.
+
+### RULES:
+${SHARED_GROUNDING_RULES}
+- Reference files, functions and symbols by name, and quote the relevant code in fenced blocks with a language tag.
+- Be direct: lead with the answer or the problem, then the evidence.
+- When reviewing, group findings by severity (bug, risk, style) and suggest concrete fixes.
+
+Answer in {{language|English}}.
+`,
+    isBuiltIn: true,
+    updatedAt: 0
+  }
+];
@@ -0,0 +1,119 @@
+import { BatchCell, BatchQuestion, BatchRun } from '../types';
+import { formatCsv, parseCsv } from './csvService';
+import { collectDocumentSources } from './citationService';
+import { downloadCsv, safeFileName } from './downloadService';
+
+/**
+ * Batch questions: a checklist asked of the whole workspace or of every file on its own.
+ * Results form a questions × columns grid, one cell per (question, file) pair.
+ */
+
+export const DEFAULT_BATCH_CONCURRENCY = 3;
+export const MAX_BATCH_CONCURRENCY = 6;
+
+/** A grid column: one file, or the whole workspace (`fileId` null). */
+export interface BatchColumn {
+  fileId: string | null;
+  name: string;
+}
+
+export const createBatch = (): BatchRun => ({
+  questions: [],
+  mode: 'workspace',
+  concurrency: DEFAULT_BATCH_CONCURRENCY,
+  cells: [],
+  updatedAt: Date.now()
+});
+
+/**
+ * Run `worker` over `items` with at most `limit` calls in flight.
+ * Once the signal aborts no new items are started; running ones are left to honour it.
+ */
+export async function runWithConcurrency<T>(
+  items: T[],
+  limit: number,
+  worker: (item: T) => Promise<void>,
+  signal?: AbortSignal
+): Promise<void> {
+  const queue = [...items];
+  const next = async (): Promise<void> => {
+    const item = queue.shift();
+    if (item === undefined || signal?.aborted) return;
+    await worker(item);
+    return next();
+  };
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, next));
+}
+
+// "1.", "2)", "-", "*", "Q3:" in front of pasted checklist items
+const LIST_MARKER = /^\s*(?:[-*•]|\d+[.)]|q\d+[.:)])\s*/i;
+
+/**
+ * Questions from pasted text or an imported file: one per line, the first column of a CSV
+ * (skipping a "question" header), or a JSON array of strings or `{ question }` objects.
+ */
+export function parseQuestions(text: string, fileName = ''): string[] {
+  let items: string[];
+  if (/\.json$/i.test(fileName)) {
+    let data: unknown;
+    try {
+      data = JSON.parse(text);
+    } catch {
+      throw new Error(`${fileName} is not valid JSON.`);
+    }
+    if (!Array.isArray(data)) throw new Error(`${fileName} must hold an array of questions.`);
+    items = data.map(item => typeof item === 'string' ? item : String(item?.question ?? item?.text ?? ''));
+  } else if (/\.csv$/i.test(fileName)) {
+    items = parseCsv(text).map(row => row[0] ?? '');
+    if (/^questions?$/i.test(items[0]?.trim() ?? '')) items = items.slice(1);
+  } else {
+    items = text.split(/\r?\n/);
+  }
+  const questions = items.map(item => item.replace(LIST_MARKER, '').replace(/\s+/g, ' ').trim()).filter(Boolean);
+  return Array.from(new Set(questions));
+}
+
+/**
+ * Replace the checklist. Questions whose text is unchanged keep their id and answers;
+ * answers to removed questions are dropped.
+ */
+export function applyQuestions(batch: BatchRun, texts: string[]): BatchRun {
+  const byText = new Map(batch.questions.map(q => [q.text, q]));
+  const questions: BatchQuestion[] = texts.map(text => byText.get(text) ?? { id: crypto.randomUUID(), text });
+  const ids = new Set(questions.map(q => q.id));
+  return { ...batch, questions, cells: batch.cells.filter(c => ids.has(c.questionId)) };
+}
+
+export const findCell = (batch: BatchRun, questionId: string, fileId: string | null): BatchCell | undefined =>
+  batch.cells.find(c => c.questionId === questionId && c.fileId === fileId);
+
+/** Cells still queued when the app closed can never finish; mark them failed so they can be rerun. */
+export const settleInterruptedCells = (batch: BatchRun): BatchRun =>
+  batch.cells.some(c => c.status === 'pending' || c.status === 'running')
+    ? {
+        ...batch,
+        cells: batch.cells.map(c => c.status === 'pending' || c.status === 'running'
+          ? { ...c, status: 'error', error: 'The run was interrupted.' }
+          : c)
+      }
+    : batch;
+
+/** Questions down, one answer column and one sources column per grid column across. */
+export function toCsv(batch: BatchRun, columns: BatchColumn[]): string {
+  const header = ['Question', ...columns.flatMap(col => [col.name, `${col.name} sources`])];
+  const rows = batch.questions.map(question => [
+    question.text,
+    ...columns.flatMap(col => {
+      const cell = findCell(batch, question.id, col.fileId);
+      if (!cell) return ['', ''];
+      if (cell.status === 'error') return [`Error: ${cell.error || 'unknown error'}`, ''];
+      const sources = collectDocumentSources(cell.groundingMetadata).map(s => s.title);
+      return [cell.answer ?? '', sources.join('; ')];
+    })
+  ]);
+  return formatCsv([header, ...rows]);
+}
+
+export function exportBatchCsv(batch: BatchRun, columns: BatchColumn[], title: string) {
+  downloadCsv(toCsv(batch, columns), `${safeFileName(title, 'questions')}.csv`);
+}
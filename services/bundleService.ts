@@ -0,0 +1,249 @@
+import JSZip from 'jszip';
+import { ChatThread, FileDocument, PromptSelection, PromptTemplate, Workspace } from '../types';
+import { AVAILABLE_MODELS } from '../constants';
+import { createWorkspace } from './storageService';
+import { hashFile } from './dedupService';
+import { baseName } from './folderTree';
+import { settleInterruptedRows } from './extractionService';
+import { settleInterruptedCells } from './batchService';
+import { settleInterruptedComparison } from './comparisonService';
+
+/**
+ * Workspace bundles: a zip with a `manifest.json` describing a workspace (files and their tags,
+ * conversations, extraction table, question checklist, settings and custom prompts), optionally followed by the original files.
+ * Importing one builds a new workspace whose files are uploaded to a fresh search store.
+ */
+
+const MANIFEST_PATH = 'manifest.json';
+const BUNDLE_FORMAT = 'fileinsight-workspace';
+const BUNDLE_VERSION = 1;
+
+/** A file as recorded in a bundle: its description, without anything tied to this machine or store. */
+export type BundledFile = Omit<
+  FileDocument,
+  'content' | 'fileHandle' | 'uploadUri' | 'storeDocumentName' | 'status' | 'error' | 'stale' | 'scopable'
+> & {
+  archived?: boolean; // A superseded version, kept out of the search store
+  path?: string; // Zip entry with the original bytes, when they were included
+};
+
+export interface BundleManifest {
+  format: typeof BUNDLE_FORMAT;
+  version: number;
+  exportedAt: string;
+  workspace: Pick<Workspace, 'name' | 'settingsOverride' | 'promptSelection' | 'activeThreadId' | 'extraction' | 'batch' | 'comparison' | 'createdAt'>;
+  files: BundledFile[];
+  threads: ChatThread[];
+  prompts: PromptTemplate[]; // The exporter's custom prompts; built-in ones exist everywhere
+}
+
+/** Something that could not be imported as-is, and what was done instead. */
+export interface BundleConflict {
+  subject: string;
+  resolution: string;
+}
+
+export interface BundleImport {
+  workspace: Workspace;
+  prompts: PromptTemplate[]; // Custom prompts to add to the library
+  uploadIds: string[]; // Files queued for upload into the new store
+  conflicts: BundleConflict[];
+}
+
+/** Pack a workspace into a bundle. Files whose content is no longer stored locally are described only. */
+export async function createBundle(ws: Workspace, prompts: PromptTemplate[], includeFiles: boolean): Promise<Blob> {
+  const zip = new JSZip();
+  const files: BundledFile[] = ws.files.map(file => {
+    const {
+      content, fileHandle, uploadUri, storeDocumentName, status, error, stale, scopable, ...description
+    } = file;
+    const path = includeFiles && fileHandle ? `files/${file.id}/${baseName(file.name)}` : undefined;
+    if (path) zip.file(path, fileHandle!);
+    return { ...description, ...(status === 'archived' && { archived: true }), ...(path && { path }) };
+  });
+
+  const manifest: BundleManifest = {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    workspace: {
+      name: ws.name,
+      settingsOverride: ws.settingsOverride,
+      promptSelection: ws.promptSelection,
+      activeThreadId: ws.activeThreadId,
+      extraction: ws.extraction,
+      batch: ws.batch,
+      comparison: ws.comparison,
+      createdAt: ws.createdAt
+    },
+    files,
+    threads: ws.threads.map(t => ({ ...t, messages: t.messages.map(({ isStreaming, ...m }) => m) })),
+    prompts: prompts.filter(p => !p.isBuiltIn)
+  };
+  zip.file(MANIFEST_PATH, JSON.stringify(manifest, null, 2));
+  return zip.generateAsync({ type: 'blob', compression: 'DEFLATE' });
+}
+
+/** `name`, or `name (2)`, `name (3)`… when it is taken. */
+const uniqueName = (name: string, taken: Set<string>) => {
+  let candidate = name;
+  for (let n = 2; taken.has(candidate); n++) candidate = `${name} (${n})`;
+  return candidate;
+};
+
+async function readManifest(zip: JSZip): Promise<BundleManifest> {
+  const entry = zip.file(MANIFEST_PATH);
+  if (!entry) throw new Error('This is not a workspace bundle: manifest.json is missing.');
+  let manifest: BundleManifest;
+  try {
+    manifest = JSON.parse(await entry.async('string'));
+  } catch {
+    throw new Error('The bundle manifest is not valid JSON.');
+  }
+  if (manifest?.format !== BUNDLE_FORMAT || !Array.isArray(manifest.files) || !Array.isArray(manifest.threads)) {
+    throw new Error('This is not a workspace bundle.');
+  }
+  if (manifest.version > BUNDLE_VERSION) {
+    throw new Error('This bundle was made by a newer version of the app.');
+  }
+  return manifest;
+}
+
+/**
+ * Turn a bundle into a new workspace, reporting whatever had to be renamed, dropped or left
+ * unindexed. File ids are reissued so the import can sit next to the workspace it came from.
+ * `onProgress` reports how many bundled files have been read.
+ */
+export async function readBundle(
+  bundle: Blob,
+  existingWorkspaces: Workspace[],
+  existingPrompts: PromptTemplate[],
+  onProgress?: (done: number, total: number) => void
+): Promise<BundleImport> {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(bundle);
+  } catch {
+    throw new Error('The bundle could not be opened as a zip archive.');
+  }
+  const manifest = await readManifest(zip);
+  const conflicts: BundleConflict[] = [];
+
+  // Workspace name
+  const name = uniqueName(manifest.workspace.name || 'Imported workspace', new Set(existingWorkspaces.map(ws => ws.name)));
+  if (name !== manifest.workspace.name) {
+    conflicts.push({ subject: `Workspace "${manifest.workspace.name}"`, resolution: `A workspace with this name exists; imported as "${name}".` });
+  }
+
+  // Custom prompts: identical ones are shared, differing ones are imported as copies
+  const promptIds = new Map<string, string>();
+  const prompts: PromptTemplate[] = [];
+  const promptNames = new Set(existingPrompts.map(p => p.name));
+  for (const prompt of manifest.prompts ?? []) {
+    const existing = existingPrompts.find(p => p.id === prompt.id);
+    if (existing && existing.template === prompt.template && existing.name === prompt.name) continue;
+    if (existing || promptNames.has(prompt.name)) {
+      const copy = { ...prompt, id: crypto.randomUUID(), name: uniqueName(`${prompt.name} (imported)`, promptNames), updatedAt: Date.now() };
+      promptIds.set(prompt.id, copy.id);
+      prompts.push(copy);
+      promptNames.add(copy.name);
+      conflicts.push({ subject: `Prompt "${prompt.name}"`, resolution: `You have a different prompt under this name; imported as "${copy.name}".` });
+    } else {
+      prompts.push(prompt);
+      promptNames.add(prompt.name);
+    }
+  }
+  const remapPrompt = (selection?: PromptSelection) =>
+    selection && { ...selection, promptId: promptIds.get(selection.promptId) ?? selection.promptId };
+
+  // Settings
+  let settingsOverride = manifest.workspace.settingsOverride;
+  if (settingsOverride?.modelId && !AVAILABLE_MODELS.some(m => m.id === settingsOverride!.modelId)) {
+    const { modelId, ...rest } = settingsOverride;
+    settingsOverride = rest;
+    conflicts.push({ subject: `Model "${modelId}"`, resolution: 'Not available here; the workspace uses the global model instead.' });
+  }
+
+  // Files
+  const fileIds = new Map<string, string>();
+  const remapFile = (id: string) => {
+    if (!fileIds.has(id)) fileIds.set(id, crypto.randomUUID());
+    return fileIds.get(id)!;
+  };
+  const files: FileDocument[] = [];
+  const missing: string[] = [];
+  let done = 0;
+  onProgress?.(done, manifest.files.length);
+
+  for (const { archived, path, ...bundled } of manifest.files) {
+    const file: FileDocument = {
+      ...bundled,
+      id: remapFile(bundled.id),
+      ...(bundled.documentId && { documentId: remapFile(bundled.documentId) })
+    };
+    const entry = path ? zip.file(path) : null;
+    if (!entry) {
+      missing.push(file.name);
+      files.push({ ...file, status: 'error', error: 'The original file was not included in the bundle. Upload it again to index it.' });
+    } else {
+      const blob = await entry.async('blob');
+      const fileHandle = new File([blob], baseName(file.name), { type: file.mimeType, lastModified: file.uploadDate });
+      if (file.contentHash && await hashFile(fileHandle) !== file.contentHash) {
+        conflicts.push({ subject: file.name, resolution: 'Its content does not match the manifest; it was not indexed.' });
+        files.push({ ...file, fileHandle, status: 'error', error: 'The bundled copy is damaged.' });
+      } else {
+        files.push({ ...file, fileHandle, status: archived ? 'archived' : 'pending' });
+      }
+    }
+    onProgress?.(++done, manifest.files.length);
+  }
+  if (missing.length > 0) {
+    conflicts.push({
+      subject: missing.length === 1 ? missing[0] : `${missing.length} files`,
+      resolution: `Not included in the bundle, so not indexed. Upload ${missing.length === 1 ? 'it' : 'them'} again to search ${missing.length === 1 ? 'it' : 'them'}.`
+    });
+  }
+
+  // Conversations keep pointing at the same files under their new ids
+  const threads = manifest.threads.map(thread => ({
+    ...thread,
+    promptSelection: remapPrompt(thread.promptSelection),
+    messages: thread.messages.map(m => ({
+      ...m,
+      ...(m.versionFileId && { versionFileId: remapFile(m.versionFileId) }),
+      ...(m.scopeFileIds && { scopeFileIds: m.scopeFileIds.map(remapFile) })
+    }))
+  }));
+
+  const { extraction, batch, comparison } = manifest.workspace;
+  const workspace: Workspace = {
+    ...createWorkspace(name),
+    files,
+    threads: threads.length > 0 ? threads : createWorkspace(name).threads,
+    settingsOverride,
+    promptSelection: remapPrompt(manifest.workspace.promptSelection),
+    ...(extraction && {
+      extraction: settleInterruptedRows({ ...extraction, rows: extraction.rows.map(r => ({ ...r, fileId: remapFile(r.fileId) })) })
+    }),
+    ...(batch && {
+      batch: settleInterruptedCells({ ...batch, cells: batch.cells.map(c => ({ ...c, fileId: c.fileId && remapFile(c.fileId) })) })
+    }),
+    ...(comparison && {
+      comparison: settleInterruptedComparison({
+        ...comparison,
+        leftId: remapFile(comparison.leftId),
+        rightId: remapFile(comparison.rightId)
+      })
+    })
+  };
+  workspace.activeThreadId = workspace.threads.some(t => t.id === manifest.workspace.activeThreadId)
+    ? manifest.workspace.activeThreadId
+    : workspace.threads[0].id;
+
+  return {
+    workspace,
+    prompts,
+    uploadIds: files.filter(f => f.status === 'pending').map(f => f.id),
+    conflicts
+  };
+}
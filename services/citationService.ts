@@ -0,0 +1,120 @@
+import { FileDocument, GroundingMetadata } from '../types';
+import { SUPPORTED_EXTENSIONS } from '../constants';
+
+/** Pseudo-protocol used to smuggle citations through the markdown renderer as links. */
+export const CITATION_PROTOCOL = 'cite:';
+
+// Any bracketed text that is not a markdown link ([text](url)); kept linear, as it runs on every streamed chunk
+const BRACKET_PATTERN = /\[([^[\]\n]+)\](?!\()/g;
+// One cited name, ending in an extension that can be uploaded, so prose like [e.g], [i.e] or [v1.2] is left alone
+const CITED_NAME_PATTERN = new RegExp(`^[^,;]+\\.(?:${SUPPORTED_EXTENSIONS.map(ext => ext.slice(1)).join('|')})$`, 'i');
+// Fenced blocks (possibly still streaming) and inline code spans
+const CODE_PATTERN = /(```[\s\S]*?(?:```|$)|`[^`\n]*`)/;
+
+export type CitationStatus = 'active' | 'inactive' | 'missing';
+
+export interface ResolvedCitation {
+  name: string;
+  status: CitationStatus;
+  file?: FileDocument;
+}
+
+const splitNames = (group: string): string[] =>
+  group.split(/\s*[,;]\s*/).map(name => name.trim()).filter(Boolean);
+
+/** The names in [report.pdf] or [a.pdf, b.csv], or null if the brackets hold anything else. */
+const citedNames = (group: string): string[] | null => {
+  const names = splitNames(group);
+  return names.length > 0 && names.every(name => CITED_NAME_PATTERN.test(name)) ? names : null;
+};
+
+const toHref = (name: string) =>
+  CITATION_PROTOCOL + encodeURIComponent(name).replace(/\(/g, '%28').replace(/\)/g, '%29');
+
+/** Recover the cited file name from a link produced by `linkifyCitations`. */
+export const citationNameFromHref = (href: string): string =>
+  decodeURIComponent(href.slice(CITATION_PROTOCOL.length));
+
+/** Apply a transform to the prose parts of a markdown string, leaving code untouched. */
+const mapProse = (markdown: string, fn: (prose: string) => string): string =>
+  markdown.split(CODE_PATTERN).map((segment, i) => (i % 2 === 1 ? segment : fn(segment))).join('');
+
+/**
+ * Rewrite inline **[Filename]** citations as `cite:` links so the renderer can turn them into chips.
+ */
+export function linkifyCitations(markdown: string): string {
+  return mapProse(markdown, prose =>
+    prose.replace(BRACKET_PATTERN, (match, group: string) =>
+      citedNames(group)?.map(name => `[${name}](${toHref(name)})`).join(' ') ?? match
+    )
+  );
+}
+
+/** Distinct file names cited inline in an answer, in order of first appearance. */
+export function extractCitedNames(markdown: string): string[] {
+  const names = new Set<string>();
+  mapProse(markdown, prose => {
+    for (const match of prose.matchAll(BRACKET_PATTERN)) {
+      citedNames(match[1])?.forEach(name => names.add(name));
+    }
+    return prose;
+  });
+  return Array.from(names);
+}
+
+/**
+ * Find the workspace file a citation or grounding chunk refers to.
+ * Tries the full name, then the bare file name (folders may prefix it), then ignores case.
+ * Among versions sharing a name, the indexed one wins.
+ */
+export function findFileByName(files: FileDocument[], name: string): FileDocument | undefined {
+  const baseName = (value: string) => value.split('/').pop() || value;
+  const lower = name.toLowerCase();
+  const ordered = [...files.filter(f => f.status === 'active'), ...files.filter(f => f.status !== 'active')];
+  return ordered.find(f => f.name === name)
+    || ordered.find(f => baseName(f.name) === baseName(name))
+    || ordered.find(f => f.name.toLowerCase() === lower || baseName(f.name).toLowerCase() === baseName(lower));
+}
+
+/** Classify a cited name against the workspace. */
+export function resolveCitation(files: FileDocument[], name: string): ResolvedCitation {
+  const file = findFileByName(files, name);
+  if (!file) return { name, status: 'missing' };
+  return { name, file, status: file.status === 'active' ? 'active' : 'inactive' };
+}
+
+export interface DocumentSource {
+  title: string;
+  passages: Array<{ text: string; pageNumber?: number; supportCount: number }>;
+}
+
+/**
+ * Group retrieved-context chunks by document.
+ * When grounding supports are present, only chunks the answer actually leans on are kept.
+ */
+export const collectDocumentSources = (metadata?: GroundingMetadata): DocumentSource[] => {
+  const chunks = metadata?.groundingChunks || [];
+  const supportCounts = new Map<number, number>();
+  for (const support of metadata?.groundingSupports || []) {
+    for (const idx of support.groundingChunkIndices || []) {
+      supportCounts.set(idx, (supportCounts.get(idx) || 0) + 1);
+    }
+  }
+  const hasSupports = supportCounts.size > 0;
+
+  const byTitle = new Map<string, DocumentSource>();
+  chunks.forEach((chunk, idx) => {
+    const ctx = chunk.retrievedContext;
+    if (!ctx?.text || (hasSupports && !supportCounts.has(idx))) return;
+
+    const title = ctx.title || 'Untitled document';
+    let source = byTitle.get(title);
+    if (!source) {
+      source = { title, passages: [] };
+      byTitle.set(title, source);
+    }
+    if (source.passages.some(p => p.text === ctx.text)) return;
+    source.passages.push({ text: ctx.text, pageNumber: ctx.pageNumber, supportCount: supportCounts.get(idx) || 0 });
+  });
+  return Array.from(byTitle.values());
+};
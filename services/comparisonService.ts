@@ -0,0 +1,109 @@
+import { Schema, Type } from '@google/genai';
+import { Comparison, ComparisonItem, ComparisonReport, FileDocument } from '../types';
+import { isTextMimeType } from './fileContentService';
+import { isJsonObject } from './jsonGuards';
+
+/**
+ * Two-document comparison: both files are read in one request whose JSON response schema asks
+ * for agreements, differences, items only one side covers and contradictions, each citing
+ * the passages it rests on.
+ */
+
+export const REPORT_SECTIONS: Array<{ key: Exclude<keyof ComparisonReport, 'summary'>; title: string; hint: string }> = [
+  { key: 'contradictions', title: 'Contradictions', hint: 'The documents state incompatible things' },
+  { key: 'differences', title: 'Differences', hint: 'The same subject, treated differently' },
+  { key: 'agreements', title: 'Agreements', hint: 'Both documents say the same' },
+  { key: 'onlyInA', title: 'Only in A', hint: 'Covered by A, absent from B' },
+  { key: 'onlyInB', title: 'Only in B', hint: 'Covered by B, absent from A' }
+];
+
+const label = (file: FileDocument) => `"${file.name}" (version ${file.version ?? 1})`;
+
+/** Both sides can be read as text, so a line diff means something. */
+export const canDiff = (a: FileDocument, b: FileDocument) => isTextMimeType(a.mimeType) && isTextMimeType(b.mimeType);
+
+const itemSchema = (quotes: 'A' | 'B' | 'both'): Schema => {
+  const properties: Record<string, Schema> = {
+    topic: { type: Type.STRING, description: 'A few words naming the subject' },
+    detail: { type: Type.STRING, description: 'One or two sentences' }
+  };
+  const required = ['topic', 'detail'];
+  for (const side of ['A', 'B'] as const) {
+    if (quotes !== 'both' && quotes !== side) continue;
+    properties[`quote${side}`] = { type: Type.STRING, description: `Verbatim passage of document ${side}` };
+    properties[`page${side}`] = { type: Type.INTEGER, description: `Page of the quote in document ${side}, if paged`, nullable: true };
+    required.push(`quote${side}`);
+  }
+  return { type: Type.OBJECT, properties, required };
+};
+
+const listOf = (quotes: 'A' | 'B' | 'both'): Schema => ({ type: Type.ARRAY, items: itemSchema(quotes) });
+
+/** The prompt and response schema comparing document A with document B. */
+export function buildComparisonRequest(a: FileDocument, b: FileDocument): { prompt: string; responseSchema: Schema } {
+  const prompt = [
+    `Compare document A, ${label(a)}, with document B, ${label(b)}. Both are attached, A first.`,
+    '',
+    '- agreements: points both documents make in the same way.',
+    '- differences: subjects both cover but treat differently (amounts, dates, scope, wording that changes meaning).',
+    '- onlyInA / onlyInB: substantive items one document covers and the other does not mention at all.',
+    '- contradictions: statements that cannot both be true. Explain the conflict.',
+    '',
+    'Back every item with short verbatim quotes from the documents it concerns, and page numbers for paged documents.',
+    'Use only what the documents say. Leave a list empty rather than padding it; ignore formatting-only changes.',
+    'Start with a summary of how the documents relate in two or three sentences.'
+  ].join('\n');
+
+  const responseSchema: Schema = {
+    type: Type.OBJECT,
+    properties: {
+      summary: { type: Type.STRING },
+      agreements: listOf('both'),
+      differences: listOf('both'),
+      onlyInA: listOf('A'),
+      onlyInB: listOf('B'),
+      contradictions: listOf('both')
+    },
+    required: ['summary', 'agreements', 'differences', 'onlyInA', 'onlyInB', 'contradictions'],
+    propertyOrdering: ['summary', 'agreements', 'differences', 'onlyInA', 'onlyInB', 'contradictions']
+  };
+  return { prompt, responseSchema };
+}
+
+const toItem = (raw: unknown): ComparisonItem | null => {
+  if (!isJsonObject(raw)) return null;
+  const topic = typeof raw.topic === 'string' ? raw.topic.trim() : '';
+  const detail = typeof raw.detail === 'string' ? raw.detail.trim() : '';
+  if (!topic && !detail) return null;
+  const item: ComparisonItem = { topic, detail };
+  for (const side of ['A', 'B'] as const) {
+    const quote = raw[`quote${side}`];
+    const page = Number(raw[`page${side}`]);
+    if (typeof quote === 'string' && quote.trim()) item[`quote${side}`] = quote.trim();
+    if (Number.isInteger(page) && page > 0) item[`page${side}`] = page;
+  }
+  return item;
+};
+
+/** Turn the model's JSON response into a report, dropping malformed items. */
+export function parseComparisonReport(result: unknown): ComparisonReport {
+  const data = isJsonObject(result) ? result : {};
+  const items = (key: string) => {
+    const list = data[key];
+    return (Array.isArray(list) ? list : []).map(toItem).filter((item): item is ComparisonItem => !!item);
+  };
+  return {
+    summary: typeof data.summary === 'string' ? data.summary.trim() : '',
+    agreements: items('agreements'),
+    differences: items('differences'),
+    onlyInA: items('onlyInA'),
+    onlyInB: items('onlyInB'),
+    contradictions: items('contradictions')
+  };
+}
+
+/** A comparison still running when the app closed can never finish. */
+export const settleInterruptedComparison = (comparison: Comparison): Comparison =>
+  comparison.status === 'running'
+    ? { ...comparison, status: 'error', error: 'The comparison was interrupted. Run it again.' }
+    : comparison;
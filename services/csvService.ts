@@ -0,0 +1,59 @@
+/**
+ * RFC 4180-style CSV: quoted fields may contain delimiters, quotes ("") and line breaks.
+ */
+
+/** Pick the delimiter that splits the first line into the most fields. */
+const detectDelimiter = (text: string): string => {
+  const firstLine = text.slice(0, text.indexOf('\n') === -1 ? undefined : text.indexOf('\n'));
+  const candidates = [',', ';', '\t', '|'];
+  return candidates.reduce((best, d) => firstLine.split(d).length > firstLine.split(best).length ? d : best, ',');
+};
+
+export function parseCsv(text: string, delimiter = detectDelimiter(text)): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (inQuotes) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        inQuotes = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"' && field === '') {
+      inQuotes = true;
+    } else if (ch === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  // Drop blank lines
+  return rows.filter(r => r.length > 1 || r[0] !== '');
+}
+
+/** Serialize rows as CSV, quoting only the fields that need it. */
+export function formatCsv(rows: string[][], delimiter = ','): string {
+  const quote = (field: string) =>
+    field.includes(delimiter) || /["\r\n]/.test(field) || /^\s|\s$/.test(field)
+      ? `"${field.replace(/"/g, '""')}"`
+      : field;
+  return rows.map(row => row.map(quote).join(delimiter)).join('\r\n');
+}
@@ -0,0 +1,55 @@
+import { FileDocument } from '../types';
+
+export type DuplicateResolution = 'skip' | 'keepBoth' | 'replace';
+
+/** An incoming file whose content is already in the workspace (or earlier in the same batch). */
+export interface DuplicateMatch {
+  incoming: FileDocument;
+  existing: FileDocument;
+  existingIsIncoming: boolean; // The earlier copy is part of the same upload batch
+}
+
+/** Hex SHA-256 of a file's bytes. */
+export async function hashFile(file: Blob): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', await file.arrayBuffer());
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+}
+
+/** Pair each incoming file with the first file that has the same content hash. */
+export function findDuplicates(existing: FileDocument[], incoming: FileDocument[]): DuplicateMatch[] {
+  const seen = new Map<string, { file: FileDocument; isIncoming: boolean }>();
+  existing.forEach(file => {
+    if (file.contentHash && !seen.has(file.contentHash)) seen.set(file.contentHash, { file, isIncoming: false });
+  });
+
+  const matches: DuplicateMatch[] = [];
+  for (const file of incoming) {
+    if (!file.contentHash) continue;
+    const first = seen.get(file.contentHash);
+    if (first) matches.push({ incoming: file, existing: first.file, existingIsIncoming: first.isIncoming });
+    else seen.set(file.contentHash, { file, isIncoming: true });
+  }
+  return matches;
+}
+
+/**
+ * Apply the user's choices: which incoming files to add, and which existing workspace files they replace.
+ * Replacing an earlier file of the same batch simply drops that earlier file.
+ */
+export function applyDuplicateResolutions(
+  incoming: FileDocument[],
+  matches: DuplicateMatch[],
+  resolutions: Record<string, DuplicateResolution>
+): { toAdd: FileDocument[]; toReplace: string[] } {
+  const dropped = new Set<string>();
+  const toReplace: string[] = [];
+  for (const match of matches) {
+    const resolution = resolutions[match.incoming.id] ?? 'skip';
+    if (resolution === 'skip') dropped.add(match.incoming.id);
+    if (resolution === 'replace') {
+      if (match.existingIsIncoming) dropped.add(match.existing.id);
+      else toReplace.push(match.existing.id);
+    }
+  }
+  return { toAdd: incoming.filter(f => !dropped.has(f.id)), toReplace: Array.from(new Set(toReplace)) };
+}
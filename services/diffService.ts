@@ -0,0 +1,127 @@
+/**
+ * Line-based text diff (longest common subsequence), computed locally.
+ */
+
+export type DiffOp = { type: 'same' | 'removed' | 'added'; text: string };
+
+export interface DiffLine {
+  number: number;
+  text: string;
+}
+
+/** One row of a side-by-side view; a missing side is blank. */
+export interface SideBySideRow {
+  type: 'same' | 'removed' | 'added' | 'changed';
+  left?: DiffLine;
+  right?: DiffLine;
+}
+
+export interface DiffSummary {
+  added: number;
+  removed: number;
+  truncated: boolean; // Too large to align; the differing middle is shown as one replaced block
+}
+
+// Cells of the LCS table we are willing to allocate (about 16 MB)
+const MAX_TABLE_CELLS = 4_000_000;
+
+const splitLines = (text: string) => text.replace(/\r\n?/g, '\n').split('\n');
+
+/** Edit script turning `before` into `after`, line by line. */
+export function diffLines(before: string, after: string): { ops: DiffOp[]; truncated: boolean } {
+  const a = splitLines(before);
+  const b = splitLines(after);
+
+  // Most revisions touch a small region, so trim the shared head and tail first
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const head: DiffOp[] = a.slice(0, start).map(text => ({ type: 'same', text }));
+  const tail: DiffOp[] = a.slice(endA).map(text => ({ type: 'same', text }));
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+
+  if ((midA.length + 1) * (midB.length + 1) > MAX_TABLE_CELLS) {
+    const middle: DiffOp[] = [
+      ...midA.map(text => ({ type: 'removed' as const, text })),
+      ...midB.map(text => ({ type: 'added' as const, text }))
+    ];
+    return { ops: [...head, ...middle, ...tail], truncated: true };
+  }
+
+  // lcs[i][j] = LCS length of midA[i..] and midB[j..], stored row-major
+  const cols = midB.length + 1;
+  const lcs = new Uint32Array((midA.length + 1) * cols);
+  for (let i = midA.length - 1; i >= 0; i--) {
+    for (let j = midB.length - 1; j >= 0; j--) {
+      lcs[i * cols + j] = midA[i] === midB[j]
+        ? lcs[(i + 1) * cols + j + 1] + 1
+        : Math.max(lcs[(i + 1) * cols + j], lcs[i * cols + j + 1]);
+    }
+  }
+
+  const middle: DiffOp[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < midA.length && j < midB.length) {
+    if (midA[i] === midB[j]) {
+      middle.push({ type: 'same', text: midA[i] });
+      i++;
+      j++;
+    } else if (lcs[(i + 1) * cols + j] >= lcs[i * cols + j + 1]) {
+      middle.push({ type: 'removed', text: midA[i++] });
+    } else {
+      middle.push({ type: 'added', text: midB[j++] });
+    }
+  }
+  while (i < midA.length) middle.push({ type: 'removed', text: midA[i++] });
+  while (j < midB.length) middle.push({ type: 'added', text: midB[j++] });
+
+  return { ops: [...head, ...middle, ...tail], truncated: false };
+}
+
+/** Pair removals with the additions that follow them so changed lines sit side by side. */
+export function toSideBySide(ops: DiffOp[]): SideBySideRow[] {
+  const rows: SideBySideRow[] = [];
+  let leftNumber = 1;
+  let rightNumber = 1;
+  let k = 0;
+
+  while (k < ops.length) {
+    if (ops[k].type === 'same') {
+      rows.push({
+        type: 'same',
+        left: { number: leftNumber++, text: ops[k].text },
+        right: { number: rightNumber++, text: ops[k].text }
+      });
+      k++;
+      continue;
+    }
+
+    const removed: string[] = [];
+    const added: string[] = [];
+    while (k < ops.length && ops[k].type === 'removed') removed.push(ops[k++].text);
+    while (k < ops.length && ops[k].type === 'added') added.push(ops[k++].text);
+
+    for (let n = 0; n < Math.max(removed.length, added.length); n++) {
+      const left = n < removed.length ? { number: leftNumber++, text: removed[n] } : undefined;
+      const right = n < added.length ? { number: rightNumber++, text: added[n] } : undefined;
+      rows.push({ type: left && right ? 'changed' : left ? 'removed' : 'added', left, right });
+    }
+  }
+  return rows;
+}
+
+export function summarizeDiff(ops: DiffOp[], truncated: boolean): DiffSummary {
+  return {
+    added: ops.filter(op => op.type === 'added').length,
+    removed: ops.filter(op => op.type === 'removed').length,
+    truncated
+  };
+}
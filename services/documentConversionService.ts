@@ -0,0 +1,605 @@
+import JSZip from 'jszip';
+
+/**
+ * Client-side extraction of Office and e-book formats into markdown, so that structure the
+ * search store would otherwise lose (headings, tables, slide numbers, sheet names) is kept
+ * in the indexed text. The same markdown is what the preview pane shows.
+ */
+
+// Rows kept per spreadsheet; larger sheets are cut off with a note
+const MAX_SHEET_ROWS = 5000;
+
+const parseXml = (xml: string, type: DOMParserSupportedType = 'application/xml'): Document => {
+  const doc = new DOMParser().parseFromString(xml, type);
+  if (doc.getElementsByTagName('parsererror').length > 0) throw new Error('Malformed XML');
+  return doc;
+};
+
+// OOXML and ODF use several namespaces; match on local names only
+const childrenNamed = (el: Element, name?: string): Element[] =>
+  Array.from(el.children).filter(child => !name || child.localName === name);
+
+const firstChild = (el: Element, name: string): Element | undefined => childrenNamed(el, name)[0];
+
+const descendantsNamed = (el: Element | Document, name: string): Element[] =>
+  Array.from(el.getElementsByTagNameNS('*', name));
+
+const attr = (el: Element | undefined, name: string): string | undefined =>
+  el ? Array.from(el.attributes).find(a => a.localName === name)?.value : undefined;
+
+const readEntry = async (zip: JSZip, path: string): Promise<string> => {
+  const entry = zip.file(path);
+  if (!entry) throw new Error(`Missing ${path}`);
+  return entry.async('string');
+};
+
+/** Resolve a package-relative target ("../media/x.xml", "/xl/sheet.xml") against a folder. */
+const resolvePath = (baseDir: string, target: string): string => {
+  if (target.startsWith('/')) return target.slice(1);
+  const parts = baseDir.split('/').filter(Boolean);
+  for (const segment of target.split('/')) {
+    if (segment === '..') parts.pop();
+    else if (segment !== '.' && segment) parts.push(segment);
+  }
+  return parts.join('/');
+};
+
+interface Relationship {
+  type: string;
+  target: string;
+}
+
+/** An OOXML part's relationships, keyed by id, with targets resolved to zip paths. */
+async function readRelationships(zip: JSZip, partPath: string): Promise<Map<string, Relationship>> {
+  const dir = partPath.slice(0, partPath.lastIndexOf('/') + 1);
+  const relsPath = `${dir}_rels/${partPath.slice(dir.length)}.rels`;
+  const rels = new Map<string, Relationship>();
+  if (!zip.file(relsPath)) return rels;
+  for (const rel of descendantsNamed(parseXml(await readEntry(zip, relsPath)), 'Relationship')) {
+    rels.set(attr(rel, 'Id') || '', { type: attr(rel, 'Type') || '', target: resolvePath(dir, attr(rel, 'Target') || '') });
+  }
+  return rels;
+}
+
+const escapeCell = (value = '') => value.replace(/\|/g, '\\|').trim().replace(/\s*\n\s*/g, '<br>');
+
+/** A markdown table; the first row is the header. */
+const markdownTable = (rows: string[][]): string => {
+  const width = Math.max(0, ...rows.map(row => row.length));
+  if (rows.length === 0 || width === 0) return '';
+  const line = (row: string[]) => `| ${Array.from({ length: width }, (_, i) => escapeCell(row[i])).join(' | ')} |`;
+  const [header, ...body] = rows;
+  return [line(header), `|${' --- |'.repeat(width)}`, ...body.map(line)].join('\n');
+};
+
+const heading = (level: number, text: string) => `${'#'.repeat(Math.min(Math.max(level, 1), 6))} ${text}`;
+
+// --- Word (.docx) ---
+
+const docxRunText = (paragraph: Element): string => {
+  let text = '';
+  for (const el of descendantsNamed(paragraph, '*')) {
+    if (el.localName === 't') text += el.textContent ?? '';
+    // Tab stops in paragraph properties are also named `tab`
+    else if (el.localName === 'tab' && el.parentElement?.localName === 'r') text += '\t';
+    else if (el.localName === 'br' || el.localName === 'cr') text += '\n';
+  }
+  return text;
+};
+
+const docxParagraph = (p: Element): string => {
+  const text = docxRunText(p).trim();
+  if (!text) return '';
+  const props = firstChild(p, 'pPr');
+  const style = attr(props && firstChild(props, 'pStyle'), 'val') ?? '';
+  // Outline level 9 is body text
+  const outline = Number(attr(props && firstChild(props, 'outlineLvl'), 'val') ?? 9);
+  const headingLevel = style === 'Title' ? 1 : Number(/heading\s*(\d)/i.exec(style)?.[1] ?? (outline < 9 ? outline + 1 : 0));
+  if (headingLevel > 0) return heading(headingLevel, text);
+
+  const numbering = props && firstChild(props, 'numPr');
+  if (numbering) {
+    const depth = Number(attr(firstChild(numbering, 'ilvl'), 'val') ?? 0);
+    return `${'  '.repeat(depth)}- ${text}`;
+  }
+  return text;
+};
+
+const docxBlocks = (container: Element): string[] => {
+  const blocks: string[] = [];
+  for (const el of childrenNamed(container)) {
+    if (el.localName === 'p') {
+      const block = docxParagraph(el);
+      if (block) blocks.push(block);
+    } else if (el.localName === 'tbl') {
+      const rows = childrenNamed(el, 'tr').map(tr => childrenNamed(tr, 'tc').map(tc => docxBlocks(tc).join('\n')));
+      const table = markdownTable(rows);
+      if (table) blocks.push(table);
+    } else if (el.localName === 'sdt') {
+      const content = firstChild(el, 'sdtContent');
+      if (content) blocks.push(...docxBlocks(content));
+    }
+  }
+  return blocks;
+};
+
+async function docxToMarkdown(zip: JSZip): Promise<string> {
+  const body = descendantsNamed(parseXml(await readEntry(zip, 'word/document.xml')), 'body')[0];
+  return body ? docxBlocks(body).join('\n\n') : '';
+}
+
+// --- Excel (.xlsx) ---
+
+/** Zero-based column of a cell reference such as "AB12". */
+const columnIndex = (ref: string): number => {
+  const letters = /^[A-Z]+/i.exec(ref)?.[0].toUpperCase() ?? 'A';
+  return [...letters].reduce((n, ch) => n * 26 + ch.charCodeAt(0) - 64, 0) - 1;
+};
+
+type DateStyle = 'date' | 'time' | 'datetime';
+
+// Built-in number formats that display dates or times
+const BUILTIN_DATE_FORMATS: Record<number, DateStyle> = {
+  14: 'date', 15: 'date', 16: 'date', 17: 'date', 18: 'time', 19: 'time', 20: 'time', 21: 'time', 22: 'datetime',
+  45: 'time', 46: 'time', 47: 'time'
+};
+
+/** Whether a custom format code shows a date, a time, both, or (undefined) a plain number. */
+const dateStyleOf = (formatCode: string): DateStyle | undefined => {
+  // Quoted literals, escaped characters and [Red]/[$-409] sections hold no date parts; [h] elapsed hours do
+  const code = formatCode.replace(/"[^"]*"|\\.|\[(?![hms]+\])[^\]]*\]/gi, '');
+  const hasDate = /[dy]/i.test(code) || (/m/i.test(code) && !/[hs]/i.test(code));
+  const hasTime = /[hs]/i.test(code);
+  return hasDate && hasTime ? 'datetime' : hasDate ? 'date' : hasTime ? 'time' : undefined;
+};
+
+/** The date style of each cell style index (the `s` attribute of a cell), from xl/styles.xml. */
+async function readDateStyles(zip: JSZip): Promise<Array<DateStyle | undefined>> {
+  const path = 'xl/styles.xml';
+  if (!zip.file(path)) return [];
+  const styles = parseXml(await readEntry(zip, path));
+  const custom = new Map(descendantsNamed(styles, 'numFmt').map(fmt => [Number(attr(fmt, 'numFmtId')), attr(fmt, 'formatCode') ?? '']));
+  const cellXfs = descendantsNamed(styles, 'cellXfs')[0];
+  return cellXfs ? childrenNamed(cellXfs, 'xf').map(xf => {
+    const id = Number(attr(xf, 'numFmtId') ?? 0);
+    return custom.has(id) ? dateStyleOf(custom.get(id)!) : BUILTIN_DATE_FORMATS[id];
+  }) : [];
+}
+
+/** An Excel serial day number as an ISO date, time or both. */
+const formatSerialDate = (serial: number, style: DateStyle, date1904: boolean): string => {
+  // The 1900 system counts a nonexistent 29 Feb 1900, so serials after it are one day ahead
+  const epoch = date1904 ? Date.UTC(1904, 0, 1) : Date.UTC(1899, 11, serial < 60 ? 31 : 30);
+  const iso = new Date(epoch + Math.round(serial * 86400) * 1000).toISOString();
+  const time = iso.slice(11, iso.endsWith(':00.000Z') ? 16 : 19);
+  return style === 'date' ? iso.slice(0, 10) : style === 'time' ? time : `${iso.slice(0, 10)} ${time}`;
+};
+
+async function xlsxToMarkdown(zip: JSZip): Promise<string> {
+  const workbookPath = 'xl/workbook.xml';
+  const workbook = parseXml(await readEntry(zip, workbookPath));
+  const rels = await readRelationships(zip, workbookPath);
+  const shared = zip.file('xl/sharedStrings.xml')
+    ? descendantsNamed(parseXml(await readEntry(zip, 'xl/sharedStrings.xml')), 'si')
+      .map(si => descendantsNamed(si, 't').map(t => t.textContent ?? '').join(''))
+    : [];
+  // Dates are stored as day numbers; the cell's number format says whether to read one as a date
+  const dateStyles = await readDateStyles(zip);
+  const workbookPr = descendantsNamed(workbook, 'workbookPr')[0];
+  const date1904 = ['1', 'true'].includes(attr(workbookPr, 'date1904') ?? '');
+
+  const sections: string[] = [];
+  for (const sheet of descendantsNamed(workbook, 'sheet')) {
+    const name = attr(sheet, 'name') || 'Sheet';
+    const target = rels.get(attr(sheet, 'id') || '')?.target;
+    if (!target || !zip.file(target)) continue;
+
+    const rows: string[][] = [];
+    const sheetRows = descendantsNamed(parseXml(await readEntry(zip, target)), 'row');
+    for (const row of sheetRows.slice(0, MAX_SHEET_ROWS)) {
+      const values: string[] = [];
+      childrenNamed(row, 'c').forEach((cell, i) => {
+        const ref = attr(cell, 'r');
+        const column = ref ? columnIndex(ref) : i;
+        const type = attr(cell, 't');
+        const raw = firstChild(cell, 'v')?.textContent ?? '';
+        const dateStyle = dateStyles[Number(attr(cell, 's') ?? 0)];
+        values[column] = type === 's' ? shared[Number(raw)] ?? ''
+          : (!type || type === 'n') && dateStyle && raw && Number.isFinite(Number(raw))
+            ? formatSerialDate(Number(raw), dateStyle, date1904)
+          : type === 'inlineStr' ? descendantsNamed(cell, 't').map(t => t.textContent ?? '').join('')
+          : type === 'b' ? (raw === '1' ? 'TRUE' : 'FALSE')
+          : raw;
+      });
+      if (values.some(v => v?.trim())) rows.push(Array.from(values, v => v ?? ''));
+    }
+
+    const table = markdownTable(rows);
+    const truncated = sheetRows.length > MAX_SHEET_ROWS ? `\n\n_${sheetRows.length - MAX_SHEET_ROWS} more rows not included._` : '';
+    sections.push(`${heading(2, `Sheet: ${name}`)}\n\n${table || '_Empty sheet_'}${truncated}`);
+  }
+  return sections.join('\n\n');
+}
+
+// --- PowerPoint (.pptx) ---
+
+const drawingParagraphs = (textBody: Element): string[] =>
+  childrenNamed(textBody, 'p')
+    .map(p => descendantsNamed(p, '*')
+      .map(el => el.localName === 't' ? el.textContent ?? '' : el.localName === 'br' ? '\n' : '')
+      .join('').trim())
+    .filter(Boolean);
+
+/** Text of a slide's shapes and tables in drawing order; title placeholders become headings. */
+const slideBlocks = (el: Element, blocks: string[]) => {
+  for (const child of childrenNamed(el)) {
+    if (child.localName === 'tbl') {
+      const rows = childrenNamed(child, 'tr').map(tr =>
+        childrenNamed(tr, 'tc').map(tc => descendantsNamed(tc, 'txBody').flatMap(drawingParagraphs).join('\n')));
+      const table = markdownTable(rows);
+      if (table) blocks.push(table);
+    } else if (child.localName === 'sp') {
+      const placeholder = attr(descendantsNamed(child, 'ph')[0], 'type');
+      const textBody = firstChild(child, 'txBody');
+      const paragraphs = textBody ? drawingParagraphs(textBody) : [];
+      if (paragraphs.length === 0) continue;
+      if (placeholder === 'title' || placeholder === 'ctrTitle') blocks.push(heading(3, paragraphs.join(' ')));
+      else blocks.push(paragraphs.map(text => placeholder === 'body' ? `- ${text}` : text).join('\n'));
+    } else {
+      slideBlocks(child, blocks);
+    }
+  }
+};
+
+async function pptxToMarkdown(zip: JSZip): Promise<string> {
+  const presentationPath = 'ppt/presentation.xml';
+  const presentation = parseXml(await readEntry(zip, presentationPath));
+  const rels = await readRelationships(zip, presentationPath);
+
+  const sections: string[] = [];
+  const slideIds = descendantsNamed(presentation, 'sldId');
+  for (const [index, slideId] of slideIds.entries()) {
+    const slidePath = rels.get(attr(slideId, 'id') || '')?.target;
+    if (!slidePath || !zip.file(slidePath)) continue;
+
+    const blocks: string[] = [];
+    const tree = descendantsNamed(parseXml(await readEntry(zip, slidePath)), 'spTree')[0];
+    if (tree) slideBlocks(tree, blocks);
+
+    const notesPath = Array.from((await readRelationships(zip, slidePath)).values())
+      .find(rel => rel.type.endsWith('/notesSlide'))?.target;
+    if (notesPath && zip.file(notesPath)) {
+      const notes = descendantsNamed(parseXml(await readEntry(zip, notesPath)), 'sp')
+        .filter(sp => attr(descendantsNamed(sp, 'ph')[0], 'type') === 'body')
+        .flatMap(sp => descendantsNamed(sp, 'txBody').flatMap(drawingParagraphs));
+      if (notes.length > 0) blocks.push(`**Speaker notes:** ${notes.join('\n')}`);
+    }
+
+    sections.push([heading(2, `Slide ${index + 1}`), ...blocks].join('\n\n'));
+  }
+  return sections.join('\n\n');
+}
+
+// --- OpenDocument text (.odt) ---
+
+const odfText = (el: Element): string => {
+  let text = '';
+  for (const node of Array.from(el.childNodes)) {
+    if (node.nodeType === Node.TEXT_NODE) {
+      text += node.textContent ?? '';
+      continue;
+    }
+    if (node.nodeType !== Node.ELEMENT_NODE) continue;
+    const child = node as Element;
+    if (child.localName === 's') text += ' '.repeat(Number(attr(child, 'c') ?? 1));
+    else if (child.localName === 'tab') text += '\t';
+    else if (child.localName === 'line-break') text += '\n';
+    else if (child.localName !== 'annotation' && child.localName !== 'note') text += odfText(child);
+  }
+  return text;
+};
+
+const odfBlocks = (container: Element, blocks: string[], listDepth = 0) => {
+  for (const el of childrenNamed(container)) {
+    if (el.localName === 'h') {
+      const text = odfText(el).trim();
+      if (text) blocks.push(heading(Number(attr(el, 'outline-level') ?? 1), text));
+    } else if (el.localName === 'p') {
+      const text = odfText(el).trim();
+      if (text) blocks.push(listDepth > 0 ? `${'  '.repeat(listDepth - 1)}- ${text}` : text);
+    } else if (el.localName === 'list') {
+      for (const item of childrenNamed(el)) odfBlocks(item, blocks, listDepth + 1);
+    } else if (el.localName === 'table') {
+      const rows = descendantsNamed(el, 'table-row').map(row =>
+        childrenNamed(row, 'table-cell').map(cell => {
+          const cellBlocks: string[] = [];
+          odfBlocks(cell, cellBlocks);
+          return cellBlocks.join('\n');
+        }));
+      const table = markdownTable(rows);
+      if (table) blocks.push(table);
+    } else if (el.localName === 'section' || el.localName === 'list-header') {
+      odfBlocks(el, blocks, listDepth);
+    }
+  }
+};
+
+async function odtToMarkdown(zip: JSZip): Promise<string> {
+  const text = descendantsNamed(parseXml(await readEntry(zip, 'content.xml')), 'text')
+    .find(el => el.parentElement?.localName === 'body');
+  const blocks: string[] = [];
+  if (text) odfBlocks(text, blocks);
+  return blocks.join('\n\n');
+}
+
+// --- EPUB (.epub) ---
+
+const HTML_BLOCK_TAGS = new Set([
+  'p', 'div', 'section', 'article', 'header', 'footer', 'aside', 'main', 'nav', 'figure', 'figcaption',
+  'blockquote', 'ul', 'ol', 'li', 'table', 'pre', 'hr', 'dl', 'dt', 'dd', 'body',
+  'h1', 'h2', 'h3', 'h4', 'h5', 'h6'
+]);
+const HTML_SKIPPED_TAGS = new Set(['script', 'style', 'head', 'title', 'svg', 'math']);
+
+const htmlInline = (el: Element): string => {
+  let text = '';
+  for (const node of Array.from(el.childNodes)) {
+    if (node.nodeType === Node.TEXT_NODE) text += (node.textContent ?? '').replace(/\s+/g, ' ');
+    else if (node.nodeType === Node.ELEMENT_NODE) {
+      const child = node as Element;
+      const tag = child.localName.toLowerCase();
+      if (tag === 'br') text += '\n';
+      else if (HTML_SKIPPED_TAGS.has(tag) || tag === 'ul' || tag === 'ol') continue;
+      else if (tag === 'strong' || tag === 'b') text += `**${htmlInline(child).trim()}**`;
+      else if (tag === 'em' || tag === 'i') text += `_${htmlInline(child).trim()}_`;
+      else text += htmlInline(child);
+    }
+  }
+  return text;
+};
+
+const tidy = (text: string) => text.split('\n').map(line => line.trim()).join('\n').trim();
+
+const htmlList = (list: Element, blocks: string[], depth: number) => {
+  const ordered = list.localName.toLowerCase() === 'ol';
+  childrenNamed(list).filter(li => li.localName.toLowerCase() === 'li').forEach((li, i) => {
+    const text = tidy(htmlInline(li)).replace(/\n/g, ' ');
+    if (text) blocks.push(`${'  '.repeat(depth)}${ordered ? `${i + 1}.` : '-'} ${text}`);
+    childrenNamed(li)
+      .filter(nested => /^(ul|ol)$/i.test(nested.localName))
+      .forEach(nested => htmlList(nested, blocks, depth + 1));
+  });
+};
+
+/** Markdown blocks for an HTML subtree; loose text between blocks becomes its own paragraph. */
+const htmlBlocks = (el: Element, blocks: string[]) => {
+  let inline = '';
+  const flush = () => {
+    const text = tidy(inline);
+    if (text) blocks.push(text);
+    inline = '';
+  };
+
+  for (const node of Array.from(el.childNodes)) {
+    if (node.nodeType === Node.TEXT_NODE) {
+      inline += (node.textContent ?? '').replace(/\s+/g, ' ');
+      continue;
+    }
+    if (node.nodeType !== Node.ELEMENT_NODE) continue;
+    const child = node as Element;
+    const tag = child.localName.toLowerCase();
+    if (HTML_SKIPPED_TAGS.has(tag)) continue;
+    if (!HTML_BLOCK_TAGS.has(tag)) {
+      inline += tag === 'br' ? '\n' : htmlInline(child);
+      continue;
+    }
+    flush();
+
+    if (/^h[1-6]$/.test(tag)) {
+      const text = tidy(htmlInline(child));
+      if (text) blocks.push(heading(Number(tag[1]), text));
+    } else if (tag === 'ul' || tag === 'ol') {
+      htmlList(child, blocks, 0);
+    } else if (tag === 'table') {
+      const rows = descendantsNamed(child, 'tr').map(tr =>
+        childrenNamed(tr).filter(cell => /^t[hd]$/i.test(cell.localName)).map(cell => tidy(htmlInline(cell))));
+      const table = markdownTable(rows);
+      if (table) blocks.push(table);
+    } else if (tag === 'pre') {
+      blocks.push(`\`\`\`\n${child.textContent ?? ''}\n\`\`\``);
+    } else if (tag === 'blockquote') {
+      const quoted: string[] = [];
+      htmlBlocks(child, quoted);
+      if (quoted.length > 0) blocks.push(quoted.join('\n\n').split('\n').map(line => `> ${line}`).join('\n'));
+    } else if (tag !== 'hr') {
+      htmlBlocks(child, blocks);
+    }
+  }
+  flush();
+};
+
+const parseHtml = (markup: string): Document => {
+  try {
+    return parseXml(markup, 'application/xhtml+xml');
+  } catch {
+    // Not every book is well-formed XHTML
+    return new DOMParser().parseFromString(markup, 'text/html');
+  }
+};
+
+async function epubToMarkdown(zip: JSZip): Promise<string> {
+  const container = parseXml(await readEntry(zip, 'META-INF/container.xml'));
+  const opfPath = attr(descendantsNamed(container, 'rootfile')[0], 'full-path');
+  if (!opfPath) throw new Error('Missing package document');
+  const opfDir = opfPath.slice(0, opfPath.lastIndexOf('/') + 1);
+  const opf = parseXml(await readEntry(zip, opfPath));
+
+  const manifest = new Map(descendantsNamed(opf, 'item').map(item => [attr(item, 'id') || '', attr(item, 'href') || '']));
+  const title = descendantsNamed(opf, 'title')[0]?.textContent?.trim();
+  const blocks: string[] = title ? [heading(1, title)] : [];
+
+  for (const itemRef of descendantsNamed(opf, 'itemref')) {
+    const href = manifest.get(attr(itemRef, 'idref') || '');
+    const path = href && resolvePath(opfDir, decodeURIComponent(href.split('#')[0]));
+    if (!path || !zip.file(path)) continue;
+    const body = parseHtml(await readEntry(zip, path)).getElementsByTagName('body')[0];
+    if (body) htmlBlocks(body, blocks);
+  }
+  return blocks.join('\n\n');
+}
+
+// --- Rich Text Format (.rtf) ---
+
+// Groups whose text is metadata or formatting rather than document content
+const RTF_SKIPPED_DESTINATIONS = new Set([
+  'fonttbl', 'colortbl', 'stylesheet', 'info', 'pict', 'object', 'themedata', 'colorschememapping',
+  'latentstyles', 'datastore', 'xmlnstbl', 'listtable', 'listoverridetable', 'rsidtbl', 'generator',
+  'header', 'headerl', 'headerr', 'headerf', 'footer', 'footerl', 'footerr', 'footerf', 'fldinst', 'mmathPr'
+]);
+
+function rtfToMarkdown(rtf: string): string {
+  const blocks: string[] = [];
+  let decoder = new TextDecoder('windows-1252');
+  let paragraph = '';
+  let outlineLevel = -1;
+  let inTable = false;
+  let row: string[] = [];
+  let tableRows: string[][] = [];
+  let bytes: number[] = [];
+
+  // Per-group state: whether its text is skipped, and how many fallback chars follow a \u
+  const stack: { skip: boolean; uc: number }[] = [];
+  let state = { skip: false, uc: 1 };
+  let fallbackToSkip = 0;
+
+  const emit = (text: string) => {
+    if (state.skip) return;
+    if (fallbackToSkip > 0) {
+      fallbackToSkip--;
+      return;
+    }
+    paragraph += text;
+  };
+  const flushBytes = () => {
+    if (bytes.length === 0) return;
+    const text = decoder.decode(new Uint8Array(bytes));
+    bytes = [];
+    emit(text);
+  };
+  const flushTable = () => {
+    const table = markdownTable(tableRows);
+    if (table) blocks.push(table);
+    tableRows = [];
+  };
+  const endParagraph = () => {
+    if (inTable) {
+      paragraph += '\n'; // Cell text is collected until \cell
+      return;
+    }
+    const text = paragraph.trim();
+    paragraph = '';
+    if (tableRows.length > 0) flushTable();
+    if (text) blocks.push(outlineLevel >= 0 ? heading(outlineLevel + 1, text) : text);
+  };
+
+  let i = 0;
+  while (i < rtf.length) {
+    const ch = rtf[i];
+    if (ch === '{' || ch === '}') {
+      flushBytes();
+      if (ch === '{') {
+        stack.push(state);
+        state = { ...state };
+      } else {
+        state = stack.pop() ?? state;
+      }
+      i++;
+      continue;
+    }
+    if (ch === '\r' || ch === '\n') {
+      i++;
+      continue;
+    }
+    if (ch !== '\\') {
+      flushBytes();
+      emit(ch);
+      i++;
+      continue;
+    }
+
+    const next = rtf[i + 1];
+    if (next === "'") {
+      const byte = parseInt(rtf.slice(i + 2, i + 4), 16);
+      if (!Number.isNaN(byte)) {
+        if (fallbackToSkip > 0) fallbackToSkip--;
+        else if (!state.skip) bytes.push(byte);
+      }
+      i += 4;
+      continue;
+    }
+    flushBytes();
+
+    const word = /^([a-zA-Z]+)(-?\d+)? ?/.exec(rtf.slice(i + 1, i + 40));
+    if (!word) {
+      // Control symbols
+      if (next === '*') state.skip = true;
+      else if (next === '~') emit(' ');
+      else if (next === '_') emit('-');
+      else if (next === '\\' || next === '{' || next === '}') emit(next);
+      else if (next === '\r' || next === '\n') endParagraph();
+      i += 2;
+      continue;
+    }
+    i += 1 + word[0].length;
+
+    const [, name, param] = word;
+    if (RTF_SKIPPED_DESTINATIONS.has(name)) state.skip = true;
+    else if (name === 'ansicpg' && param) {
+      try {
+        decoder = new TextDecoder(`windows-${param}`);
+      } catch {
+        // Keep the default code page
+      }
+    } else if (name === 'u' && param) {
+      const code = Number(param);
+      emit(String.fromCharCode(code < 0 ? code + 65536 : code));
+      fallbackToSkip = state.skip ? 0 : state.uc;
+    } else if (name === 'uc' && param) state.uc = Number(param);
+    else if (name === 'par' || name === 'sect' || name === 'page') endParagraph();
+    else if (name === 'line') emit('\n');
+    else if (name === 'tab') emit('\t');
+    else if (name === 'pard') {
+      outlineLevel = -1;
+      inTable = false;
+    } else if (name === 'outlinelevel') outlineLevel = Number(param ?? 0);
+    else if (name === 'intbl') inTable = true;
+    else if (name === 'cell') {
+      row.push(paragraph.trim());
+      paragraph = '';
+    } else if (name === 'row') {
+      if (row.length > 0) tableRows.push(row);
+      row = [];
+      paragraph = '';
+    }
+  }
+  flushBytes();
+  inTable = false;
+  endParagraph();
+  if (tableRows.length > 0) flushTable();
+  return blocks.join('\n\n');
+}
+
+/** Extract a document's content as markdown. `ext` is one of `CONVERTED_EXTENSIONS`. */
+export async function convertToMarkdown(file: Blob, ext: string): Promise<string> {
+  if (ext === '.rtf') return rtfToMarkdown(await file.text());
+
+  const zip = await JSZip.loadAsync(file);
+  switch (ext) {
+    case '.docx': return docxToMarkdown(zip);
+    case '.xlsx': return xlsxToMarkdown(zip);
+    case '.pptx': return pptxToMarkdown(zip);
+    case '.odt': return odtToMarkdown(zip);
+    case '.epub': return epubToMarkdown(zip);
+    default: throw new Error(`No converter for ${ext} files`);
+  }
+}
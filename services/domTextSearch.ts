@@ -0,0 +1,90 @@
+/**
+ * Searching the text a viewer has rendered (tables, trees, PDF text layers alike) and
+ * painting matches with the CSS Custom Highlight API, which leaves React's DOM untouched.
+ */
+
+// Matches beyond this are not collected; the count shows "1000+"
+export const MAX_MATCHES = 1000;
+
+/** Elements marked with this attribute (line numbers, toolbars) are never matched. */
+export const FIND_IGNORE_ATTRIBUTE = 'data-find-ignore';
+
+export const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/** Case-insensitive literal search for a find-bar query. */
+export const queryPattern = (query: string): RegExp | null =>
+  query ? new RegExp(escapeRegExp(query), 'gi') : null;
+
+/**
+ * Whitespace-tolerant pattern for a cited passage.
+ * Retrieved chunks are whitespace-normalized, and rendered views drop line breaks between blocks.
+ */
+export const passagePattern = (passage: string): RegExp | null => {
+  const words = passage.trim().split(/\s+/).filter(Boolean);
+  return words.length > 0 ? new RegExp(words.map(escapeRegExp).join('\\s*'), 'g') : null;
+};
+
+/** Ranges of the text under `root` matching a global pattern; a match may span several elements. */
+export function findTextRanges(root: Node, pattern: RegExp, limit = MAX_MATCHES): Range[] {
+  const nodes: Text[] = [];
+  const starts: number[] = [];
+  let text = '';
+
+  const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT, {
+    acceptNode: node => node.parentElement?.closest(`[${FIND_IGNORE_ATTRIBUTE}]`)
+      ? NodeFilter.FILTER_REJECT
+      : NodeFilter.FILTER_ACCEPT
+  });
+  for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+    nodes.push(node as Text);
+    starts.push(text.length);
+    text += node.textContent ?? '';
+  }
+
+  // Text node holding a character offset of the concatenated text
+  const locate = (offset: number) => {
+    let lo = 0;
+    let hi = starts.length - 1;
+    while (lo < hi) {
+      const mid = (lo + hi + 1) >> 1;
+      if (starts[mid] <= offset) lo = mid;
+      else hi = mid - 1;
+    }
+    return { node: nodes[lo], offset: offset - starts[lo] };
+  };
+
+  const ranges: Range[] = [];
+  pattern.lastIndex = 0;
+  for (let match = pattern.exec(text); match && ranges.length < limit; match = pattern.exec(text)) {
+    if (match[0].length === 0) {
+      pattern.lastIndex++;
+      continue;
+    }
+    const start = locate(match.index);
+    const end = locate(match.index + match[0].length - 1);
+    const range = document.createRange();
+    range.setStart(start.node, start.offset);
+    range.setEnd(end.node, end.offset + 1);
+    ranges.push(range);
+  }
+  return ranges;
+}
+
+const supportsHighlights = () => typeof CSS !== 'undefined' && 'highlights' in CSS;
+
+/** Paint ranges under a named highlight (styled with `::highlight(name)`). Returns false if unsupported. */
+export function paintHighlight(name: string, ranges: Range[]): boolean {
+  if (!supportsHighlights()) return false;
+  if (ranges.length === 0) CSS.highlights.delete(name);
+  else CSS.highlights.set(name, new Highlight(...ranges));
+  return true;
+}
+
+export function clearHighlight(name: string) {
+  if (supportsHighlights()) CSS.highlights.delete(name);
+}
+
+export function scrollRangeIntoView(range: Range) {
+  const target = range.startContainer.parentElement;
+  target?.scrollIntoView({ behavior: 'smooth', block: 'center', inline: 'nearest' });
+}
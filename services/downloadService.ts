@@ -0,0 +1,20 @@
+/** Save a blob through the browser's download flow. */
+export function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Revoking right away can cancel the download in some browsers
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+/** Save CSV text. The byte order mark makes spreadsheet apps read it as UTF-8. */
+export const downloadCsv = (csv: string, fileName: string) =>
+  downloadBlob(new Blob(['\uFEFF', csv], { type: 'text/csv;charset=utf-8' }), fileName);
+
+/** A title turned into something every file system accepts. */
+export const safeFileName = (title: string, fallback = 'export') =>
+  title.replace(/[\\/:*?"<>|\x00-\x1f]+/g, ' ').replace(/\s+/g, ' ').trim().slice(0, 100) || fallback;
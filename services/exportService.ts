@@ -0,0 +1,267 @@
+import { createElement } from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+import ReactMarkdown from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import {
+  ChatThread, FileDocument, GenerationSettings, GroundingMetadata, MessageRole, MetadataTag, WebSource, Workspace
+} from '../types';
+import { DocumentSource, collectDocumentSources, extractCitedNames } from './citationService';
+import { getPathTo } from './messageTree';
+import { formatTags } from './metadataService';
+import { downloadBlob, safeFileName } from './downloadService';
+
+/**
+ * Conversation export. A thread's visible branch is first captured as a plain `ThreadExport`
+ * (which is also the JSON format), then rendered as Markdown or standalone HTML; PDF is the
+ * HTML sent to the browser's print dialog.
+ */
+
+export type ExportFormat = 'markdown' | 'html' | 'pdf' | 'json';
+
+export interface ExportedMessage {
+  role: MessageRole;
+  text: string;
+  timestamp: string; // ISO 8601
+  generation?: GenerationSettings; // Model and parameters of an answer
+  status?: 'stopped' | 'error';
+  // What a question was limited to
+  versionFile?: string;
+  scopeFiles?: string[];
+  metadataFilter?: string;
+  citations?: string[]; // Files the answer cites inline
+  sources?: DocumentSource[]; // Passages retrieval returned for the answer, by document
+  webSources?: WebSource[];
+  groundingMetadata?: GroundingMetadata; // Unprocessed, for tools that want chunk indices
+}
+
+export interface ExportedDocument {
+  name: string;
+  version: number;
+  status: string;
+  size: number;
+  uploadedAt: string;
+  tags?: MetadataTag[];
+}
+
+export interface ThreadExport {
+  title: string;
+  workspace: string;
+  createdAt: string;
+  updatedAt: string;
+  exportedAt: string;
+  metadataFilter?: string; // Applied to every question of the conversation
+  documents: ExportedDocument[];
+  messages: ExportedMessage[];
+}
+
+// Retrieved passages are cut to this length in the human-readable formats
+const PASSAGE_EXCERPT_LENGTH = 300;
+
+const iso = (timestamp: number) => new Date(timestamp).toISOString();
+const readableTime = (value: string) => new Date(value).toLocaleString();
+const excerpt = (text: string) => {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  return flat.length > PASSAGE_EXCERPT_LENGTH ? `${flat.slice(0, PASSAGE_EXCERPT_LENGTH)}…` : flat;
+};
+const fileName = (files: FileDocument[], id: string) => files.find(f => f.id === id)?.name ?? 'Deleted file';
+
+/** Capture the branch of the thread being shown, with what each turn was based on. */
+export function buildThreadExport(workspace: Workspace, thread: ChatThread): ThreadExport {
+  const files = workspace.files;
+  const messages = getPathTo(thread.messages, thread.activeLeafId).map((message): ExportedMessage => {
+    const isModel = message.role === MessageRole.MODEL;
+    const webSources = (message.groundingMetadata?.groundingChunks ?? [])
+      .map(chunk => chunk.web)
+      .filter((web): web is WebSource => !!web?.uri);
+    const versionFile = message.versionFileId && files.find(f => f.id === message.versionFileId);
+    return {
+      role: message.role,
+      text: message.text,
+      timestamp: iso(message.timestamp),
+      ...(isModel && message.generation && { generation: message.generation }),
+      ...(message.isStopped && { status: 'stopped' as const }),
+      ...(message.isError && { status: 'error' as const }),
+      ...(message.versionFileId && {
+        versionFile: versionFile ? `${versionFile.name} · v${versionFile.version ?? 1}` : 'Deleted version'
+      }),
+      ...(message.scopeFileIds?.length && { scopeFiles: message.scopeFileIds.map(id => fileName(files, id)) }),
+      ...(message.metadataFilter && { metadataFilter: message.metadataFilter }),
+      ...(isModel && !message.isError && {
+        citations: extractCitedNames(message.text),
+        sources: collectDocumentSources(message.groundingMetadata),
+        webSources
+      }),
+      ...(message.groundingMetadata && { groundingMetadata: message.groundingMetadata })
+    };
+  });
+
+  return {
+    title: thread.title,
+    workspace: workspace.name,
+    createdAt: iso(thread.createdAt),
+    updatedAt: iso(thread.updatedAt),
+    exportedAt: new Date().toISOString(),
+    ...(thread.metadataFilter && { metadataFilter: thread.metadataFilter }),
+    documents: files.map(file => ({
+      name: file.name,
+      version: file.version ?? 1,
+      status: file.status ?? 'pending',
+      size: file.size,
+      uploadedAt: iso(file.uploadDate),
+      ...(file.metadata?.length && { tags: file.metadata })
+    })),
+    messages
+  };
+}
+
+const scopeLines = (message: ExportedMessage): string[] => [
+  ...(message.versionFile ? [`Asked directly against ${message.versionFile}`] : []),
+  ...(message.scopeFiles ? [`Only from: ${message.scopeFiles.join(', ')}`] : []),
+  ...(message.metadataFilter ? [`Metadata filter: ${message.metadataFilter}`] : [])
+];
+
+const messageHeading = (message: ExportedMessage) => {
+  const parts = [
+    message.role === MessageRole.USER ? 'Question' : message.role === MessageRole.MODEL ? 'Answer' : 'Note',
+    readableTime(message.timestamp),
+    ...(message.generation ? [message.generation.modelId] : []),
+    ...(message.status === 'stopped' ? ['stopped'] : message.status === 'error' ? ['failed'] : [])
+  ];
+  return parts.join(' · ');
+};
+
+const documentLine = (doc: ExportedDocument) =>
+  `${doc.name} (v${doc.version}, ${doc.status})${doc.tags ? ` · ${formatTags(doc.tags)}` : ''}`;
+
+export function toMarkdown(data: ThreadExport): string {
+  const out: string[] = [
+    `# ${data.title}`,
+    '',
+    `Workspace: ${data.workspace} · Started ${readableTime(data.createdAt)} · Exported ${readableTime(data.exportedAt)}`,
+    ...(data.metadataFilter ? ['', `Conversation filter: \`${data.metadataFilter}\``] : []),
+    '',
+    '## Source documents',
+    '',
+    ...(data.documents.length > 0 ? data.documents.map(doc => `- ${documentLine(doc)}`) : ['_None_']),
+    ''
+  ];
+
+  for (const message of data.messages) {
+    out.push('---', '', `### ${messageHeading(message)}`, '');
+    const scope = scopeLines(message);
+    if (scope.length > 0) out.push(...scope.map(line => `> ${line}`), '');
+    out.push(message.text.trim() || '_No text_', '');
+
+    if (message.citations?.length) out.push(`**Cited:** ${message.citations.join(', ')}`, '');
+    if (message.sources?.length || message.webSources?.length) {
+      out.push('**Sources**', '');
+      for (const source of message.sources ?? []) {
+        out.push(`- ${source.title}`);
+        source.passages.forEach(p => out.push(`  - ${p.pageNumber ? `p. ${p.pageNumber}: ` : ''}"${excerpt(p.text)}"`));
+      }
+      for (const web of message.webSources ?? []) out.push(`- [${web.title || web.uri}](${web.uri})`);
+      out.push('');
+    }
+  }
+  return out.join('\n');
+}
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const renderMarkdown = (markdown: string): string =>
+  renderToStaticMarkup(createElement(ReactMarkdown, { remarkPlugins: [remarkGfm] }, markdown));
+
+const HTML_STYLES = `
+  body { font: 15px/1.6 -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif; color: #1e293b; max-width: 820px; margin: 40px auto; padding: 0 24px; }
+  h1 { font-size: 26px; margin-bottom: 4px; }
+  .meta { color: #64748b; font-size: 13px; }
+  .filter, code { font-family: ui-monospace, SFMono-Regular, Menlo, monospace; font-size: 13px; background: #f1f5f9; padding: 1px 5px; border-radius: 4px; }
+  pre { background: #f8fafc; border: 1px solid #e2e8f0; border-radius: 8px; padding: 12px; overflow-x: auto; }
+  pre code { background: none; padding: 0; }
+  table { border-collapse: collapse; margin: 12px 0; }
+  th, td { border: 1px solid #e2e8f0; padding: 6px 10px; text-align: left; vertical-align: top; }
+  .documents { font-size: 13px; color: #475569; }
+  .turn { border-top: 1px solid #e2e8f0; padding: 16px 0; break-inside: avoid-page; }
+  .turn h3 { font-size: 12px; text-transform: uppercase; letter-spacing: .06em; color: #64748b; margin: 0 0 8px; }
+  .question .body { background: #eef2ff; border-radius: 12px; padding: 12px 16px; }
+  .scope { font-size: 12px; color: #4338ca; margin: 0 0 8px; }
+  .cited { font-size: 13px; color: #475569; }
+  .sources { font-size: 12px; color: #475569; background: #f8fafc; border-radius: 8px; padding: 8px 16px 8px 28px; }
+  .sources blockquote { margin: 4px 0; color: #64748b; font-style: italic; }
+  @media print { body { margin: 0; max-width: none; } a { color: inherit; } }
+`;
+
+export function toHtml(data: ThreadExport): string {
+  const turns = data.messages.map(message => {
+    const kind = message.role === MessageRole.USER ? 'question' : 'answer';
+    const scope = scopeLines(message).map(line => `<p class="scope">${escapeHtml(line)}</p>`).join('');
+    const body = message.role === MessageRole.USER
+      ? `<p>${escapeHtml(message.text).replace(/\n/g, '<br>')}</p>`
+      : renderMarkdown(message.text);
+    const cited = message.citations?.length
+      ? `<p class="cited"><strong>Cited:</strong> ${message.citations.map(escapeHtml).join(', ')}</p>`
+      : '';
+    const sourceItems = [
+      ...(message.sources ?? []).map(source => `<li>${escapeHtml(source.title)}${source.passages.map(p =>
+        `<blockquote>${p.pageNumber ? `p. ${p.pageNumber}: ` : ''}${escapeHtml(excerpt(p.text))}</blockquote>`).join('')}</li>`),
+      ...(message.webSources ?? []).map(web => `<li><a href="${escapeHtml(web.uri)}">${escapeHtml(web.title || web.uri)}</a></li>`)
+    ];
+    const sources = sourceItems.length > 0 ? `<ul class="sources">${sourceItems.join('')}</ul>` : '';
+    return `<section class="turn ${kind}"><h3>${escapeHtml(messageHeading(message))}</h3>${scope}<div class="body">${body}</div>${cited}${sources}</section>`;
+  });
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(data.title)}</title>
+<style>${HTML_STYLES}</style>
+</head>
+<body>
+<h1>${escapeHtml(data.title)}</h1>
+<p class="meta">Workspace: ${escapeHtml(data.workspace)} · Started ${escapeHtml(readableTime(data.createdAt))} · Exported ${escapeHtml(readableTime(data.exportedAt))}</p>
+${data.metadataFilter ? `<p class="meta">Conversation filter: <span class="filter">${escapeHtml(data.metadataFilter)}</span></p>` : ''}
+<h2>Source documents</h2>
+<ul class="documents">${data.documents.map(doc => `<li>${escapeHtml(documentLine(doc))}</li>`).join('') || '<li>None</li>'}</ul>
+${turns.join('\n')}
+</body>
+</html>`;
+}
+
+export const toJson = (data: ThreadExport): string => JSON.stringify(data, null, 2);
+
+/**
+ * Open the print dialog for an HTML document, where it can be saved as PDF.
+ * Printing happens in a hidden frame so the app itself is not what gets printed.
+ */
+export function printHtml(html: string) {
+  const frame = document.createElement('iframe');
+  frame.style.cssText = 'position:fixed;width:0;height:0;border:0;visibility:hidden';
+  frame.srcdoc = html;
+  frame.onload = () => {
+    const win = frame.contentWindow;
+    if (!win) return;
+    win.addEventListener('afterprint', () => frame.remove(), { once: true });
+    win.focus();
+    win.print();
+  };
+  document.body.appendChild(frame);
+}
+
+/** Export a thread in the given format: a download, or the print dialog for PDF. */
+export function exportThread(workspace: Workspace, thread: ChatThread, format: ExportFormat) {
+  const data = buildThreadExport(workspace, thread);
+  const name = safeFileName(thread.title, 'conversation');
+  switch (format) {
+    case 'markdown':
+      return downloadBlob(new Blob([toMarkdown(data)], { type: 'text/markdown' }), `${name}.md`);
+    case 'html':
+      return downloadBlob(new Blob([toHtml(data)], { type: 'text/html' }), `${name}.html`);
+    case 'pdf':
+      return printHtml(toHtml(data));
+    case 'json':
+      return downloadBlob(new Blob([toJson(data)], { type: 'application/json' }), `${name}.json`);
+  }
+}
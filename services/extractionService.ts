@@ -0,0 +1,205 @@
+import { Schema, Type } from '@google/genai';
+import {
+  ExtractedValue, Extraction, ExtractionCell, ExtractionField, ExtractionFieldType, FileDocument
+} from '../types';
+import { formatCsv } from './csvService';
+import { downloadBlob, downloadCsv, safeFileName } from './downloadService';
+import { isJsonObject } from './jsonGuards';
+
+/**
+ * Structured extraction: the user defines a schema of typed fields, each document is read once
+ * with a JSON response schema built from it, and every value comes back with the passage it
+ * was read from so the table can cite it.
+ */
+
+export type ExtractionExportFormat = 'csv' | 'json';
+
+const LIST_SEPARATOR = '; ';
+
+const TYPE_HINTS: Record<ExtractionFieldType, string> = {
+  text: 'text',
+  number: 'a number, without units or thousands separators',
+  date: 'a date as YYYY-MM-DD',
+  boolean: 'true or false',
+  list: 'a list of short text items'
+};
+
+/** A blank field for the schema editor. */
+export const createField = (): ExtractionField => ({ id: crypto.randomUUID(), name: '', type: 'text' });
+
+/** An empty extraction for a workspace that has none yet. */
+export const createExtraction = (): Extraction => ({ fields: [createField()], rows: [], updatedAt: Date.now() });
+
+/** Why a schema cannot be run yet, if it can't. */
+export function checkFields(fields: ExtractionField[]): string | undefined {
+  if (fields.length === 0) return 'Add at least one field.';
+  if (fields.some(f => !f.name.trim())) return 'Every field needs a name.';
+  const names = fields.map(f => f.name.trim().toLowerCase());
+  const duplicate = names.find((name, i) => names.indexOf(name) !== i);
+  if (duplicate) return `Two fields are named "${fields[names.indexOf(duplicate)].name.trim()}".`;
+  return undefined;
+}
+
+const valueSchema = (type: ExtractionFieldType): Schema => {
+  switch (type) {
+    case 'number': return { type: Type.NUMBER, nullable: true };
+    case 'boolean': return { type: Type.BOOLEAN, nullable: true };
+    case 'list': return { type: Type.ARRAY, items: { type: Type.STRING }, nullable: true };
+    case 'date': return { type: Type.STRING, description: 'YYYY-MM-DD', nullable: true };
+    default: return { type: Type.STRING, nullable: true };
+  }
+};
+
+/** The prompt and response schema that pull a schema's fields out of one document. */
+export function buildExtractionRequest(fields: ExtractionField[]): { prompt: string; responseSchema: Schema } {
+  const names = fields.map(f => f.name.trim());
+  const properties: Record<string, Schema> = {};
+  fields.forEach((field, i) => {
+    properties[names[i]] = {
+      type: Type.OBJECT,
+      ...(field.instructions?.trim() && { description: field.instructions.trim() }),
+      properties: {
+        value: valueSchema(field.type),
+        quote: { type: Type.STRING, description: 'Verbatim passage of the document the value was read from' },
+        page: { type: Type.INTEGER, description: 'Page of the quote, for paged documents', nullable: true }
+      },
+      required: ['value', 'quote'],
+      propertyOrdering: ['value', 'quote', 'page']
+    };
+  });
+
+  const lines = fields.map((field, i) =>
+    `- "${names[i]}" (${TYPE_HINTS[field.type]})${field.instructions?.trim() ? `: ${field.instructions.trim()}` : ''}`
+  );
+  const prompt = [
+    'Extract the following fields from the attached document.',
+    ...lines,
+    '',
+    'For every field return the value, a short verbatim quote from the document that supports it and, for paged documents, the page the quote is on.',
+    'If the document does not state a field, return null as its value and an empty quote. Never guess.'
+  ].join('\n');
+
+  return {
+    prompt,
+    responseSchema: { type: Type.OBJECT, properties, required: names, propertyOrdering: names }
+  };
+}
+
+/** Coerce a model or user value to a field's type; anything unusable becomes null. */
+function coerceValue(type: ExtractionFieldType, raw: unknown): ExtractedValue {
+  if (raw === null || raw === undefined || raw === '') return null;
+  switch (type) {
+    case 'number': {
+      const n = typeof raw === 'number' ? raw : Number(String(raw).replace(/[,\s]/g, ''));
+      return Number.isFinite(n) ? n : null;
+    }
+    case 'boolean':
+      if (typeof raw === 'boolean') return raw;
+      if (/^(true|yes|y|1)$/i.test(String(raw).trim())) return true;
+      if (/^(false|no|n|0)$/i.test(String(raw).trim())) return false;
+      return null;
+    case 'list': {
+      const items = Array.isArray(raw) ? raw.map(String) : String(raw).split(/[;\n]/);
+      const trimmed = items.map(item => item.trim()).filter(Boolean);
+      return trimmed.length > 0 ? trimmed : null;
+    }
+    default:
+      return String(raw).trim() || null;
+  }
+}
+
+/** Turn the model's JSON response into cells keyed by field id. */
+export function parseExtractionResult(fields: ExtractionField[], result: unknown): Record<string, ExtractionCell> {
+  const data = isJsonObject(result) ? result : {};
+  const cells: Record<string, ExtractionCell> = {};
+  for (const field of fields) {
+    const raw = data[field.name.trim()];
+    // Each field comes back as { value, quote, page }; a bare value is accepted too
+    const entry = isJsonObject(raw) ? raw : { value: raw };
+    const value = coerceValue(field.type, entry.value);
+    const quote = typeof entry.quote === 'string' ? entry.quote.trim() : '';
+    const page = Number(entry.page);
+    cells[field.id] = {
+      value,
+      ...(value !== null && quote && { quote }),
+      ...(value !== null && Number.isInteger(page) && page > 0 && { pageNumber: page })
+    };
+  }
+  return cells;
+}
+
+/** A value as shown in the table and written to CSV. */
+export function formatValue(value: ExtractedValue | undefined): string {
+  if (value === null || value === undefined) return '';
+  if (Array.isArray(value)) return value.join(LIST_SEPARATOR);
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  return String(value);
+}
+
+/** Read a hand-typed value. Returns an error message when the text does not fit the field. */
+export function parseCellInput(type: ExtractionFieldType, text: string): { value: ExtractedValue; error?: string } {
+  const value = coerceValue(type, text);
+  if (value !== null || !text.trim()) return { value };
+  return { value: null, error: `"${text.trim()}" is not ${TYPE_HINTS[type]}.` };
+}
+
+/** Rows cut off by a page reload or an interrupted import end up failed rather than spinning forever. */
+export const settleInterruptedRows = (extraction: Extraction): Extraction =>
+  extraction.rows.some(r => r.status === 'pending' || r.status === 'running')
+    ? {
+        ...extraction,
+        rows: extraction.rows.map(r => r.status === 'pending' || r.status === 'running'
+          ? { ...r, status: 'error', error: 'Extraction was interrupted.' }
+          : r)
+      }
+    : extraction;
+
+interface ExportedExtractionRow {
+  document: string;
+  version: number;
+  extractedAt?: string;
+  error?: string;
+  fields: Record<string, { value: ExtractedValue; quote?: string; page?: number; edited?: boolean }>;
+}
+
+/** The rows of the given documents, in their order. Documents never extracted get empty rows. */
+const rowsFor = (extraction: Extraction, documents: FileDocument[]) =>
+  documents.map(doc => ({ doc, row: extraction.rows.find(r => r.fileId === doc.id) }));
+
+export function toCsv(extraction: Extraction, documents: FileDocument[]): string {
+  const header = ['Document', ...extraction.fields.map(f => f.name.trim())];
+  const rows = rowsFor(extraction, documents).map(({ doc, row }) =>
+    [doc.name, ...extraction.fields.map(f => formatValue(row?.cells[f.id]?.value))]
+  );
+  return formatCsv([header, ...rows]);
+}
+
+export function toJson(extraction: Extraction, documents: FileDocument[]): string {
+  const rows: ExportedExtractionRow[] = rowsFor(extraction, documents).map(({ doc, row }) => ({
+    document: doc.name,
+    version: doc.version ?? 1,
+    ...(row?.extractedAt && { extractedAt: new Date(row.extractedAt).toISOString() }),
+    ...(row?.status === 'error' && { error: row.error }),
+    fields: Object.fromEntries(extraction.fields.map(f => {
+      const cell = row?.cells[f.id];
+      return [f.name.trim(), {
+        value: cell?.value ?? null,
+        ...(cell?.quote && { quote: cell.quote }),
+        ...(cell?.pageNumber && { page: cell.pageNumber }),
+        ...(cell?.isEdited && { edited: true })
+      }];
+    }))
+  }));
+  const schema = extraction.fields.map(({ name, type, instructions }) => ({ name: name.trim(), type, ...(instructions && { instructions }) }));
+  return JSON.stringify({ exportedAt: new Date().toISOString(), schema, rows }, null, 2);
+}
+
+/** Download the table for the given documents. */
+export function exportExtraction(extraction: Extraction, documents: FileDocument[], format: ExtractionExportFormat, title: string) {
+  const fileName = `${safeFileName(title, 'extraction')}.${format}`;
+  if (format === 'csv') {
+    downloadCsv(toCsv(extraction, documents), fileName);
+  } else {
+    downloadBlob(new Blob([toJson(extraction, documents)], { type: 'application/json' }), fileName);
+  }
+}
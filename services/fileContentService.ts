@@ -0,0 +1,20 @@
+import { FileDocument } from '../types';
+
+/** Formats whose bytes can be shown (and diffed) as plain text. */
+export const isTextMimeType = (mime: string): boolean =>
+  mime.startsWith('text/') || mime === 'application/json' || mime.includes('sql') || mime.includes('xml');
+
+/** Read a stored file as text. */
+export async function readFileText(file: FileDocument): Promise<string> {
+  if (!file.fileHandle) throw new Error(`The original content of "${file.name}" is no longer available.`);
+  return file.fileHandle.text();
+}
+
+/** Base64 payload of a blob, without the data-URL prefix. */
+export const readFileBase64 = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result).split(',')[1] || '');
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
@@ -0,0 +1,230 @@
+import JSZip from 'jszip';
+import { FileDocument } from '../types';
+import { SUPPORTED_EXTENSIONS, CONVERTED_EXTENSIONS, MAX_FILE_SIZE, MIME_TYPE_MAP } from '../constants';
+import { hashFile } from './dedupService';
+import { convertToMarkdown } from './documentConversionService';
+
+/**
+ * Turns whatever the user picked or dropped (files, folders, ZIP archives) into upload-ready
+ * documents named by their relative path, collecting the entries that had to be skipped.
+ */
+
+/** A file together with the path it should be shown under. */
+export interface IntakeCandidate {
+  file: File;
+  path: string;
+}
+
+export interface SkippedEntry {
+  path: string;
+  reason: string;
+}
+
+export interface IntakeResult {
+  accepted: FileDocument[];
+  skipped: SkippedEntry[];
+}
+
+// Nested archives are expanded, but not indefinitely
+const MAX_ZIP_DEPTH = 3;
+// Limits per dropped archive, nested archives included, so a zip bomb stops early instead of filling memory
+const MAX_ZIP_ENTRIES = 2000;
+const MAX_ZIP_TOTAL_SIZE = 500 * 1024 * 1024;
+// Operating-system clutter that is never worth reporting
+const IGNORED_NAMES = /(^|\/)(__MACOSX\/|\.DS_Store$|Thumbs\.db$|desktop\.ini$)/i;
+
+const extensionOf = (path: string) => {
+  const name = path.split('/').pop() || path;
+  const dot = name.lastIndexOf('.');
+  return dot > 0 ? name.slice(dot).toLowerCase() : '';
+};
+
+const isZip = (path: string) => extensionOf(path) === '.zip';
+
+/** Candidates from an <input>; folder pickers fill in `webkitRelativePath`. */
+export const candidatesFromFileList = (fileList: FileList): IntakeCandidate[] =>
+  Array.from(fileList).map(file => ({ file, path: file.webkitRelativePath || file.name }));
+
+const readDirectory = (dir: FileSystemDirectoryEntry): Promise<FileSystemEntry[]> =>
+  new Promise((resolve, reject) => {
+    const reader = dir.createReader();
+    const entries: FileSystemEntry[] = [];
+    // readEntries returns results in batches until it yields an empty one
+    const readBatch = () => reader.readEntries(batch => {
+      if (batch.length === 0) return resolve(entries);
+      entries.push(...batch);
+      readBatch();
+    }, reject);
+    readBatch();
+  });
+
+const entryToFile = (entry: FileSystemFileEntry): Promise<File> =>
+  new Promise((resolve, reject) => entry.file(resolve, reject));
+
+async function walkEntry(entry: FileSystemEntry, out: IntakeCandidate[]): Promise<void> {
+  const path = entry.fullPath.replace(/^\//, '');
+  if (entry.isFile) {
+    out.push({ file: await entryToFile(entry as FileSystemFileEntry), path });
+  } else if (entry.isDirectory) {
+    for (const child of await readDirectory(entry as FileSystemDirectoryEntry)) {
+      await walkEntry(child, out);
+    }
+  }
+}
+
+/**
+ * Candidates from a drop, descending into dropped folders.
+ * Must be called synchronously from the drop handler: the entries vanish once the event ends.
+ */
+export function candidatesFromDataTransfer(dataTransfer: DataTransfer): Promise<IntakeCandidate[]> {
+  const entries = Array.from(dataTransfer.items)
+    .filter(item => item.kind === 'file')
+    .map(item => item.webkitGetAsEntry());
+
+  if (entries.some(entry => !entry)) {
+    // No entry API (or a non-file item): fall back to the flat file list
+    return Promise.resolve(candidatesFromFileList(dataTransfer.files));
+  }
+
+  return (async () => {
+    const out: IntakeCandidate[] = [];
+    for (const entry of entries) await walkEntry(entry!, out);
+    return out;
+  })();
+}
+
+/** What is left of an archive's allowance, shared with the archives nested in it. */
+interface ArchiveBudget {
+  entries: number;
+  bytes: number;
+}
+
+const toMB = (bytes: number) => Math.round(bytes / (1024 * 1024));
+
+/** Unpack an archive; entries are placed in a folder named after it. */
+async function expandZip(
+  candidate: IntakeCandidate,
+  depth: number,
+  budget: ArchiveBudget,
+  out: IntakeResult,
+  toCheck: IntakeCandidate[]
+) {
+  if (depth >= MAX_ZIP_DEPTH) {
+    out.skipped.push({ path: candidate.path, reason: 'Archive nested too deeply' });
+    return;
+  }
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(candidate.file);
+  } catch {
+    out.skipped.push({ path: candidate.path, reason: 'Could not read archive' });
+    return;
+  }
+
+  const folder = candidate.path.replace(/\.zip$/i, '');
+  const entries = Object.values(zip.files).filter(entry => !entry.dir && !IGNORED_NAMES.test(entry.name));
+  for (const [i, entry] of entries.entries()) {
+    if (budget.entries <= 0) {
+      out.skipped.push({ path: candidate.path, reason: `${entries.length - i} entries not unpacked: over ${MAX_ZIP_ENTRIES} files` });
+      return;
+    }
+    budget.entries--;
+    const path = `${folder}/${entry.name}`;
+    if (!SUPPORTED_EXTENSIONS.includes(extensionOf(path)) && !isZip(path)) {
+      out.skipped.push({ path, reason: `Unsupported type ${extensionOf(path) || '(none)'}` });
+      continue;
+    }
+    // Inner archives are bounded by what is left of the total; their entries are counted again
+    const fileLimitApplies = !isZip(path) && MAX_FILE_SIZE <= budget.bytes;
+    const limit = fileLimitApplies ? MAX_FILE_SIZE : budget.bytes;
+    const skipTooLarge = () => out.skipped.push({
+      path,
+      reason: fileLimitApplies
+        ? `Too large (over ${toMB(MAX_FILE_SIZE)}MB)`
+        : `Too large: the archive unpacks to over ${toMB(MAX_ZIP_TOTAL_SIZE)}MB`
+    });
+    if (limit <= 0) {
+      skipTooLarge();
+      continue;
+    }
+    let data: Uint8Array;
+    try {
+      data = await entry.async('uint8array');
+    } catch {
+      out.skipped.push({ path, reason: 'Could not read archive entry' });
+      continue;
+    }
+    if (data.length > limit) {
+      skipTooLarge();
+      // The allowance is spent, so the entries that follow are refused without being unpacked
+      if (!fileLimitApplies) budget.bytes = 0;
+      continue;
+    }
+    const name = path.split('/').pop() || path;
+    const file = new File([data], name, { lastModified: entry.date?.getTime() });
+    budget.bytes -= file.size;
+    if (isZip(path)) await expandZip({ file, path }, depth + 1, budget, out, toCheck);
+    else toCheck.push({ file, path });
+  }
+}
+
+/** Office and e-book files are replaced by their markdown; other files pass through unchanged. */
+async function toUploadable(file: File, path: string, ext: string, skipped: SkippedEntry[]): Promise<File | null> {
+  if (!CONVERTED_EXTENSIONS.includes(ext)) return file;
+  try {
+    const markdown = await convertToMarkdown(file, ext);
+    if (!markdown.trim()) {
+      skipped.push({ path, reason: 'No text found' });
+      return null;
+    }
+    return new File([markdown], file.name, { type: 'text/markdown', lastModified: file.lastModified });
+  } catch (error) {
+    console.error(`Failed to convert ${path}`, error);
+    skipped.push({ path, reason: 'Could not extract text' });
+    return null;
+  }
+}
+
+/** Filter, unpack, convert and hash candidates into pending documents. */
+export async function prepareUploads(candidates: IntakeCandidate[]): Promise<IntakeResult> {
+  const result: IntakeResult = { accepted: [], skipped: [] };
+  const toCheck: IntakeCandidate[] = [];
+
+  for (const candidate of candidates) {
+    if (IGNORED_NAMES.test(candidate.path)) continue;
+    if (isZip(candidate.path)) {
+      await expandZip(candidate, 0, { entries: MAX_ZIP_ENTRIES, bytes: MAX_ZIP_TOTAL_SIZE }, result, toCheck);
+    } else {
+      toCheck.push(candidate);
+    }
+  }
+
+  for (const { file, path } of toCheck) {
+    const ext = extensionOf(path);
+    if (!SUPPORTED_EXTENSIONS.includes(ext)) {
+      result.skipped.push({ path, reason: `Unsupported type ${ext || '(none)'}` });
+      continue;
+    }
+    if (file.size > MAX_FILE_SIZE) {
+      result.skipped.push({ path, reason: `Larger than ${Math.round(MAX_FILE_SIZE / (1024 * 1024))}MB` });
+      continue;
+    }
+
+    const uploadable = await toUploadable(file, path, ext, result.skipped);
+    if (!uploadable) continue;
+
+    result.accepted.push({
+      id: crypto.randomUUID(),
+      name: path,
+      fileHandle: uploadable,
+      mimeType: MIME_TYPE_MAP[ext.slice(1)] || 'text/plain',
+      type: ext,
+      size: uploadable.size,
+      uploadDate: Date.now(),
+      // Hash the original bytes so re-uploading the same source file is recognized
+      contentHash: await hashFile(file),
+      status: 'pending'
+    });
+  }
+  return result;
+}
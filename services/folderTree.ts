@@ -0,0 +1,42 @@
+/**
+ * Files uploaded from folders or archives keep their relative path in their name
+ * (`reports/2024/q1.pdf`); the sidebar shows them as a tree built from those paths.
+ */
+
+export interface FolderNode<T> {
+  name: string;
+  path: string; // Full folder path, '' for the root
+  folders: FolderNode<T>[];
+  items: T[];
+  count: number; // Items in this folder and everything below it
+}
+
+export const baseName = (path: string) => path.split('/').pop() || path;
+
+/** Arrange items by the folders in their path; folders sort by name, items keep their order. */
+export function buildFolderTree<T>(items: T[], pathOf: (item: T) => string): FolderNode<T> {
+  const root: FolderNode<T> = { name: '', path: '', folders: [], items: [], count: 0 };
+
+  for (const item of items) {
+    const segments = pathOf(item).split('/').filter(Boolean);
+    let node = root;
+    node.count++;
+    for (const segment of segments.slice(0, -1)) {
+      let child = node.folders.find(f => f.name === segment);
+      if (!child) {
+        child = { name: segment, path: node.path ? `${node.path}/${segment}` : segment, folders: [], items: [], count: 0 };
+        node.folders.push(child);
+      }
+      child.count++;
+      node = child;
+    }
+    node.items.push(item);
+  }
+
+  const sortFolders = (node: FolderNode<T>) => {
+    node.folders.sort((a, b) => a.name.localeCompare(b.name));
+    node.folders.forEach(sortFolders);
+  };
+  sortFolders(root);
+  return root;
+}
@@ -1,12 +1,15 @@
-import { GoogleGenAI, Chat, GenerateContentResponse } from "@google/genai";
-import { FileDocument, GroundingMetadata } from '../types';
-import { SYSTEM_PROMPT_TEMPLATE } from '../constants';
+import { GoogleGenAI, Chat, Content, DocumentState, GenerateContentConfig, GenerateContentResponse, ImportFileOperation, Part, Schema, Tool } from "@google/genai";
+import { ChatMessage, FileDocument, GenerationSettings, GroundingMetadata, MessageRole, UploadPhase, Workspace } from '../types';
+import { SYSTEM_PROMPT_TEMPLATE, THREAD_TITLE_PROMPT, DEFAULT_GENERATION_SETTINGS } from '../constants';
+import { isTextMimeType, readFileBase64, readFileText } from './fileContentService';
+import { FILE_ID_KEY, toCustomMetadata } from './metadataService';
 
 const MAX_RETRIES = 3;
 const RETRY_DELAY_BASE = 1000;
-
-// Track the active store internally
-let activeStoreName: string | null = null;
+const TITLE_MODEL_ID = "gemini-2.5-flash";
+const IMPORT_POLL_INTERVAL = 2000;
+const IMPORT_MAX_POLLS = 150; // 5 minutes approx
+const INLINE_FILE_LIMIT = 18 * 1024 * 1024; // Keeps the whole request under the 20MB inline limit
 
 /** Throw if API key missing. */
 const getApiKey = (): string => {
@@ -28,46 +31,66 @@ const getErrorStatus = (err: any): number => {
   return 0;
 };
 
-/** Retry helper for transient errors. */
-async function withRetry<T>(fn: () => Promise<T>, retries = MAX_RETRIES): Promise<T> {
+/** Resolve whether a resource exists, treating the given statuses as "gone". */
+async function resourceExists(check: () => Promise<unknown>, missingStatuses: number[]): Promise<boolean> {
+  try {
+    await check();
+    return true;
+  } catch (e) {
+    if (missingStatuses.includes(getErrorStatus(e))) return false;
+    throw e;
+  }
+}
+
+/** Error thrown when a caller cancels an in-flight request. */
+const createAbortError = () => new DOMException("Request cancelled.", "AbortError");
+
+/** True if the error comes from an aborted request. */
+export const isAbortError = (err: any): boolean => err?.name === "AbortError";
+
+/** Sleep that ends early (rejecting) as soon as the signal aborts. */
+const abortableDelay = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) return reject(createAbortError());
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(createAbortError());
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener("abort", onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener("abort", onAbort, { once: true });
+});
+
+/** Retry helper for transient errors. Never retries once the signal has aborted. */
+export async function withRetry<T>(fn: () => Promise<T>, retries = MAX_RETRIES, signal?: AbortSignal): Promise<T> {
+  if (signal?.aborted) throw createAbortError();
   try {
     return await fn();
   } catch (error: any) {
+    if (signal?.aborted) throw createAbortError();
     const status = getErrorStatus(error);
     const isTransient = status === 429 || status >= 500;
     if (retries > 0 && isTransient) {
       const delay = RETRY_DELAY_BASE * Math.pow(2, MAX_RETRIES - retries);
-      await new Promise(res => setTimeout(res, delay));
-      return withRetry(fn, retries - 1);
+      await abortableDelay(delay, signal);
+      return withRetry(fn, retries - 1, signal);
     }
     throw error;
   }
 }
 
 /**
- * Ensures a valid FileSearchStore exists.
- * Verifies existence if we have a cached name, creates new if missing/invalid.
+ * Create a new FileSearchStore for a workspace and return its resource name.
  */
-async function getOrCreateStore(): Promise<string> {
+export async function createFileSearchStore(displayName: string): Promise<string> {
   const ai = getAiClient();
-  
-  if (activeStoreName) {
-    try {
-      // Verify it still exists
-      await ai.fileSearchStores.get({ name: activeStoreName });
-      return activeStoreName;
-    } catch (e) {
-      console.warn("Cached store not found, creating new one.", e);
-      activeStoreName = null;
-    }
-  }
-
   try {
     const store = await withRetry(() => ai.fileSearchStores.create({
-      config: { displayName: `InsightStore_${Date.now()}` }
+      config: { displayName: `InsightStore_${displayName}_${Date.now()}` }
     }));
-    activeStoreName = store.name || "";
-    return activeStoreName;
+    if (!store.name) throw new Error("Store creation failed: No name returned.");
+    return store.name;
   } catch (e) {
     console.error("Failed to create store", e);
     throw e;
@@ -77,186 +100,537 @@ async function getOrCreateStore(): Promise<string> {
 /**
  * Waits for a file to reach 'ACTIVE' state.
  */
-async function waitForFileActive(fileUri: string) {
+async function waitForFileActive(fileUri: string, signal?: AbortSignal) {
   const ai = getAiClient();
   let retries = 0;
   const maxRetries = 60; // 2 minutes approx
 
   while (retries < maxRetries) {
     try {
-      const file = await ai.files.get({ name: fileUri });
+      const file = await ai.files.get({ name: fileUri, config: { abortSignal: signal } });
       if (file.state === 'ACTIVE') return file;
       if (file.state === 'FAILED') throw new Error("File processing failed on server.");
     } catch (e: any) {
+      if (signal?.aborted) throw createAbortError();
       if (getErrorStatus(e) !== 404) throw e;
       // If 404, file might not be visible yet, continue waiting
     }
     
-    await new Promise(res => setTimeout(res, 2000));
+    await abortableDelay(2000, signal);
     retries++;
   }
   throw new Error("File processing timed out.");
 }
 
 /**
- * Upload file to Gemini Files API, then import into the active FileSearchStore.
+ * Wait for a store import operation to finish and return the name of the document it created.
+ */
+async function waitForImport(operation: ImportFileOperation, signal?: AbortSignal): Promise<string | undefined> {
+  const ai = getAiClient();
+  let current: { done?: boolean; error?: Record<string, unknown>; response?: { documentName?: string } } = operation;
+  for (let polls = 0; !current.done; polls++) {
+    if (polls >= IMPORT_MAX_POLLS) throw new Error("Import into the search store timed out.");
+    await abortableDelay(IMPORT_POLL_INTERVAL, signal);
+    current = await withRetry(() => ai.operations.get({ operation, config: { abortSignal: signal } }), MAX_RETRIES, signal);
+  }
+  if (current.error) {
+    throw new Error(`Import into the search store failed: ${current.error.message || 'unknown error'}`);
+  }
+  return current.response?.documentName;
+}
+
+/**
+ * Poll a store document until its chunks are embedded and searchable.
+ */
+export async function waitForDocumentIndexed(documentName: string, signal?: AbortSignal): Promise<void> {
+  const ai = getAiClient();
+  for (let polls = 0; polls < IMPORT_MAX_POLLS; polls++) {
+    const doc = await withRetry(
+      () => ai.fileSearchStores.documents.get({ name: documentName, config: { abortSignal: signal } }),
+      MAX_RETRIES,
+      signal
+    );
+    if (doc.state === DocumentState.STATE_FAILED) throw new Error("The search store failed to index this document.");
+    if (doc.state !== DocumentState.STATE_PENDING) return;
+    await abortableDelay(IMPORT_POLL_INTERVAL, signal);
+  }
+  throw new Error("Indexing in the search store timed out.");
+}
+
+/** Delete a store document and its chunks. A document that is already gone counts as deleted. */
+async function deleteStoreDocument(documentName: string) {
+  const ai = getAiClient();
+  try {
+    await withRetry(() => ai.fileSearchStores.documents.delete({ name: documentName, config: { force: true } }));
+  } catch (e) {
+    if (getErrorStatus(e) !== 404) throw e;
+  }
+}
+
+/**
+ * Look up the store document of a file imported before document names were recorded.
+ * Matched on the file id tagged at import: display names repeat across versions and kept duplicates.
+ */
+async function findStoreDocumentName(storeName: string, fileId: string): Promise<string | undefined> {
+  const ai = getAiClient();
+  const pager = await withRetry(() => ai.fileSearchStores.documents.list({ parent: storeName }));
+  for await (const doc of pager) {
+    if (doc.customMetadata?.some(m => m.key === FILE_ID_KEY && m.stringValue === fileId)) return doc.name;
+  }
+  return undefined;
+}
+
+export interface UploadOptions {
+  signal?: AbortSignal;
+  onPhase?: (phase: UploadPhase) => void;
+  /** Called once the store has created a document, before it is searchable. */
+  onStoreDocument?: (documentName: string) => void;
+}
+
+/**
+ * Upload file to Gemini Files API, import it into the given FileSearchStore and wait until
+ * the store reports it indexed; only then is the file `active`.
+ * Failures come back as an `error` document; cancelling rejects with an AbortError
+ * after removing whatever had already been uploaded.
  */
 export async function uploadFileToGemini(
-  fileDoc: FileDocument
+  fileDoc: FileDocument,
+  storeName: string,
+  { signal, onPhase, onStoreDocument }: UploadOptions = {}
 ): Promise<FileDocument> {
   if (!fileDoc.fileHandle) throw new Error("File content missing.");
 
   const ai = getAiClient();
+  let fileUri: string | undefined;
+  let documentName: string | undefined;
 
   try {
     // 1. Upload to Files API
+    onPhase?.('uploading');
     const uploadResponse = await withRetry(() => ai.files.upload({
       file: fileDoc.fileHandle!,
       config: { 
         displayName: fileDoc.name,
-        mimeType: fileDoc.mimeType 
+        mimeType: fileDoc.mimeType,
+        abortSignal: signal
       }
-    }));
+    }), MAX_RETRIES, signal);
     
     // uploadResponse is the File object itself in the new SDK
-    const fileUri = uploadResponse.name;
+    fileUri = uploadResponse.name;
     if (!fileUri) throw new Error("Upload failed: No URI returned.");
+    const uploadedUri = fileUri;
 
     // 2. Wait for ACTIVE state
-    await waitForFileActive(fileUri);
+    onPhase?.('processing');
+    await waitForFileActive(uploadedUri, signal);
 
-    // 3. Ensure Store Exists
-    const storeName = await getOrCreateStore();
-
-    // 4. Add to Store
-    // Use createFile to add a single file to the store (importFiles is not available or correct here)
-    await withRetry(() => ai.fileSearchStores.createFile({
-      parent: storeName,
-      file: { name: fileUri }
-    }));
+    // 3. Import into the store and wait for the long-running operation
+    onPhase?.('importing');
+    const operation = await withRetry(() => ai.fileSearchStores.importFile({
+      fileSearchStoreName: storeName,
+      fileName: uploadedUri,
+      config: {
+        abortSignal: signal,
+        customMetadata: [{ key: FILE_ID_KEY, stringValue: fileDoc.id }, ...toCustomMetadata(fileDoc.metadata)]
+      }
+    }), MAX_RETRIES, signal);
+    documentName = await waitForImport(operation, signal);
 
-    // Note: importFiles starts an operation, but for single files it's often quick.
-    // However, strictly we should monitor the store/file status.
-    // But since the file is ACTIVE, it's usually ready for search shortly.
+    // 4. The operation can finish before every chunk is embedded
+    if (documentName) {
+      onStoreDocument?.(documentName);
+      await waitForDocumentIndexed(documentName, signal);
+    }
     
     return { 
       ...fileDoc, 
       status: "active", 
       uploadUri: fileUri,
+      storeDocumentName: documentName,
+      scopable: true,
       error: undefined 
     };
 
   } catch (e: any) {
+    if (signal?.aborted || isAbortError(e)) {
+      const cleanup = [documentName && deleteStoreDocument(documentName), fileUri && deleteFileFromGemini(fileUri)];
+      const results = await Promise.allSettled(cleanup);
+      results.forEach(r => r.status === 'rejected' && console.warn("Failed to clean up a cancelled upload:", r.reason));
+      throw createAbortError();
+    }
     const status = getErrorStatus(e);
     let msg = e.message;
     if (status === 403) msg = "Permission denied. Check API key.";
-    return { ...fileDoc, status: "error", error: msg };
+    // Keep the remote names so the leftovers can still be cleaned up
+    return { ...fileDoc, status: "error", error: msg, uploadUri: fileUri, storeDocumentName: documentName };
   }
 }
 
 /**
- * Delete a file from Gemini.
+ * Delete a file from Gemini. Uploads that have already expired count as deleted.
  */
 export async function deleteFileFromGemini(uri: string) {
   const ai = getAiClient();
   try {
     await withRetry(() => ai.files.delete({ name: uri }));
   } catch (e) {
-    console.warn("Failed to delete file from Gemini:", e);
+    // The Files API answers 403 for names it no longer knows about
+    if (![403, 404].includes(getErrorStatus(e))) throw e;
   }
 }
 
+/** What could not be cleaned up when removing a file. */
+export interface RemoteDeleteResult {
+  indexError?: string; // The document is still searchable
+  uploadError?: string; // Only the raw upload is left; it expires on its own
+}
+
+/**
+ * Remove what a file left behind remotely: its store document, so answers stop citing it,
+ * and its raw upload.
+ */
+export async function deleteRemoteFile(file: FileDocument, storeName: string | null): Promise<RemoteDeleteResult> {
+  const result: RemoteDeleteResult = {};
+  const reason = (e: any) => e?.message || 'unknown error';
+
+  // Nothing reached the store if nothing was uploaded
+  if (storeName && (file.storeDocumentName || file.uploadUri)) {
+    try {
+      const documentName = file.storeDocumentName || await findStoreDocumentName(storeName, file.id);
+      if (documentName) await deleteStoreDocument(documentName);
+    } catch (e) {
+      result.indexError = reason(e);
+    }
+  }
+  if (file.uploadUri) {
+    try {
+      await deleteFileFromGemini(file.uploadUri);
+    } catch (e) {
+      result.uploadError = reason(e);
+    }
+  }
+  return result;
+}
+
+/**
+ * Check a restored workspace against the API.
+ * Files whose store has disappeared (or whose raw upload expired) are flagged as stale
+ * rather than silently re-pointed at a brand new store.
+ */
+export async function reconcileWorkspace(ws: Workspace): Promise<Workspace> {
+  const ai = getAiClient();
+  const storeName = ws.storeName;
+  const storeAlive = storeName
+    ? await resourceExists(() => ai.fileSearchStores.get({ name: storeName }), [404])
+    : false;
+
+  const files = await Promise.all(ws.files.map(async (file): Promise<FileDocument> => {
+    // An import the store had already accepted keeps going server-side; the caller resumes tracking it
+    const resumableImport = file.status === 'importing' && !!file.storeDocumentName && storeAlive;
+    if (!resumableImport && (file.status === 'pending' || file.status === 'uploading' || file.status === 'processing' || file.status === 'importing')) {
+      return { ...file, status: 'error', error: 'Upload was interrupted by a page reload.' };
+    }
+    if (file.status !== 'active' && !resumableImport) return file;
+
+    if (!storeAlive) {
+      return {
+        ...file,
+        status: 'error',
+        stale: true,
+        error: 'The search store holding this file no longer exists. Re-upload to index it again.'
+      };
+    }
+
+    const documentName = file.storeDocumentName;
+    if (documentName) {
+      const doc = await ai.fileSearchStores.documents.get({ name: documentName }).catch(e => {
+        if (getErrorStatus(e) === 404) return null;
+        throw e;
+      });
+      if (!doc) {
+        return { ...file, status: 'error', error: 'This document is no longer in the search store. Retry to index it again.' };
+      }
+      if (doc.state === DocumentState.STATE_FAILED) {
+        return { ...file, status: 'error', error: 'The search store failed to index this document.' };
+      }
+      if (doc.state === DocumentState.STATE_PENDING) return { ...file, status: 'importing' };
+    }
+
+    // The Files API answers 403 for names it no longer knows about
+    const uri = file.uploadUri;
+    const uploadAlive = uri
+      ? await resourceExists(() => ai.files.get({ name: uri }), [403, 404])
+      : false;
+    return { ...file, status: 'active', stale: !uploadAlive };
+  }));
+
+  return { ...ws, storeName: storeAlive ? storeName : null, files };
+}
+
+/**
+ * Convert persisted messages into model-side chat history.
+ * Only complete user/model exchanges are kept so roles keep alternating.
+ */
+export function buildChatHistory(messages: ChatMessage[]): Content[] {
+  const history: Content[] = [];
+  for (let i = 0; i < messages.length - 1; i++) {
+    const question = messages[i];
+    const answer = messages[i + 1];
+    if (question.role !== MessageRole.USER || answer.role !== MessageRole.MODEL) continue;
+    if (answer.isError || !answer.text) continue;
+    history.push({ role: 'user', parts: [{ text: question.text }] });
+    history.push({ role: 'model', parts: [{ text: answer.text }] });
+    i++;
+  }
+  return history;
+}
+
 let currentChat: Chat | null = null;
+// Kept so a session can be rebuilt and per-request configs can repeat the chat config
+let currentChatParams: { model: string; config: GenerateContentConfig } | null = null;
+
+/** Map generation settings onto the SDK config, leaving unset values to the model defaults. */
+const toGenerationConfig = (settings: GenerationSettings): GenerateContentConfig => ({
+  ...(settings.temperature !== undefined && { temperature: settings.temperature }),
+  ...(settings.maxOutputTokens !== undefined && { maxOutputTokens: settings.maxOutputTokens }),
+  ...(settings.thinkingBudget !== undefined && { thinkingConfig: { thinkingBudget: settings.thinkingBudget } })
+});
 
 /**
  * Initialize chat with File Search tool bound to a given store.
- * If no storeName is provided, uses the active store.
+ * `systemInstruction` is the rendered persona prompt; it defaults to the built-in analyst.
+ * `metadataFilter` limits retrieval to documents whose custom metadata matches it.
  */
 export async function initializeChatSession(
-  storeName?: string,
-  modelId = "gemini-3-pro-preview"
+  storeName: string,
+  settings: GenerationSettings = DEFAULT_GENERATION_SETTINGS,
+  history: Content[] = [],
+  systemInstruction: string = SYSTEM_PROMPT_TEMPLATE,
+  metadataFilter?: string
 ) {
   const ai = getAiClient();
-  
-  // Resolve the store name
-  let targetStore = storeName;
-  if (!targetStore) {
-    targetStore = await getOrCreateStore();
-  }
-
-  // Create chat session
-  // We wrap this in a try/catch to handle 404s specifically by resetting the store
-  try {
-    currentChat = ai.chats.create({
-      model: modelId,
-      config: {
-        systemInstruction: SYSTEM_PROMPT_TEMPLATE,
-        tools: [
-          {
-            fileSearch: { fileSearchStoreNames: [targetStore] }
-          }
-        ]
-      }
-    });
-    return currentChat;
-  } catch (e: any) {
-    const status = getErrorStatus(e);
-    if (status === 404 && !storeName) {
-      // If we used the cached activeStoreName and it failed, reset and try once more
-      console.warn("Chat init failed with 404, resetting store and retrying.");
-      activeStoreName = null;
-      targetStore = await getOrCreateStore();
-      currentChat = ai.chats.create({
-        model: modelId,
-        config: {
-          systemInstruction: SYSTEM_PROMPT_TEMPLATE,
-          tools: [{ fileSearch: { fileSearchStoreNames: [targetStore] } }]
+  currentChatParams = {
+    model: settings.modelId,
+    config: {
+      ...toGenerationConfig(settings),
+      systemInstruction,
+      tools: [
+        {
+          fileSearch: { fileSearchStoreNames: [storeName], ...(metadataFilter && { metadataFilter }) }
         }
-      });
-      return currentChat;
+      ]
     }
-    throw e;
-  }
+  };
+  currentChat = ai.chats.create({ ...currentChatParams, history });
+  return currentChat;
+}
+
+/** Drop the current chat, e.g. when switching to a workspace without a store. */
+export function resetChatSession() {
+  currentChat = null;
+  currentChatParams = null;
 }
 
 /**
  * Send message stream with optional grounding metadata.
+ * Aborting the signal stops the stream and rejects with an AbortError; the session history
+ * is rebuilt to end with whatever partial answer was received.
  */
 export async function sendMessageStream(
   message: string,
-  onChunk: (text: string, metadata?: GroundingMetadata) => void
+  onChunk: (text: string, metadata?: GroundingMetadata) => void,
+  signal?: AbortSignal
 ): Promise<string> {
-  if (!currentChat) {
-    await initializeChatSession();
+  if (!currentChat || !currentChatParams) {
+    throw new Error("No active session. Upload documents to this workspace first.");
   }
 
+  const chat = currentChat;
+  const params = currentChatParams;
+  const historyBefore = chat.getHistory(true);
+  let fullText = "";
+
   try {
-    const result = await withRetry(() => currentChat!.sendMessageStream({ message }));
-    let fullText = "";
+    const result = await withRetry(
+      () => chat.sendMessageStream({ message, config: { ...params.config, abortSignal: signal } }),
+      MAX_RETRIES,
+      signal
+    );
 
     for await (const chunk of result) {
+      if (signal?.aborted) break;
       const c = chunk as GenerateContentResponse;
       const text = c.text || "";
       const meta = c.candidates?.[0]?.groundingMetadata as GroundingMetadata | undefined;
       fullText += text;
       onChunk(text, meta);
     }
+    if (signal?.aborted) throw createAbortError();
     return fullText;
   } catch (err: any) {
+    if (signal?.aborted || isAbortError(err)) {
+      // The SDK may or may not have recorded the interrupted turn; rebuild it deterministically
+      const history: Content[] = fullText
+        ? [...historyBefore, { role: 'user', parts: [{ text: message }] }, { role: 'model', parts: [{ text: fullText }] }]
+        : historyBefore;
+      if (currentChat === chat) {
+        currentChat = getAiClient().chats.create({ ...params, history });
+      }
+      throw createAbortError();
+    }
     const status = getErrorStatus(err);
+    const metadataFilter = params.config.tools?.find((t): t is Tool => 'fileSearch' in t)?.fileSearch?.metadataFilter;
+    if (status === 400 && metadataFilter) {
+      throw new Error(`The metadata filter "${metadataFilter}" was rejected: ${err.message || 'invalid expression'}`);
+    }
     if (status === 404) {
-      // If session not found or store not found during message
-      currentChat = null;
-      // Force store check on next init
-      activeStoreName = null; 
-      throw new Error("Session context expired. Please try sending your message again.");
+      // The workspace's store is gone; don't silently bind to a different one
+      throw new Error("This workspace's search store could not be found. Re-upload its documents to rebuild the index.");
+    }
+    throw err;
+  }
+}
+
+/**
+ * One file's content as request parts, headed by its name so several files can share a request:
+ * text formats as text, everything else as inline bytes.
+ */
+async function toFileParts(file: FileDocument): Promise<Part[]> {
+  if (!file.fileHandle) throw new Error(`The content of "${file.name}" is no longer stored locally.`);
+  if (file.size > INLINE_FILE_LIMIT) throw new Error(`"${file.name}" is too large to be read directly.`);
+  const header = `--- ${file.name} (version ${file.version ?? 1}) ---`;
+  return isTextMimeType(file.mimeType)
+    ? [{ text: `${header}\n${await readFileText(file)}` }]
+    : [{ text: header }, { inlineData: { mimeType: file.mimeType, data: await readFileBase64(file.fileHandle) } }];
+}
+
+/**
+ * Answer one question from the store in a single request, outside any chat session.
+ * Not retried here: batch callers wrap it in `withRetry` together with their own bookkeeping.
+ * `metadataFilter` limits retrieval as it does for chat questions.
+ */
+export async function answerFromStore(
+  storeName: string,
+  question: string,
+  settings: GenerationSettings,
+  systemInstruction: string,
+  metadataFilter?: string,
+  signal?: AbortSignal
+): Promise<{ text: string; groundingMetadata?: GroundingMetadata }> {
+  const ai = getAiClient();
+  try {
+    const response = await ai.models.generateContent({
+      model: settings.modelId,
+      contents: question,
+      config: {
+        ...toGenerationConfig(settings),
+        systemInstruction,
+        tools: [{ fileSearch: { fileSearchStoreNames: [storeName], ...(metadataFilter && { metadataFilter }) } }],
+        abortSignal: signal
+      }
+    });
+    return {
+      text: response.text || "",
+      groundingMetadata: response.candidates?.[0]?.groundingMetadata as GroundingMetadata | undefined
+    };
+  } catch (err: any) {
+    if (signal?.aborted || isAbortError(err)) throw createAbortError();
+    if (getErrorStatus(err) === 404) {
+      throw new Error("This workspace's search store could not be found. Re-upload its documents to rebuild the index.");
     }
     throw err;
   }
 }
 
 /**
- * Optional: Delete an existing File Search store permanently.
+ * Answer a question from one file's own content, without the search store.
+ * Used for document versions that are no longer indexed. `history` is the conversation so far.
+ */
+export async function askAboutFile(
+  file: FileDocument,
+  question: string,
+  history: Content[],
+  settings: GenerationSettings,
+  systemInstruction: string,
+  onChunk: (text: string) => void,
+  signal?: AbortSignal
+): Promise<string> {
+  const fileParts = await toFileParts(file);
+  const ai = getAiClient();
+  let fullText = "";
+  const stream = await withRetry(() => ai.models.generateContentStream({
+    model: settings.modelId,
+    contents: [...history, { role: 'user', parts: [...fileParts, { text: question }] }],
+    config: { ...toGenerationConfig(settings), systemInstruction, abortSignal: signal }
+  }), MAX_RETRIES, signal);
+
+  try {
+    for await (const chunk of stream) {
+      if (signal?.aborted) break;
+      const text = chunk.text || "";
+      fullText += text;
+      onChunk(text);
+    }
+  } catch (err) {
+    if (!signal?.aborted && !isAbortError(err)) throw err;
+  }
+  if (signal?.aborted) throw createAbortError();
+  return fullText;
+}
+
+/**
+ * Read files against a JSON response schema and return the parsed object.
+ * Files are sent whole and in order, so the prompt can refer to them by name or position.
+ */
+export async function generateFromFiles(
+  files: FileDocument[],
+  prompt: string,
+  responseSchema: Schema,
+  settings: GenerationSettings,
+  signal?: AbortSignal
+): Promise<unknown> {
+  if (files.reduce((sum, f) => sum + f.size, 0) > INLINE_FILE_LIMIT) {
+    throw new Error("These files are too large to be read together.");
+  }
+  const fileParts = (await Promise.all(files.map(toFileParts))).flat();
+  const ai = getAiClient();
+  const response = await withRetry(() => ai.models.generateContent({
+    model: settings.modelId,
+    contents: [{ role: 'user', parts: [...fileParts, { text: prompt }] }],
+    config: {
+      ...toGenerationConfig(settings),
+      responseMimeType: 'application/json',
+      responseSchema,
+      abortSignal: signal
+    }
+  }), MAX_RETRIES, signal);
+  if (signal?.aborted) throw createAbortError();
+
+  try {
+    return JSON.parse(response.text || '');
+  } catch {
+    const truncated = response.candidates?.[0]?.finishReason === 'MAX_TOKENS';
+    throw new Error(truncated
+      ? 'The answer was cut off by the output token limit. Raise it in the model settings.'
+      : 'The model did not return valid JSON.');
+  }
+}
+
+/**
+ * Ask a fast model for a short title summarizing a conversation's opening exchange.
+ */
+export async function generateThreadTitle(question: string, answer: string): Promise<string> {
+  const ai = getAiClient();
+  const response = await withRetry(() => ai.models.generateContent({
+    model: TITLE_MODEL_ID,
+    contents: `${THREAD_TITLE_PROMPT}\nQuestion: ${question}\n\nAnswer: ${answer.slice(0, 2000)}`
+  }));
+  return (response.text || "").replace(/[\r\n]+/g, " ").replace(/^["'*#\s]+|["'*.\s]+$/g, "").slice(0, 80);
+}
+
+/**
+ * Delete an existing File Search store permanently, including its documents.
  */
 export async function deleteFileSearchStore(storeName: string) {
   const ai = getAiClient();
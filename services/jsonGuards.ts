@@ -0,0 +1,3 @@
+/** Narrow a value parsed from JSON to an object with named properties. */
+export const isJsonObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
@@ -0,0 +1,40 @@
+import { FileDocument } from '../types';
+import { baseName } from './folderTree';
+
+/**
+ * `@name` mentions in the composer. Typing `@` followed by part of a file name offers matching
+ * indexed files; picking one removes the mention text and adds the file to the question's scope.
+ */
+
+export interface Mention {
+  start: number; // Offset of the `@`
+  query: string; // Text typed after it
+}
+
+const MAX_SUGGESTIONS = 8;
+
+/** The mention being typed just before the caret, if any. */
+export function activeMention(text: string, caret: number): Mention | null {
+  const match = /(^|\s)@([^\s@]*)$/.exec(text.slice(0, caret));
+  if (!match) return null;
+  return { start: caret - match[2].length - 1, query: match[2] };
+}
+
+/** Indexed files whose name contains the query, names starting with it first. */
+export function matchMentionFiles(files: FileDocument[], query: string, excludeIds: string[] = []): FileDocument[] {
+  const needle = query.toLowerCase();
+  return files
+    .filter(f => f.status === 'active' && !excludeIds.includes(f.id) && f.name.toLowerCase().includes(needle))
+    .map(f => ({ file: f, rank: baseName(f.name).toLowerCase().startsWith(needle) ? 0 : 1 }))
+    .sort((a, b) => a.rank - b.rank || a.file.name.localeCompare(b.file.name))
+    .slice(0, MAX_SUGGESTIONS)
+    .map(({ file }) => file);
+}
+
+/** Text with the mention cut out, and where the caret goes. */
+export function removeMention(text: string, mention: Mention, caret: number): { text: string; caret: number } {
+  const before = text.slice(0, mention.start);
+  // Avoid leaving a double space where the mention was
+  const after = text.slice(caret).replace(before.endsWith(' ') || !before ? /^ +/ : /^$/, '');
+  return { text: before + after, caret: before.length };
+}
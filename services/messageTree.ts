@@ -0,0 +1,80 @@
+import { ChatMessage } from '../types';
+
+/**
+ * Conversations are stored as a flat list of messages linked by `parentId`.
+ * Editing or regenerating a turn adds a sibling instead of overwriting, and the
+ * visible conversation is the path from the root to the selected leaf.
+ */
+
+export interface BranchInfo {
+  index: number; // 0-based position among siblings
+  count: number;
+  siblingIds: string[];
+}
+
+const byTimestamp = (a: ChatMessage, b: ChatMessage) => a.timestamp - b.timestamp;
+
+/** Group messages by parent id (roots live under the empty-string key). */
+export function buildChildrenIndex(messages: ChatMessage[]): Map<string, ChatMessage[]> {
+  const index = new Map<string, ChatMessage[]>();
+  for (const msg of messages) {
+    const key = msg.parentId ?? '';
+    const siblings = index.get(key);
+    if (siblings) siblings.push(msg);
+    else index.set(key, [msg]);
+  }
+  index.forEach(siblings => siblings.sort(byTimestamp));
+  return index;
+}
+
+/** Messages from the root down to (and including) the given message. */
+export function getPathTo(messages: ChatMessage[], messageId: string | null): ChatMessage[] {
+  const byId = new Map(messages.map(m => [m.id, m]));
+  const path: ChatMessage[] = [];
+  let current = messageId ? byId.get(messageId) : undefined;
+  while (current) {
+    path.unshift(current);
+    current = current.parentId ? byId.get(current.parentId) : undefined;
+  }
+  return path;
+}
+
+/** Follow the most recent child from a message until reaching a leaf. */
+export function findLatestLeaf(messages: ChatMessage[], fromId: string): string {
+  const children = buildChildrenIndex(messages);
+  let leafId = fromId;
+  let next = children.get(leafId);
+  while (next && next.length > 0) {
+    leafId = next[next.length - 1].id;
+    next = children.get(leafId);
+  }
+  return leafId;
+}
+
+/** Sibling position of every message on the path that has alternatives. */
+export function getBranchInfo(messages: ChatMessage[], path: ChatMessage[]): Map<string, BranchInfo> {
+  const children = buildChildrenIndex(messages);
+  const info = new Map<string, BranchInfo>();
+  for (const msg of path) {
+    const siblings = children.get(msg.parentId ?? '') || [];
+    if (siblings.length > 1) {
+      info.set(msg.id, {
+        index: siblings.findIndex(s => s.id === msg.id),
+        count: siblings.length,
+        siblingIds: siblings.map(s => s.id)
+      });
+    }
+  }
+  return info;
+}
+
+/**
+ * Link messages saved before branching existed.
+ * Such conversations were strictly linear, so each message's parent is its predecessor.
+ */
+export function linkLegacyMessages(messages: ChatMessage[]): ChatMessage[] {
+  if (messages.every(m => m.parentId !== undefined)) return messages;
+  return messages.map((msg, i) => (
+    msg.parentId !== undefined ? msg : { ...msg, parentId: i > 0 ? messages[i - 1].id : null }
+  ));
+}
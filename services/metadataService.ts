@@ -0,0 +1,103 @@
+import { CustomMetadata } from '@google/genai';
+import { FileDocument, MetadataTag } from '../types';
+
+/**
+ * Custom key/value tags on documents. Tags travel to the search store as `customMetadata`, where
+ * `fileSearch` metadata filters such as `client = "acme" AND year >= 2024` can select on them.
+ */
+
+// Set on every import, so a question can be limited to individual files
+export const FILE_ID_KEY = 'file_id';
+
+// The store keeps at most 20 custom metadata entries per document, one of which is the file id
+export const MAX_TAGS = 19;
+
+// Keys must be usable as identifiers in a filter expression
+const KEY_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+// No leading zeros: codes like 007 or 02139 would lose them as numbers and stop matching as strings
+const NUMBER_PATTERN = /^-?(0|[1-9]\d*)(\.\d+)?$/;
+
+export const formatTag = ({ key, value }: MetadataTag) => `${key}=${value}`;
+
+/** Tags as editable text: `client=acme, year=2025`. */
+export const formatTags = (tags: MetadataTag[] = []) => tags.map(formatTag).join(', ');
+
+/**
+ * Parse `key=value` pairs separated by commas or new lines. A repeated key keeps its last value.
+ * Returns the first problem found instead of guessing what was meant.
+ */
+export function parseTags(text: string): { tags: MetadataTag[]; error?: string } {
+  const byKey = new Map<string, string>();
+  for (const entry of text.split(/[,\n]/).map(s => s.trim()).filter(Boolean)) {
+    const separator = entry.indexOf('=');
+    if (separator < 0) return { tags: [], error: `"${entry}" is not a key=value pair.` };
+    const key = entry.slice(0, separator).trim();
+    const value = entry.slice(separator + 1).trim();
+    if (!KEY_PATTERN.test(key)) {
+      return { tags: [], error: `"${key}" is not a valid key. Use letters, digits and underscores, starting with a letter.` };
+    }
+    if (key === FILE_ID_KEY) return { tags: [], error: `"${FILE_ID_KEY}" is reserved.` };
+    if (!value) return { tags: [], error: `"${key}" has no value.` };
+    byKey.set(key, value);
+  }
+  if (byKey.size > MAX_TAGS) return { tags: [], error: `A document can have at most ${MAX_TAGS} tags.` };
+  return { tags: Array.from(byKey, ([key, value]) => ({ key, value })) };
+}
+
+/** Numeric-looking values are stored as numbers so filters can compare them (`year >= 2024`). */
+export const toCustomMetadata = (tags: MetadataTag[] = []): CustomMetadata[] =>
+  tags.map(({ key, value }) => NUMBER_PATTERN.test(value)
+    ? { key, numericValue: Number(value) }
+    : { key, stringValue: value });
+
+/** A filter clause matching one tag, quoting string values. */
+export const filterClause = ({ key, value }: MetadataTag) =>
+  `${key} = ${NUMBER_PATTERN.test(value) ? value : `"${value.replace(/"/g, '\\"')}"`}`;
+
+/** Matches the store documents of any of the given files. */
+export const fileScopeFilter = (fileIds: string[]) =>
+  fileIds.map(id => filterClause({ key: FILE_ID_KEY, value: id })).join(' OR ');
+
+/** True when two tag lists hold the same pairs, in any order. */
+export const sameTags = (a: MetadataTag[] = [], b: MetadataTag[] = []) =>
+  a.length === b.length && a.every(tag => b.some(other => other.key === tag.key && other.value === tag.value));
+
+/** Every key used in the given files, with the values seen for it, for filter hints. */
+export function collectTagKeys(files: FileDocument[]): Map<string, string[]> {
+  const keys = new Map<string, Set<string>>();
+  for (const { key, value } of files.flatMap(f => f.metadata ?? [])) {
+    if (!keys.has(key)) keys.set(key, new Set());
+    keys.get(key)!.add(value);
+  }
+  return new Map(Array.from(keys, ([key, values]) => [key, Array.from(values).sort()]));
+}
+
+/**
+ * Catch filter mistakes that would otherwise only surface as an API error mid-conversation.
+ * The service does the real parsing; this only checks quotes and parentheses balance.
+ */
+export function checkMetadataFilter(filter: string): string | undefined {
+  let depth = 0;
+  let quote: string | null = null;
+  for (const ch of filter) {
+    if (quote) {
+      if (ch === quote) quote = null;
+    } else if (ch === '"' || ch === "'") {
+      quote = ch;
+    } else if (ch === '(') {
+      depth++;
+    } else if (ch === ')' && --depth < 0) {
+      return 'A closing parenthesis has no opening one.';
+    }
+  }
+  if (quote) return 'A quoted value is not closed.';
+  if (depth > 0) return 'A parenthesis is not closed.';
+  return undefined;
+}
+
+/** Require every given filter to hold. Empty filters are ignored. */
+export function combineFilters(...filters: (string | undefined)[]): string | undefined {
+  const parts = filters.map(f => f?.trim()).filter((f): f is string => !!f);
+  if (parts.length <= 1) return parts[0];
+  return parts.map(f => `(${f})`).join(' AND ');
+}
@@ -0,0 +1,35 @@
+import { GlobalWorkerOptions, PDFDocumentProxy, getDocument, version as pdfjsVersion } from 'pdfjs-dist';
+
+// The worker is loaded from the same CDN build as the library
+GlobalWorkerOptions.workerSrc = `https://aistudiocdn.com/pdfjs-dist@${pdfjsVersion}/build/pdf.worker.min.mjs`;
+
+export const loadPdf = async (file: Blob): Promise<PDFDocumentProxy> =>
+  getDocument({ data: new Uint8Array(await file.arrayBuffer()) }).promise;
+
+/** Text of every page, split into lines as laid out in the PDF. */
+export async function extractPdfPageLines(file: Blob): Promise<string[][]> {
+  const pdf = await loadPdf(file);
+  try {
+    const pages: string[][] = [];
+    for (let number = 1; number <= pdf.numPages; number++) {
+      const page = await pdf.getPage(number);
+      const { items } = await page.getTextContent();
+      const lines: string[] = [];
+      let line = '';
+      for (const item of items) {
+        if (!('str' in item)) continue;
+        line += item.str;
+        if (item.hasEOL) {
+          lines.push(line);
+          line = '';
+        }
+      }
+      if (line) lines.push(line);
+      pages.push(lines);
+      page.cleanup();
+    }
+    return pages;
+  } finally {
+    pdf.destroy();
+  }
+}
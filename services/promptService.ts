@@ -0,0 +1,50 @@
+import { PromptSelection, PromptTemplate } from '../types';
+import { BUILT_IN_PROMPTS, DEFAULT_PROMPT_ID } from '../constants';
+
+/**
+ * Prompt templates use `{{name}}` placeholders, optionally with a default: `{{language|English}}`.
+ */
+
+export interface PromptVariable {
+  name: string;
+  defaultValue?: string;
+}
+
+const VARIABLE_PATTERN = /\{\{\s*([A-Za-z_][\w-]*)\s*(?:\|([^}]*))?\}\}/g;
+
+/** Distinct variables in a template, in order of first appearance. */
+export function extractVariables(template: string): PromptVariable[] {
+  const seen = new Map<string, PromptVariable>();
+  for (const match of template.matchAll(VARIABLE_PATTERN)) {
+    const [, name, defaultValue] = match;
+    if (!seen.has(name)) seen.set(name, { name, defaultValue: defaultValue?.trim() || undefined });
+  }
+  return Array.from(seen.values());
+}
+
+/** Substitute variables; blank values fall back to the placeholder's default, or nothing. */
+export function renderPrompt(template: string, variables: Record<string, string> = {}): string {
+  return template.replace(VARIABLE_PATTERN, (_, name: string, defaultValue?: string) => {
+    const value = variables[name]?.trim();
+    return value || defaultValue?.trim() || '';
+  }).trim();
+}
+
+/** Built-in personas followed by the user's own templates. */
+export const mergePromptLibrary = (custom: PromptTemplate[]): PromptTemplate[] =>
+  [...BUILT_IN_PROMPTS, ...custom.filter(p => !BUILT_IN_PROMPTS.some(b => b.id === p.id))];
+
+/**
+ * Template and rendered system instruction for a selection.
+ * A selection pointing at a deleted template falls back to the default persona.
+ */
+export function resolvePrompt(
+  library: PromptTemplate[],
+  selection?: PromptSelection
+): { prompt: PromptTemplate; systemInstruction: string } {
+  const prompt = library.find(p => p.id === selection?.promptId)
+    || library.find(p => p.id === DEFAULT_PROMPT_ID)
+    || BUILT_IN_PROMPTS[0];
+  const variables = prompt.id === selection?.promptId ? selection.variables : {};
+  return { prompt, systemInstruction: renderPrompt(prompt.template, variables) };
+}
@@ -0,0 +1,204 @@
+import { FileDocument } from '../types';
+import { isTextMimeType, readFileText } from './fileContentService';
+import { extractPdfPageLines } from './pdfService';
+
+/**
+ * Local full-text search. Each file is split into lines (per page for PDFs) and indexed into
+ * an inverted index of normalized terms; queries are ranked with BM25 at line level, so hits
+ * point at a precise location instead of a whole file.
+ */
+
+export interface IndexedLine {
+  text: string;
+  line: number; // 1-based; within the page for PDFs
+  page?: number;
+}
+
+export interface FileIndex {
+  fileId: string;
+  lines: IndexedLine[];
+  postings: Map<string, Map<number, number>>; // term -> line index -> occurrences
+  terms: string[]; // Sorted, for prefix lookups
+  lengths: number[]; // Terms per line
+  totalLength: number;
+}
+
+export interface SearchHit {
+  fileId: string;
+  line: IndexedLine;
+  score: number;
+  snippet: string;
+  highlights: [number, number][]; // Ranges of the snippet to emphasize
+}
+
+export interface SearchResults {
+  hits: SearchHit[];
+  fileCount: number;
+  truncated: boolean;
+}
+
+const MAX_HITS = 100;
+// Completions of a partially typed last word that are searched for
+const MAX_PREFIX_EXPANSIONS = 30;
+const SNIPPET_LENGTH = 160;
+// BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+const PHRASE_BOOST = 1.5;
+
+const WORD_PATTERN = /[\p{L}\p{N}]+/gu;
+
+/** Lower-case and strip diacritics so "Résumé" matches "resume". */
+const normalize = (word: string) => word.normalize('NFKD').replace(/\p{M}/gu, '').toLowerCase();
+
+interface Token {
+  term: string;
+  start: number;
+  end: number;
+}
+
+const tokenize = (text: string): Token[] =>
+  Array.from(text.matchAll(WORD_PATTERN), m => ({ term: normalize(m[0]), start: m.index, end: m.index + m[0].length }));
+
+/** The lines of a file's text, or nothing for formats that have no local text. */
+async function extractLines(file: FileDocument): Promise<IndexedLine[]> {
+  if (!file.fileHandle) return [];
+  if (file.mimeType === 'application/pdf') {
+    const pages = await extractPdfPageLines(file.fileHandle);
+    return pages.flatMap((lines, p) => lines.map((text, i) => ({ text, line: i + 1, page: p + 1 })));
+  }
+  if (!isTextMimeType(file.mimeType)) return [];
+  return (await readFileText(file)).split(/\r\n?|\n/).map((text, i) => ({ text, line: i + 1 }));
+}
+
+export async function buildFileIndex(file: FileDocument): Promise<FileIndex> {
+  const lines = (await extractLines(file)).filter(line => line.text.trim());
+  const postings = new Map<string, Map<number, number>>();
+  const lengths: number[] = [];
+
+  lines.forEach((line, index) => {
+    const tokens = tokenize(line.text);
+    lengths.push(tokens.length);
+    for (const { term } of tokens) {
+      let byLine = postings.get(term);
+      if (!byLine) postings.set(term, byLine = new Map());
+      byLine.set(index, (byLine.get(index) ?? 0) + 1);
+    }
+  });
+
+  return {
+    fileId: file.id,
+    lines,
+    postings,
+    terms: Array.from(postings.keys()).sort(),
+    lengths,
+    totalLength: lengths.reduce((a, b) => a + b, 0)
+  };
+}
+
+/** Index terms starting with a prefix, via binary search over the sorted term list. */
+const termsWithPrefix = (index: FileIndex, prefix: string): string[] => {
+  let lo = 0;
+  let hi = index.terms.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (index.terms[mid] < prefix) lo = mid + 1;
+    else hi = mid;
+  }
+  const found: string[] = [];
+  for (let i = lo; i < index.terms.length && index.terms[i].startsWith(prefix) && found.length < MAX_PREFIX_EXPANSIONS; i++) {
+    found.push(index.terms[i]);
+  }
+  return found;
+};
+
+/** A window of the line around its first match, with match offsets relative to the window. */
+const makeSnippet = (text: string, ranges: [number, number][]): Pick<SearchHit, 'snippet' | 'highlights'> => {
+  const first = ranges[0]?.[0] ?? 0;
+  const start = text.length <= SNIPPET_LENGTH ? 0 : Math.max(0, Math.min(first - SNIPPET_LENGTH / 4, text.length - SNIPPET_LENGTH));
+  const end = Math.min(text.length, start + SNIPPET_LENGTH);
+  const prefix = start > 0 ? '…' : '';
+  const snippet = prefix + text.slice(start, end).trim() + (end < text.length ? '…' : '');
+  const shift = prefix.length - start - (text.slice(start, end).length - text.slice(start, end).trimStart().length);
+  return {
+    snippet,
+    highlights: ranges
+      .filter(([s, e]) => s >= start && e <= end)
+      .map(([s, e]) => [s + shift, e + shift] as [number, number])
+  };
+};
+
+/**
+ * Ranked line hits for a query. Every word must occur on the line; if no line has them all,
+ * lines with any of them are returned. The last word also matches as a prefix while typing.
+ */
+export function searchIndex(indexes: FileIndex[], query: string): SearchResults {
+  const words = tokenize(query).map(t => t.term);
+  if (words.length === 0) return { hits: [], fileCount: 0, truncated: false };
+  const completesLastWord = !/\s$/.test(query);
+
+  // Collection statistics for BM25
+  const totalLines = indexes.reduce((n, idx) => n + idx.lines.length, 0);
+  const avgLength = indexes.reduce((n, idx) => n + idx.totalLength, 0) / Math.max(totalLines, 1);
+
+  // Terms each query word stands for in each file
+  const expansions = indexes.map(index => words.map((word, i) =>
+    i === words.length - 1 && completesLastWord
+      ? termsWithPrefix(index, word)
+      : index.postings.has(word) ? [word] : []));
+
+  const docFrequency = new Map<string, number>();
+  expansions.forEach((perWord, f) => new Set(perWord.flat()).forEach(term =>
+    docFrequency.set(term, (docFrequency.get(term) ?? 0) + indexes[f].postings.get(term)!.size)));
+  const idf = (term: string) => {
+    const df = docFrequency.get(term) ?? 0;
+    return Math.log(1 + (totalLines - df + 0.5) / (df + 0.5));
+  };
+
+  const phrase = normalize(query.trim());
+  const collect = (requireAll: boolean) => {
+    const hits: SearchHit[] = [];
+    indexes.forEach((index, f) => {
+      const matched = new Set(expansions[f].flat());
+      // Line index -> best score contribution of each query word
+      const scores = new Map<number, number[]>();
+      expansions[f].forEach((terms, w) => {
+        for (const term of terms) {
+          index.postings.get(term)!.forEach((tf, lineIndex) => {
+            const length = index.lengths[lineIndex];
+            const weight = idf(term) * (tf * (K1 + 1)) / (tf + K1 * (1 - B + B * length / avgLength));
+            const perWord = scores.get(lineIndex) ?? new Array(words.length).fill(0);
+            perWord[w] = Math.max(perWord[w], weight);
+            scores.set(lineIndex, perWord);
+          });
+        }
+      });
+
+      scores.forEach((perWord, lineIndex) => {
+        if (requireAll && perWord.some(s => s === 0)) return;
+        const line = index.lines[lineIndex];
+        const ranges = tokenize(line.text)
+          .filter(t => matched.has(t.term))
+          .map(t => [t.start, t.end] as [number, number]);
+        const phraseBoost = words.length > 1 && normalize(line.text).includes(phrase) ? PHRASE_BOOST : 1;
+        hits.push({
+          fileId: index.fileId,
+          line,
+          score: perWord.reduce((a, b) => a + b, 0) * phraseBoost,
+          ...makeSnippet(line.text, ranges)
+        });
+      });
+    });
+    return hits;
+  };
+
+  let hits = collect(true);
+  if (hits.length === 0 && words.length > 1) hits = collect(false);
+  hits.sort((a, b) => b.score - a.score);
+
+  return {
+    hits: hits.slice(0, MAX_HITS),
+    fileCount: new Set(hits.map(h => h.fileId)).size,
+    truncated: hits.length > MAX_HITS
+  };
+}
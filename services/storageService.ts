@@ -0,0 +1,198 @@
+import { ChatMessage, ChatThread, GenerationSettings, MessageRole, PromptTemplate, Workspace } from '../types';
+import { DEFAULT_GENERATION_SETTINGS } from '../constants';
+import { linkLegacyMessages } from './messageTree';
+import { settleInterruptedRows } from './extractionService';
+import { settleInterruptedCells } from './batchService';
+import { settleInterruptedComparison } from './comparisonService';
+
+const DB_NAME = 'fileinsight';
+const DB_VERSION = 3;
+const WORKSPACE_STORE = 'workspaces';
+const META_STORE = 'meta';
+const PROMPT_STORE = 'prompts';
+
+const ACTIVE_WORKSPACE_KEY = 'activeWorkspaceId';
+const GENERATION_SETTINGS_KEY = 'generationSettings';
+const THREAD_TITLE_MAX_LENGTH = 48;
+const DEFAULT_THREAD_TITLE = 'New conversation';
+
+/** Snapshot shape written before conversations were split into threads. */
+type LegacyWorkspace = Workspace & { messages?: ChatMessage[]; activeLeafId?: string | null };
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/** Wrap an IDBRequest in a promise. */
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/** Open the database once, creating object stores on first run. */
+function openDb(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(WORKSPACE_STORE)) {
+        db.createObjectStore(WORKSPACE_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(META_STORE)) {
+        db.createObjectStore(META_STORE);
+      }
+      if (!db.objectStoreNames.contains(PROMPT_STORE)) {
+        db.createObjectStore(PROMPT_STORE, { keyPath: 'id' });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+  return dbPromise;
+}
+
+/** Run a single request against an object store. */
+async function withStore<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  fn: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDb();
+  const tx = db.transaction(storeName, mode);
+  return promisify(fn(tx.objectStore(storeName)));
+}
+
+/** Placeholder title taken from the opening question, used until a better one is generated. */
+export function fallbackThreadTitle(messages: ChatMessage[]): string {
+  const question = messages.find(m => m.role === MessageRole.USER)?.text.replace(/\s+/g, ' ').trim();
+  if (!question) return DEFAULT_THREAD_TITLE;
+  return question.length > THREAD_TITLE_MAX_LENGTH
+    ? `${question.slice(0, THREAD_TITLE_MAX_LENGTH - 1)}…`
+    : question;
+}
+
+/** Create an empty conversation. */
+export function createThread(): ChatThread {
+  const now = Date.now();
+  return {
+    id: crypto.randomUUID(),
+    title: DEFAULT_THREAD_TITLE,
+    messages: [],
+    activeLeafId: null,
+    createdAt: now,
+    updatedAt: now
+  };
+}
+
+/** Fill in fields that snapshots written by older versions may lack. */
+const normalizeWorkspace = (saved: LegacyWorkspace): Workspace => {
+  const { messages: legacyMessages, activeLeafId: legacyLeafId, ...ws } = saved;
+  let threads = ws.threads;
+
+  if (!threads) {
+    // Before threads, each workspace held exactly one (possibly linear) conversation
+    const messages = linkLegacyMessages(legacyMessages || []);
+    const thread: ChatThread = {
+      ...createThread(),
+      title: fallbackThreadTitle(messages),
+      messages,
+      activeLeafId: legacyLeafId !== undefined ? legacyLeafId : (messages[messages.length - 1]?.id ?? null),
+      createdAt: ws.createdAt || ws.updatedAt,
+      updatedAt: ws.updatedAt
+    };
+    threads = [thread];
+  }
+
+  return {
+    ...ws,
+    name: ws.name || 'My Workspace',
+    createdAt: ws.createdAt || ws.updatedAt,
+    threads,
+    activeThreadId: threads.some(t => t.id === ws.activeThreadId) ? ws.activeThreadId : threads[0]?.id ?? null,
+    ...(ws.extraction && { extraction: settleInterruptedRows(ws.extraction) }),
+    ...(ws.batch && { batch: settleInterruptedCells(ws.batch) }),
+    ...(ws.comparison && { comparison: settleInterruptedComparison(ws.comparison) })
+  };
+};
+
+/** Create an empty, unsaved workspace with a single blank conversation. */
+export function createWorkspace(name: string): Workspace {
+  const now = Date.now();
+  const thread = createThread();
+  return {
+    id: crypto.randomUUID(),
+    name,
+    storeName: null,
+    files: [],
+    threads: [thread],
+    activeThreadId: thread.id,
+    createdAt: now,
+    updatedAt: now
+  };
+}
+
+/**
+ * Load every persisted workspace, oldest first.
+ * File blobs come back as native File objects, so uploads and previews keep working.
+ */
+export async function listWorkspaces(): Promise<Workspace[]> {
+  const all = await withStore<LegacyWorkspace[]>(WORKSPACE_STORE, 'readonly', s => s.getAll());
+  return all.map(normalizeWorkspace).sort((a, b) => a.createdAt - b.createdAt);
+}
+
+/** Persist a workspace, replacing any previous snapshot. */
+export async function saveWorkspace(ws: Workspace): Promise<void> {
+  await withStore(WORKSPACE_STORE, 'readwrite', s => s.put({ ...ws, updatedAt: Date.now() }));
+}
+
+/** Remove a workspace snapshot. Remote resources are the caller's responsibility. */
+export async function deleteWorkspace(id: string): Promise<void> {
+  await withStore(WORKSPACE_STORE, 'readwrite', s => s.delete(id));
+}
+
+/** Id of the workspace that was open when the app was last used. */
+export async function loadActiveWorkspaceId(): Promise<string | null> {
+  const id = await withStore<string | undefined>(META_STORE, 'readonly', s => s.get(ACTIVE_WORKSPACE_KEY));
+  return id || null;
+}
+
+export async function saveActiveWorkspaceId(id: string): Promise<void> {
+  await withStore(META_STORE, 'readwrite', s => s.put(id, ACTIVE_WORKSPACE_KEY));
+}
+
+/** Global generation settings, falling back to the built-in defaults. */
+export async function loadGlobalSettings(): Promise<GenerationSettings> {
+  const saved = await withStore<GenerationSettings | undefined>(META_STORE, 'readonly', s => s.get(GENERATION_SETTINGS_KEY));
+  return { ...DEFAULT_GENERATION_SETTINGS, ...saved };
+}
+
+export async function saveGlobalSettings(settings: GenerationSettings): Promise<void> {
+  await withStore(META_STORE, 'readwrite', s => s.put(settings, GENERATION_SETTINGS_KEY));
+}
+
+/** Apply a workspace override on top of the global settings; unset override fields inherit. */
+export function resolveSettings(global: GenerationSettings, override?: Partial<GenerationSettings>): GenerationSettings {
+  const resolved = { ...global };
+  for (const [key, value] of Object.entries(override || {})) {
+    if (value !== undefined) (resolved as Record<string, unknown>)[key] = value;
+  }
+  return resolved;
+}
+
+/** User-authored prompt templates, most recently edited first. Built-ins are not stored. */
+export async function listPrompts(): Promise<PromptTemplate[]> {
+  const all = await withStore<PromptTemplate[]>(PROMPT_STORE, 'readonly', s => s.getAll());
+  return all.sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+export async function savePrompt(prompt: PromptTemplate): Promise<void> {
+  await withStore(PROMPT_STORE, 'readwrite', s => s.put(prompt));
+}
+
+export async function deletePrompt(id: string): Promise<void> {
+  await withStore(PROMPT_STORE, 'readwrite', s => s.delete(id));
+}
@@ -0,0 +1,61 @@
+import { FileDocument, MetadataTag } from '../types';
+
+/**
+ * Re-uploading a file under an existing name adds a version to that document instead of an
+ * unrelated entry. Only one version per document is kept in the search store; the others are
+ * `archived` and can still be previewed, compared and asked about directly.
+ */
+
+export interface VersionGroup {
+  documentId: string;
+  current: FileDocument; // The indexed version, or the newest one if none is indexed
+  versions: FileDocument[]; // Newest first
+}
+
+/** Id shared by every version of a document. Files uploaded before versioning are their own document. */
+export const documentIdOf = (file: FileDocument): string => file.documentId ?? file.id;
+
+export const versionOf = (file: FileDocument): number => file.version ?? 1;
+
+/** Group files into documents, keeping the order in which documents first appeared. */
+export function groupVersions(files: FileDocument[]): VersionGroup[] {
+  const groups = new Map<string, FileDocument[]>();
+  for (const file of files) {
+    const key = documentIdOf(file);
+    const versions = groups.get(key);
+    if (versions) versions.push(file);
+    else groups.set(key, [file]);
+  }
+  return Array.from(groups, ([documentId, versions]) => {
+    const sorted = [...versions].sort((a, b) => versionOf(b) - versionOf(a));
+    return {
+      documentId,
+      current: sorted.find(f => f.status !== 'archived') ?? sorted[0],
+      versions: sorted
+    };
+  });
+}
+
+/**
+ * Link incoming files to existing documents with the same name, numbering their versions.
+ * A new version without tags of its own keeps the tags of the version before it.
+ */
+export function assignVersions(existing: FileDocument[], incoming: FileDocument[]): FileDocument[] {
+  const latestByName = new Map<string, { documentId: string; version: number; metadata?: MetadataTag[] }>();
+  for (const group of groupVersions(existing)) {
+    const newest = group.versions[0];
+    latestByName.set(newest.name, { documentId: group.documentId, version: versionOf(newest), metadata: newest.metadata });
+  }
+
+  return incoming.map(file => {
+    const match = latestByName.get(file.name);
+    if (!match) {
+      latestByName.set(file.name, { documentId: documentIdOf(file), version: versionOf(file), metadata: file.metadata });
+      return file;
+    }
+    const version = match.version + 1;
+    const metadata = file.metadata?.length ? file.metadata : match.metadata;
+    latestByName.set(file.name, { documentId: match.documentId, version, metadata });
+    return { ...file, documentId: match.documentId, version, metadata };
+  });
+}
@@ -1,3 +1,12 @@
+/** A user-defined key/value tag, stored with the document in the search store. */
+export interface MetadataTag {
+  key: string;
+  value: string;
+}
+
+/** Steps a file goes through after leaving the upload queue, in order. */
+export type UploadPhase = 'uploading' | 'processing' | 'importing';
+
 export interface FileDocument {
   id: string;
   name: string;
@@ -7,11 +16,21 @@ export interface FileDocument {
   type: string; // Extension
   size: number;
   uploadDate: number;
+  contentHash?: string; // Hex SHA-256 of the file bytes, used to spot duplicates
+  metadata?: MetadataTag[]; // Sent as customMetadata on import; changing it means re-importing
+
+  // Versioning: files sharing a documentId are versions of one document. Only one is indexed;
+  // the others are 'archived' (kept locally, removed from the search store).
+  documentId?: string;
+  version?: number;
   
   // File Search specific fields
   uploadUri?: string;
-  status?: 'pending' | 'uploading' | 'processing' | 'active' | 'error';
+  storeDocumentName?: string; // Document created by the store import
+  scopable?: boolean; // Imported with its id as metadata, so questions can be limited to it
+  status?: 'pending' | UploadPhase | 'paused' | 'active' | 'archived' | 'error'; // 'pending' means queued for upload
   error?: string;
+  stale?: boolean; // Remote references could not be verified after a reload
 }
 
 export enum MessageRole {
@@ -20,25 +39,213 @@ export enum MessageRole {
   SYSTEM = 'system'
 }
 
+export interface WebSource {
+  uri: string;
+  title: string;
+}
+
+/** A passage the fileSearch tool retrieved from a store document. */
+export interface RetrievedContext {
+  title?: string; // Display name of the store document (the uploaded file name)
+  text?: string;
+  uri?: string;
+  fileSearchStore?: string;
+  pageNumber?: number;
+}
+
+export interface GroundingChunk {
+  web?: WebSource;
+  retrievedContext?: RetrievedContext;
+}
+
+/** Links a span of the answer to the chunks that back it. */
+export interface GroundingSupport {
+  segment?: {
+    startIndex?: number;
+    endIndex?: number;
+    text?: string;
+  };
+  groundingChunkIndices?: number[];
+  confidenceScores?: number[];
+}
+
 export interface GroundingMetadata {
-  groundingChunks?: Array<{
-    web?: {
-      uri: string;
-      title: string;
-    };
-    [key: string]: any;
-  }>;
+  groundingChunks?: GroundingChunk[];
+  groundingSupports?: GroundingSupport[];
   webSearchQueries?: string[];
-  [key: string]: any;
+  retrievalQueries?: string[];
+}
+
+/** A request to show a cited passage inside its source document. */
+export interface SourceReference {
+  documentName: string;
+  passage?: string;
+  pageNumber?: number;
+  lineNumber?: number; // Line of the document's text, for local search hits
 }
 
 export interface ChatMessage {
   id: string;
+  parentId?: string | null; // Previous turn in the conversation tree; null for the first turn
   role: MessageRole;
   text: string;
   timestamp: number;
   isStreaming?: boolean;
+  isError?: boolean;
+  isStopped?: boolean; // Cancelled by the user; text holds the partial answer
+  versionFileId?: string; // User question asked directly against one (usually superseded) file version
+  metadataFilter?: string; // User question limited to documents matching this filter
+  scopeFileIds?: string[]; // User question limited to these files
+  generation?: GenerationSettings; // Configuration that produced a model answer
+  groundingMetadata?: GroundingMetadata;
+}
+
+/** Model choice and sampling parameters. Unset numbers fall back to the model's defaults. */
+export interface GenerationSettings {
+  modelId: string;
+  temperature?: number;
+  maxOutputTokens?: number;
+  thinkingBudget?: number; // -1 lets the model decide, 0 disables thinking
+}
+
+/** A reusable system prompt. `{{name}}` or `{{name|default}}` placeholders become variables. */
+export interface PromptTemplate {
+  id: string;
+  name: string;
+  description?: string;
+  template: string;
+  isBuiltIn?: boolean;
+  updatedAt: number;
+}
+
+/** Which prompt a workspace or thread uses, with values for its variables. */
+export interface PromptSelection {
+  promptId: string;
+  variables: Record<string, string>;
+}
+
+/** One saved conversation against a workspace's documents. */
+export interface ChatThread {
+  id: string;
+  title: string;
+  isTitleCustom?: boolean; // Renamed by the user; never overwritten by auto-titling
+  promptSelection?: PromptSelection; // Overrides the workspace prompt for this conversation
+  metadataFilter?: string; // Applies to every question in this conversation
+  messages: ChatMessage[]; // Every turn of every branch
+  activeLeafId: string | null; // Last message of the branch being shown
+  createdAt: number;
+  updatedAt: number;
+}
+
+/** Kind of value an extraction field holds; decides its schema type and how edits are read. */
+export type ExtractionFieldType = 'text' | 'number' | 'date' | 'boolean' | 'list';
+
+/** One column of an extraction schema. */
+export interface ExtractionField {
+  id: string;
+  name: string; // Also the property name in the model's JSON response
+  type: ExtractionFieldType;
+  instructions?: string; // What to look for, sent to the model with the field
+}
+
+export type ExtractedValue = string | number | boolean | string[] | null; // null: not found in the document
+
+/** One extracted value and the passage backing it. */
+export interface ExtractionCell {
+  value: ExtractedValue;
+  quote?: string; // Verbatim passage the value was read from
+  pageNumber?: number;
+  isEdited?: boolean; // Corrected by hand after extraction
+}
+
+/** Extraction results for one document. */
+export interface ExtractionRow {
+  fileId: string;
+  status: 'pending' | 'running' | 'done' | 'error';
+  error?: string;
+  cells: Record<string, ExtractionCell>; // Keyed by field id
+  extractedAt?: number;
+}
+
+/** A schema of fields pulled out of every document of a workspace. */
+export interface Extraction {
+  fields: ExtractionField[];
+  rows: ExtractionRow[];
+  updatedAt: number;
+}
+
+/** One question of a batch checklist. */
+export interface BatchQuestion {
+  id: string;
+  text: string;
+}
+
+/** The answer to one question, from the whole workspace or from one file. */
+export interface BatchCell {
+  questionId: string;
+  fileId: string | null; // null: asked of the whole workspace
+  status: 'pending' | 'running' | 'done' | 'error';
+  answer?: string;
+  error?: string;
+  generation?: GenerationSettings;
   groundingMetadata?: GroundingMetadata;
+  answeredAt?: number;
+}
+
+/** A checklist of questions asked of a workspace, or of each of its files. */
+export interface BatchRun {
+  questions: BatchQuestion[];
+  mode: 'workspace' | 'per-file';
+  concurrency: number; // Requests in flight at once
+  cells: BatchCell[];
+  updatedAt: number;
+}
+
+/** One finding of a comparison, with the passages that back it in either document. */
+export interface ComparisonItem {
+  topic: string;
+  detail: string;
+  quoteA?: string;
+  pageA?: number;
+  quoteB?: string;
+  pageB?: number;
+}
+
+export interface ComparisonReport {
+  summary: string;
+  agreements: ComparisonItem[];
+  differences: ComparisonItem[];
+  onlyInA: ComparisonItem[];
+  onlyInB: ComparisonItem[];
+  contradictions: ComparisonItem[];
+}
+
+/** A structured comparison of two files (A and B). */
+export interface Comparison {
+  leftId: string; // Document A
+  rightId: string; // Document B
+  status: 'running' | 'done' | 'error';
+  error?: string;
+  report?: ComparisonReport;
+  generation?: GenerationSettings;
+  createdAt: number;
+}
+
+/** A named collection of files bound to its own FileSearchStore, plus its conversations. */
+export interface Workspace {
+  id: string;
+  name: string;
+  storeName: string | null;
+  files: FileDocument[];
+  threads: ChatThread[];
+  activeThreadId: string | null;
+  settingsOverride?: Partial<GenerationSettings>; // Takes precedence over the global settings
+  promptSelection?: PromptSelection;
+  extraction?: Extraction;
+  batch?: BatchRun;
+  comparison?: Comparison; // The latest one
+  createdAt: number;
+  updatedAt: number;
 }
 
 export interface ProcessingStatus {